@@ -1,7 +1,8 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { AuthProvider } from "@/contexts/AuthContext";
@@ -13,11 +14,34 @@ import Categories from "./pages/Categories";
 import Transactions from "./pages/Transactions";
 import Assets from "./pages/Assets";
 import BankAccounts from "./pages/BankAccounts";
+import ExchangeRates from "./pages/ExchangeRates";
+import Liabilities from "./pages/Liabilities";
+import DebtPlanner from "./pages/DebtPlanner";
+import PersonalDebts from "./pages/PersonalDebts";
+import SavingsGoals from "./pages/SavingsGoals";
 import Reports from "./pages/Reports";
+import Recurring from "./pages/Recurring";
+import Budgets from "./pages/Budgets";
+import Rules from "./pages/Rules";
 import Profile from "./pages/Profile"; // <-- Impor komponen baru
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  // Queries name their own error message through `meta.errorMessage`.
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error(error);
+      toast.error((query.meta?.errorMessage as string) || "Gagal memuat data");
+    },
+  }),
+  // Mutations without their own error handling do the same.
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      const errorMessage = mutation.meta?.errorMessage as string | undefined;
+      if (errorMessage) toast.error(error.message || errorMessage);
+    },
+  }),
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -59,6 +83,86 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/recurring"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <Recurring />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/budgets"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <Budgets />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/rules"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <Rules />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/liabilities"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <Liabilities />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/debt-planner"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <DebtPlanner />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/debts"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <PersonalDebts />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/goals"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <SavingsGoals />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/exchange-rates"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <ExchangeRates />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/assets"
                 element={
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { formatCurrency, formatMoney, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { computeAssetPerformance, formatPercent, gainClass } from "@/lib/assets";
+import type { Asset } from "@/hooks/use-assets";
+import {
+  useAssetValuations,
+  useDeleteAssetValuation,
+  useSaveAssetValuation,
+} from "@/hooks/use-asset-valuations";
+
+interface AssetValuationDialogProps {
+  asset: Asset | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AssetValuationDialog({ asset, onOpenChange }: AssetValuationDialogProps) {
+  const { user } = useAuth();
+  const { data: valuations = [], isLoading } = useAssetValuations(asset?.id);
+  const saveValuation = useSaveAssetValuation();
+  const deleteValuation = useDeleteAssetValuation();
+  const [formData, setFormData] = useState({ valued_at: "", value: "", note: "" });
+
+  const currency = asset?.currency;
+  const performance = asset ? computeAssetPerformance(asset) : null;
+  const chartData = valuations.map((v) => ({
+    date: format(parseISO(v.valued_at), "d MMM yy", { locale: localeID }),
+    value: v.value,
+  }));
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setFormData({ valued_at: "", value: "", note: "" });
+    onOpenChange(open);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!asset) return;
+
+    const value = parseMoney(formData.value, asset.currency);
+    if (value === null || value < 0n) {
+      toast.error("Nilai aset tidak valid");
+      return;
+    }
+    if (formData.valued_at <= asset.acquired_at) {
+      toast.error("Tanggal penilaian harus setelah tanggal akuisisi");
+      return;
+    }
+
+    saveValuation.mutate(
+      {
+        user_id: user!.id,
+        asset_id: asset.id,
+        valued_at: formData.valued_at,
+        value: moneyToNumeric(value, asset.currency),
+        note: formData.note.trim() || null,
+      },
+      { onSuccess: () => toast.success("Nilai aset berhasil dicatat") }
+    );
+    setFormData({ valued_at: "", value: "", note: "" });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus penilaian ini?")) return;
+
+    deleteValuation.mutate(id, {
+      onSuccess: () => toast.success("Penilaian berhasil dihapus"),
+    });
+  };
+
+  return (
+    <Dialog open={!!asset} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Riwayat Nilai {asset?.name}</DialogTitle>
+          <DialogDescription>
+            Catat nilai aset dari waktu ke waktu. Penilaian terbaru menjadi nilai saat ini.
+          </DialogDescription>
+        </DialogHeader>
+
+        {performance && (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Keuntungan</div>
+              <div className={`font-semibold ${gainClass(performance.gain)}`}>
+                {performance.gain > 0n ? "+" : ""}{formatMoney(performance.gain, currency)}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Perubahan</div>
+              <div className={`font-semibold ${gainClass(performance.gain)}`}>{formatPercent(performance.gainPercent)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Return Tahunan</div>
+              <div className="font-semibold">
+                {formatPercent(performance.annualizedPercent)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis
+                    stroke="#888888"
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    width={100}
+                    tickFormatter={(value) => formatCurrency(Number(value), currency)}
+                  />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value), currency)} />
+                  <Line type="monotone" dataKey="value" name="Nilai" stroke="#6366F1" strokeWidth={2} dot />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+
+            <form onSubmit={handleSubmit} className="grid gap-2 md:grid-cols-[auto_1fr_1fr_auto] md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="valued_at">Tanggal</Label>
+                <Input
+                  id="valued_at"
+                  type="date"
+                  value={formData.valued_at}
+                  onChange={(e) => setFormData({ ...formData, valued_at: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="valuation_value">Nilai ({currency})</Label>
+                <Input
+                  id="valuation_value"
+                  type="number"
+                  step="any"
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="valuation_note">Catatan</Label>
+                <Input
+                  id="valuation_note"
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  placeholder="Opsional"
+                />
+              </div>
+              <Button type="submit">Catat</Button>
+            </form>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Catatan</TableHead>
+                  <TableHead className="text-right">Nilai</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...valuations].reverse().map((valuation) => {
+                  // The purchase entry follows the asset's acquisition date and initial value.
+                  const isPurchase = valuation.valued_at === asset?.acquired_at;
+                  return (
+                    <TableRow key={valuation.id}>
+                      <TableCell>{format(parseISO(valuation.valued_at), "d MMM yyyy", { locale: localeID })}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {isPurchase ? "Nilai awal" : valuation.note}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(valuation.value, currency)}</TableCell>
+                      <TableCell className="text-right">
+                        {!isPurchase && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(valuation.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { formatMoney } from "@/lib/utils";
+import { getAccountEffect, TransactionType, TRANSACTION_TYPE_LABELS } from "@/lib/transactions";
+
+type HistoryAccount = Pick<Tables<"bank_accounts">, "id" | "bank_name" | "account_number" | "currency">;
+
+type HistoryTransaction = Tables<"transactions"> & {
+  categories: Pick<Tables<"categories">, "name"> | null;
+  account: Pick<Tables<"bank_accounts">, "bank_name"> | null;
+  to_account: Pick<Tables<"bank_accounts">, "bank_name"> | null;
+};
+
+interface AccountHistoryDialogProps {
+  account: HistoryAccount | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AccountHistoryDialog({ account, onOpenChange }: AccountHistoryDialogProps) {
+  const [transactions, setTransactions] = useState<HistoryTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (account) {
+      fetchHistory(account.id);
+    }
+  }, [account]);
+
+  const fetchHistory = async (accountId: string) => {
+    setLoading(true);
+    try {
+      // Transfers show up in the history of both the source and the destination account.
+      const { data, error } = await supabase
+        .from("transactions")
+        .select(
+          "id, description, amount, fee, to_amount, transaction_date, type, account_id, to_account_id, categories(name), account:bank_accounts!transactions_account_id_fkey(bank_name), to_account:bank_accounts!transactions_to_account_id_fkey(bank_name)"
+        )
+        .or(`account_id.eq.${accountId},to_account_id.eq.${accountId}`)
+        .order("transaction_date", { ascending: false });
+
+      if (error) throw error;
+      setTransactions(data as HistoryTransaction[]);
+    } catch (error) {
+      console.error("Error fetching account history:", error);
+      toast.error("Gagal memuat riwayat rekening");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describe = (transaction: HistoryTransaction) => {
+    if (transaction.type !== "transfer") {
+      return transaction.categories?.name || "N/A";
+    }
+    return transaction.account_id === account?.id
+      ? `Transfer ke ${transaction.to_account?.bank_name || "N/A"}`
+      : `Transfer dari ${transaction.account?.bank_name || "N/A"}`;
+  };
+
+  return (
+    <Dialog open={!!account} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Riwayat {account?.bank_name}</DialogTitle>
+          <DialogDescription>
+            Semua pemasukan, pengeluaran, dan transfer pada rekening {account?.account_number}.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex h-24 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Deskripsi</TableHead>
+                  <TableHead>Keterangan</TableHead>
+                  <TableHead className="text-right">Jumlah</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.length > 0 ? transactions.map((transaction) => {
+                  const effect = account ? getAccountEffect(transaction, account.id, account.currency) : 0n;
+                  return (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{format(new Date(transaction.transaction_date), "d MMM yyyy")}</TableCell>
+                      <TableCell className="font-medium">{transaction.description}</TableCell>
+                      <TableCell>
+                        <div>{describe(transaction)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {TRANSACTION_TYPE_LABELS[transaction.type as TransactionType]}
+                        </div>
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${effect >= 0n ? "text-green-600" : "text-red-600"}`}>
+                        {effect >= 0n ? "+" : "-"} {formatMoney(effect >= 0n ? effect : -effect, account?.currency)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                }) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center h-24">
+                      Belum ada transaksi pada rekening ini.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
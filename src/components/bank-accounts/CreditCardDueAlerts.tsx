@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CreditCard } from 'lucide-react';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { id as localeID } from 'date-fns/locale';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { formatMoney } from '@/lib/utils';
+import { CreditCardOverview, useCreditCards } from '@/hooks/use-credit-cards';
+
+// Remembers which statements were already announced this session.
+const NOTIFIED_KEY = 'fintrack:credit-card-reminders';
+
+const isFlagged = ({ status }: CreditCardOverview) => status.dueStatus === 'due_soon' || status.dueStatus === 'overdue';
+
+export function CreditCardDueAlerts() {
+  const { cards } = useCreditCards();
+  const flagged = cards.filter(isFlagged);
+
+  useEffect(() => {
+    const notified = new Set<string>(JSON.parse(sessionStorage.getItem(NOTIFIED_KEY) || '[]'));
+
+    cards.filter(isFlagged).forEach(({ account, status }) => {
+      const key = `${account.id}:${status.lastStatement.period.closingDate}:${status.dueStatus}`;
+      if (notified.has(key)) return;
+      notified.add(key);
+
+      const amount = formatMoney(status.remainingDue, account.currency);
+      if (status.dueStatus === 'overdue') {
+        toast.error(`Tagihan ${account.bank_name} sebesar ${amount} sudah lewat jatuh tempo`);
+      } else {
+        toast.warning(`Tagihan ${account.bank_name} sebesar ${amount} segera jatuh tempo`);
+      }
+    });
+
+    sessionStorage.setItem(NOTIFIED_KEY, JSON.stringify([...notified]));
+  }, [cards]);
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {flagged.map(({ account, status }) => (
+        <Alert key={account.id} variant={status.dueStatus === 'overdue' ? 'destructive' : 'default'}>
+          <CreditCard className="h-4 w-4" />
+          <AlertTitle>
+            {status.dueStatus === 'overdue'
+              ? `Tagihan ${account.bank_name} lewat jatuh tempo`
+              : `Tagihan ${account.bank_name} segera jatuh tempo`}
+          </AlertTitle>
+          <AlertDescription>
+            Sisa tagihan {formatMoney(status.remainingDue, account.currency)} jatuh tempo{' '}
+            {format(parseISO(status.lastStatement.period.dueDate), 'd MMMM yyyy', { locale: localeID })}
+            {status.remainingMinimum > 0n &&
+              `, pembayaran minimum ${formatMoney(status.remainingMinimum, account.currency)}`}
+            .{' '}
+            <Link to="/bank-accounts" className="underline">Lihat kartu kredit</Link>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { formatMoney } from "@/lib/utils";
+import { getAccountEffect } from "@/lib/transactions";
+import { DueStatus } from "@/lib/credit-cards";
+import type { CreditCardOverview } from "@/hooks/use-credit-cards";
+
+interface CreditCardStatementDialogProps {
+  card: CreditCardOverview | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DUE_STATUS_LABELS: Record<DueStatus, string> = {
+  paid: "Lunas",
+  upcoming: "Belum dibayar",
+  due_soon: "Segera jatuh tempo",
+  overdue: "Lewat jatuh tempo",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy", { locale: localeID });
+
+// The card's statement to pay, the charges building up on the next one, and
+// its transactions grouped by statement period.
+export function CreditCardStatementDialog({ card, onOpenChange }: CreditCardStatementDialogProps) {
+  const account = card?.account;
+  const status = card?.status;
+  const currency = account?.currency;
+
+  return (
+    <Dialog open={!!card} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Tagihan {account?.bank_name}</DialogTitle>
+          <DialogDescription>
+            {account &&
+              `Tagihan dicetak setiap tanggal ${account.statement_day} dan jatuh tempo setiap tanggal ${account.payment_due_day}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {status && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-md border p-3">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                Tagihan Terakhir
+                <Badge variant={status.dueStatus === "overdue" ? "destructive" : "secondary"}>
+                  {DUE_STATUS_LABELS[status.dueStatus]}
+                </Badge>
+              </div>
+              <div className="text-xl font-bold">{formatMoney(status.remainingDue, currency)}</div>
+              <p className="text-xs text-muted-foreground">
+                dari {formatMoney(status.lastStatement.balance, currency)}, jatuh tempo{" "}
+                {formatDate(status.lastStatement.period.dueDate)}
+              </p>
+              {status.remainingMinimum > 0n && (
+                <p className="text-xs text-muted-foreground">
+                  Minimum {formatMoney(status.remainingMinimum, currency)}
+                </p>
+              )}
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-sm text-muted-foreground">Tagihan Berikutnya</div>
+              <div className="text-xl font-bold">{formatMoney(status.nextStatement.balance, currency)}</div>
+              <p className="text-xs text-muted-foreground">
+                Dicetak {formatDate(status.nextStatement.period.closingDate)}, belanja periode ini{" "}
+                {formatMoney(status.nextStatement.charges, currency)}
+              </p>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-sm text-muted-foreground">Sisa Limit</div>
+              <div className="text-xl font-bold">{formatMoney(status.availableCredit, currency)}</div>
+              <Progress value={Math.min(status.utilization, 100)} className="mt-2" />
+              <p className="mt-1 text-xs text-muted-foreground">{status.utilization.toFixed(0)}% limit terpakai</p>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-[45vh] space-y-6 overflow-y-auto">
+          {card?.statements.map((statement) => (
+            <div key={statement.period.closingDate} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">
+                    {formatDate(statement.period.start)} - {formatDate(statement.period.closingDate)}
+                    {statement.open && <Badge variant="outline" className="ml-2">Berjalan</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Belanja {formatMoney(statement.charges, currency)} · Pembayaran{" "}
+                    {formatMoney(statement.credits, currency)} · Jatuh tempo {formatDate(statement.period.dueDate)}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-semibold">{formatMoney(statement.balance, currency)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Minimum {formatMoney(statement.minimumPayment, currency)}
+                  </div>
+                </div>
+              </div>
+              {statement.transactions.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tanggal</TableHead>
+                      <TableHead>Deskripsi</TableHead>
+                      <TableHead className="text-right">Jumlah</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.transactions.map((transaction) => {
+                      const effect = getAccountEffect(transaction, account.id, currency);
+                      return (
+                        <TableRow key={transaction.id}>
+                          <TableCell>{formatDate(transaction.transaction_date)}</TableCell>
+                          <TableCell>{transaction.description}</TableCell>
+                          <TableCell className={`text-right ${effect > 0n ? "text-green-600" : ""}`}>
+                            {effect > 0n ? "- " : ""}
+                            {formatMoney(effect > 0n ? effect : -effect, currency)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">Tidak ada transaksi pada periode ini.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
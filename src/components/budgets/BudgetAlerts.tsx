@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { formatMoney } from '@/lib/utils';
+import { BUDGET_WARNING_THRESHOLD, toBudgetMonth } from '@/lib/budgets';
+import { useBudgetProgress } from '@/hooks/use-budget-progress';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+
+// Remembers which category/threshold pairs were already announced this session.
+const NOTIFIED_KEY = 'fintrack:budget-alerts';
+
+export function BudgetAlerts() {
+  const month = toBudgetMonth(new Date());
+  const { progress } = useBudgetProgress(month);
+  const baseCurrency = useBaseCurrency();
+  const flagged = progress.filter((p) => p.status !== 'ok');
+
+  useEffect(() => {
+    const notified = new Set<string>(JSON.parse(sessionStorage.getItem(NOTIFIED_KEY) || '[]'));
+
+    progress.forEach(({ budget, status, percent }) => {
+      if (status === 'ok') return;
+      const key = `${budget.id}:${status}`;
+      if (notified.has(key)) return;
+      notified.add(key);
+
+      const name = budget.categories?.name || 'Kategori';
+      if (status === 'over') {
+        toast.error(`Anggaran ${name} terlampaui (${percent.toFixed(0)}%)`);
+      } else {
+        toast.warning(`Anggaran ${name} sudah terpakai ${percent.toFixed(0)}%`);
+      }
+    });
+
+    sessionStorage.setItem(NOTIFIED_KEY, JSON.stringify([...notified]));
+  }, [progress]);
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {flagged.map(({ budget, status, spent, available, percent }) => (
+        <Alert key={budget.id} variant={status === 'over' ? 'destructive' : 'default'}>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {status === 'over'
+              ? `Anggaran ${budget.categories?.name} terlampaui`
+              : `Anggaran ${budget.categories?.name} hampir habis`}
+          </AlertTitle>
+          <AlertDescription>
+            {formatMoney(spent, baseCurrency)} dari {formatMoney(available, baseCurrency)} ({percent.toFixed(0)}%) sudah terpakai bulan ini.
+            {status === 'warning' && ` Batas peringatan ${BUDGET_WARNING_THRESHOLD * 100}%.`}{' '}
+            <Link to="/budgets" className="underline">Lihat anggaran</Link>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
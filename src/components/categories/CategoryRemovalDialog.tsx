@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CategorySelectItems } from '@/components/categories/CategorySelectItems';
+import { useDeleteCategory, useMergeCategory } from '@/hooks/use-categories';
+import { queryKeys } from '@/lib/query-keys';
+
+interface RemovableCategory {
+  id: string;
+  name: string;
+  type: string;
+  parent_id: string | null;
+  archived_at: string | null;
+}
+
+export type CategoryRemovalMode = 'delete' | 'merge';
+
+interface CategoryRemovalDialogProps {
+  category: RemovableCategory | null;
+  mode: CategoryRemovalMode;
+  categories: RemovableCategory[];
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Usage {
+  transactions: number;
+  budgets: number;
+  rules: number;
+  recurring: number;
+}
+
+async function fetchUsage(categoryId: string): Promise<Usage> {
+  const count = (table: 'transactions' | 'transaction_lines' | 'budgets' | 'category_rules' | 'recurring_transactions') =>
+    supabase.from(table).select('id', { count: 'exact', head: true }).eq('category_id', categoryId);
+  const [transactions, lines, budgets, rules, recurring] = await Promise.all([
+    count('transactions'),
+    count('transaction_lines'),
+    count('budgets'),
+    count('category_rules'),
+    count('recurring_transactions'),
+  ]);
+
+  for (const result of [transactions, lines, budgets, rules, recurring]) {
+    if (result.error) throw result.error;
+  }
+  // Category lines of broken-down transactions count as uses as well.
+  return {
+    transactions: (transactions.count || 0) + (lines.count || 0),
+    budgets: budgets.count || 0,
+    rules: rules.count || 0,
+    recurring: recurring.count || 0,
+  };
+}
+
+// Deleting a category that is still in use moves its history into another
+// category first; merging does the same for any category.
+export function CategoryRemovalDialog({ category, mode, categories, onOpenChange }: CategoryRemovalDialogProps) {
+  const { user } = useAuth();
+  const [targetId, setTargetId] = useState('');
+  const deleteCategory = useDeleteCategory();
+  const mergeCategory = useMergeCategory();
+
+  useEffect(() => {
+    setTargetId('');
+  }, [category]);
+
+  // Not kept once the dialog closes, so a reopened dialog never decides on old counts.
+  const { data: usage } = useQuery({
+    queryKey: queryKeys.categoryUsage.detail(user?.id ?? '', category?.id ?? ''),
+    enabled: !!user && !!category,
+    gcTime: 0,
+    meta: { errorMessage: 'Failed to check where the category is used' },
+    queryFn: () => fetchUsage(category!.id),
+  });
+
+  if (!category) return null;
+
+  const subcategories = categories.filter((c) => c.parent_id === category.id);
+  // Subcategories move along with their parent, so they need a top-level target.
+  const targets = categories.filter(
+    (c) =>
+      c.id !== category.id &&
+      c.type === category.type &&
+      !c.archived_at &&
+      c.parent_id !== category.id &&
+      (subcategories.length === 0 || !c.parent_id)
+  );
+  // Deleting would silently drop its rules and strip recurring transactions of
+  // their category, so those count as uses too.
+  const inUse = !!usage && (usage.transactions > 0 || usage.rules > 0 || usage.recurring > 0 || subcategories.length > 0);
+  const needsTarget = mode === 'merge' || inUse;
+
+  const handleConfirm = () => {
+    if (needsTarget) {
+      const target = categories.find((c) => c.id === targetId);
+      mergeCategory.mutate(
+        { sourceId: category.id, targetId },
+        { onSuccess: () => toast.success(`${category.name} merged into ${target?.name}`) }
+      );
+    } else {
+      deleteCategory.mutate(category.id, {
+        onSuccess: () => toast.success('Category deleted successfully'),
+      });
+    }
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {mode === 'merge' ? `Merge ${category.name}` : `Delete ${category.name}`}
+          </DialogTitle>
+          <DialogDescription>
+            {!usage
+              ? 'Checking where this category is used...'
+              : `Used by ${usage.transactions} transactions, ${usage.budgets} budgets, ${usage.rules} rules, ${usage.recurring} recurring transactions and ${subcategories.length} subcategories.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {usage && needsTarget && (
+          <div className="space-y-2">
+            <Label htmlFor="target_category_id">
+              {mode === 'merge' ? 'Merge into' : 'Move transactions, budgets and rules to'}
+            </Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger id="target_category_id">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                <CategorySelectItems categories={targets} />
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Budgets in the same month are added together. {category.name} is deleted afterwards.
+            </p>
+          </div>
+        )}
+
+        {usage && !needsTarget && (
+          <p className="text-sm text-muted-foreground">
+            This category is not used by any transaction and can be deleted safely.
+            {usage.budgets > 0 && ' Its budgets are deleted as well.'}
+          </p>
+        )}
+
+        <Button
+          variant={mode === 'delete' ? 'destructive' : 'default'}
+          onClick={handleConfirm}
+          disabled={!usage || (needsTarget && !targetId)}
+        >
+          {mode === 'merge' ? 'Merge Categories' : needsTarget ? 'Move and Delete' : 'Delete Category'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { SelectGroup, SelectItem } from "@/components/ui/select";
+import { buildCategoryTree, HierarchicalCategory } from "@/lib/categories";
+
+interface CategorySelectItemsProps {
+  categories: (HierarchicalCategory & { icon?: string | null })[];
+}
+
+// Select options grouped by parent category; parents stay selectable themselves.
+export function CategorySelectItems({ categories }: CategorySelectItemsProps) {
+  return (
+    <>
+      {buildCategoryTree(categories).map(({ category, children }) => (
+        <SelectGroup key={category.id}>
+          <SelectItem value={category.id} className={children.length > 0 ? "font-semibold" : undefined}>
+            {category.icon ? `${category.icon} ` : ""}{category.name}
+          </SelectItem>
+          {children.map((child) => (
+            <SelectItem key={child.id} value={child.id} className="pl-12">
+              {child.icon ? `${child.icon} ` : ""}{child.name}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import { SelectItem } from "@/components/ui/select";
+import { CURRENCIES, CURRENCY_LABELS } from "@/lib/currencies";
+
+interface CurrencySelectItemsProps {
+  // A stored code outside CURRENCIES, kept selectable so editing does not drop it.
+  extra?: string;
+}
+
+export function CurrencySelectItems({ extra }: CurrencySelectItemsProps) {
+  const codes: string[] = [...CURRENCIES];
+  if (extra && !codes.includes(extra)) codes.push(extra);
+
+  return (
+    <>
+      {codes.map((currency) => (
+        <SelectItem key={currency} value={currency}>
+          {currency}
+          {CURRENCY_LABELS[currency] ? ` - ${CURRENCY_LABELS[currency]}` : ""}
+        </SelectItem>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { findUnconvertibleCurrencies } from '@/lib/currencies';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+import { useBankAccounts } from '@/hooks/use-bank-accounts';
+import { useAssets } from '@/hooks/use-assets';
+import { useExchangeRates } from '@/hooks/use-exchange-rates';
+
+interface MissingRatesAlertProps {
+  // Hidden on the exchange-rates page itself.
+  showLink?: boolean;
+}
+
+// Warns about account and asset currencies that converted totals leave out.
+export function MissingRatesAlert({ showLink = true }: MissingRatesAlertProps) {
+  const baseCurrency = useBaseCurrency();
+  const { data: accounts = [] } = useBankAccounts();
+  const { data: assets = [] } = useAssets();
+  const { data: rates = [] } = useExchangeRates();
+
+  const missing = findUnconvertibleCurrencies(
+    [...accounts.map((a) => a.currency), ...assets.map((a) => a.currency)],
+    rates,
+    baseCurrency
+  );
+  if (missing.length === 0) return null;
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Kurs belum lengkap</AlertTitle>
+      <AlertDescription>
+        Belum ada kurs antara {missing.join(', ')} dan {baseCurrency}, sehingga saldo dan transaksi dalam mata uang
+        tersebut belum ikut dihitung.{' '}
+        {showLink && <Link to="/exchange-rates" className="underline">Atur kurs</Link>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,7 +1,10 @@
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { useRecurringCatchUp } from '@/hooks/use-recurring-catch-up';
 
 export function DashboardLayout({ children }: { children: React.ReactNode }) {
+  useRecurringCatchUp();
+
   return (
     <div className="flex h-screen w-full overflow-hidden">
       <Sidebar />
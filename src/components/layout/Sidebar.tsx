@@ -3,8 +3,16 @@ import {
   LayoutDashboard, 
   Tag, 
   ArrowLeftRight, 
+  Repeat,
+  PiggyBank,
+  Wand2,
   Building2, 
   Landmark, 
+  Coins,
+  HandCoins,
+  Calculator,
+  Handshake,
+  Target,
   FileText, 
   User,
   LogOut,
@@ -18,8 +26,16 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Categories', href: '/categories', icon: Tag },
   { name: 'Transactions', href: '/transactions', icon: ArrowLeftRight },
+  { name: 'Recurring', href: '/recurring', icon: Repeat },
+  { name: 'Budgets', href: '/budgets', icon: PiggyBank },
+  { name: 'Rules', href: '/rules', icon: Wand2 },
   { name: 'Assets', href: '/assets', icon: Building2 },
   { name: 'Bank Accounts', href: '/bank-accounts', icon: Landmark },
+  { name: 'Liabilities', href: '/liabilities', icon: HandCoins },
+  { name: 'Debt Planner', href: '/debt-planner', icon: Calculator },
+  { name: 'Personal Debts', href: '/debts', icon: Handshake },
+  { name: 'Goals', href: '/goals', icon: Target },
+  { name: 'Exchange Rates', href: '/exchange-rates', icon: Coins },
   { name: 'Reports', href: '/reports', icon: FileText },
   { name: 'Profile', href: '/profile', icon: User },
 ];
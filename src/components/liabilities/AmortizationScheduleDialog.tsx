@@ -0,0 +1,82 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { formatMoney, sumMoney } from "@/lib/utils";
+import { buildAmortizationSchedule, INTEREST_METHOD_LABELS, InterestMethod } from "@/lib/liabilities";
+import type { Liability } from "@/hooks/use-liabilities";
+
+interface AmortizationScheduleDialogProps {
+  liability: Liability | null;
+  paidInstallments: number;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The schedule as agreed at the start of the loan, with the installments
+// recorded so far marked as paid.
+export function AmortizationScheduleDialog({ liability, paidInstallments, onOpenChange }: AmortizationScheduleDialogProps) {
+  const schedule = liability ? buildAmortizationSchedule(liability) : [];
+  const currency = liability?.currency;
+  const totalInterest = sumMoney(schedule.map((row) => row.interest));
+
+  return (
+    <Dialog open={!!liability} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Jadwal Angsuran {liability?.name}</DialogTitle>
+          <DialogDescription>
+            {liability &&
+              `${schedule.length} angsuran, bunga ${liability.interest_rate}% per tahun (${
+                INTEREST_METHOD_LABELS[liability.interest_method as InterestMethod]
+              }), total bunga ${formatMoney(totalInterest, currency)}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ke</TableHead>
+                <TableHead>Jatuh Tempo</TableHead>
+                <TableHead className="text-right">Angsuran</TableHead>
+                <TableHead className="text-right">Pokok</TableHead>
+                <TableHead className="text-right">Bunga</TableHead>
+                <TableHead className="text-right">Sisa Pokok</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedule.map((row) => (
+                <TableRow key={row.number} className={row.number <= paidInstallments ? "text-muted-foreground" : undefined}>
+                  <TableCell>
+                    {row.number}
+                    {row.number <= paidInstallments && (
+                      <Badge variant="secondary" className="ml-2">Lunas</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{format(parseISO(row.dueDate), "d MMM yyyy", { locale: localeID })}</TableCell>
+                  <TableCell className="text-right font-medium">{formatMoney(row.payment, currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(row.principal, currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(row.interest, currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(row.balance, currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { formatMoney, moneyToDecimal, moneyToNumeric, parseMoney } from "@/lib/utils";
+import type { Installment } from "@/lib/liabilities";
+import { CategorySelectItems } from "@/components/categories/CategorySelectItems";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { useCreateTransaction } from "@/hooks/use-transactions";
+import type { Liability } from "@/hooks/use-liabilities";
+
+interface LiabilityPaymentDialogProps {
+  liability: Liability | null;
+  // Prefills the form; null once the loan is paid off.
+  nextInstallment: Installment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Records an installment as an expense from one of the user's accounts, split
+// into the principal it repays and the interest it costs. The form is filled in
+// from the props once, so the dialog is remounted per liability.
+export function LiabilityPaymentDialog({ liability, nextInstallment, onOpenChange }: LiabilityPaymentDialogProps) {
+  const { user } = useAuth();
+  const { data: accounts = [] } = useBankAccounts();
+  const { data: categories = [] } = useCategories();
+  const createTransaction = useCreateTransaction();
+  const [formData, setFormData] = useState(() => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    return {
+      transaction_date: nextInstallment && nextInstallment.dueDate < today ? nextInstallment.dueDate : today,
+      account_id: liability?.account_id ?? "",
+      category_id: "",
+      amount: nextInstallment ? moneyToDecimal(nextInstallment.payment, liability?.currency) : "",
+      interest_amount: nextInstallment ? moneyToDecimal(nextInstallment.interest, liability?.currency) : "",
+    };
+  });
+
+  const currency = liability?.currency;
+  // The payment is booked in the account's currency, so only matching accounts qualify.
+  const payingAccounts = accounts.filter((account) => account.currency === currency);
+  const expenseCategories = categories.filter((c) => c.type === "expense" && !c.archived_at);
+
+  const amount = parseMoney(formData.amount, currency);
+  const interest = parseMoney(formData.interest_amount || "0", currency);
+  const principal = amount !== null && interest !== null ? amount - interest : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!liability) return;
+
+    if (!formData.account_id) {
+      toast.error("Pilih rekening pembayaran");
+      return;
+    }
+    if (amount === null || amount <= 0n || interest === null || interest < 0n || interest > amount) {
+      toast.error("Jumlah angsuran tidak valid");
+      return;
+    }
+
+    const number = nextInstallment ? ` ke-${nextInstallment.number}` : "";
+    createTransaction.mutate(
+      {
+        user_id: user!.id,
+        description: `Angsuran ${liability.name}${number}`,
+        amount: moneyToNumeric(amount, liability.currency),
+        transaction_date: formData.transaction_date,
+        type: "expense",
+        category_id: formData.category_id || null,
+        account_id: formData.account_id,
+        liability_id: liability.id,
+        interest_amount: moneyToNumeric(interest, liability.currency),
+        principal_amount: moneyToNumeric(amount - interest, liability.currency),
+      },
+      { onSuccess: () => toast.success("Pembayaran angsuran berhasil dicatat") }
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!liability} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bayar Angsuran {liability?.name}</DialogTitle>
+          <DialogDescription>
+            {nextInstallment
+              ? `Angsuran ke-${nextInstallment.number} sesuai jadwal. Tambahkan jumlahnya untuk pelunasan sebagian.`
+              : "Kewajiban ini sudah lunas."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment_date">Tanggal</Label>
+            <Input
+              id="payment_date"
+              type="date"
+              value={formData.transaction_date}
+              onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_account">Rekening</Label>
+            <Select value={formData.account_id} onValueChange={(value) => setFormData({ ...formData, account_id: value })}>
+              <SelectTrigger id="payment_account">
+                <SelectValue placeholder="Pilih rekening" />
+              </SelectTrigger>
+              <SelectContent>
+                {payingAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.bank_name} - {account.account_number}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_category">Kategori (opsional)</Label>
+            <Select value={formData.category_id} onValueChange={(value) => setFormData({ ...formData, category_id: value })}>
+              <SelectTrigger id="payment_category">
+                <SelectValue placeholder="Tanpa kategori" />
+              </SelectTrigger>
+              <SelectContent>
+                <CategorySelectItems categories={expenseCategories} />
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment_amount">Jumlah Dibayar ({currency})</Label>
+              <Input
+                id="payment_amount"
+                type="number"
+                step="any"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment_interest">Bunga ({currency})</Label>
+              <Input
+                id="payment_interest"
+                type="number"
+                step="any"
+                value={formData.interest_amount}
+                onChange={(e) => setFormData({ ...formData, interest_amount: e.target.value })}
+              />
+            </div>
+          </div>
+          {principal !== null && principal >= 0n && (
+            <p className="text-sm text-muted-foreground">
+              Pokok yang dilunasi: {formatMoney(principal, currency)}
+            </p>
+          )}
+
+          <Button type="submit" className="w-full">
+            Simpan Pembayaran
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
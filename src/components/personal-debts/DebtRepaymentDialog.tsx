@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { formatCurrency, moneyToDecimal, moneyToNumber, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { DebtDirection, DebtStatus, repaymentType } from "@/lib/personal-debts";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import { useCreateTransaction } from "@/hooks/use-transactions";
+import type { PersonalDebt, PersonalDebtTransaction } from "@/hooks/use-personal-debts";
+
+interface DebtRepaymentDialogProps {
+  debt: PersonalDebt | null;
+  status: DebtStatus | null;
+  transactions: PersonalDebtTransaction[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Records a (partial) repayment as a transaction on one of the user's accounts
+// and lists the money that changed hands so far. The form is filled in from the
+// props once, so the dialog is remounted per debt.
+export function DebtRepaymentDialog({ debt, status, transactions, onOpenChange }: DebtRepaymentDialogProps) {
+  const { user } = useAuth();
+  const { data: accounts = [] } = useBankAccounts();
+  const createTransaction = useCreateTransaction();
+  const [formData, setFormData] = useState(() => ({
+    transaction_date: format(new Date(), "yyyy-MM-dd"),
+    account_id: "",
+    amount: status && status.outstanding > 0n ? moneyToDecimal(status.outstanding, debt?.currency) : "",
+  }));
+
+  const currency = debt?.currency;
+  const direction = debt?.direction as DebtDirection;
+  const name = debt?.counterparties?.name ?? "";
+  const payingAccounts = accounts.filter((account) => account.currency === currency);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!debt) return;
+
+    const amount = parseMoney(formData.amount, debt.currency);
+    if (!formData.account_id) {
+      toast.error("Pilih rekening");
+      return;
+    }
+    if (amount === null || amount <= 0n) {
+      toast.error("Jumlah pembayaran tidak valid");
+      return;
+    }
+
+    createTransaction.mutate(
+      {
+        user_id: user!.id,
+        description: direction === "lent" ? `Pelunasan dari ${name}` : `Pelunasan ke ${name}`,
+        amount: moneyToNumeric(amount, debt.currency),
+        transaction_date: formData.transaction_date,
+        type: repaymentType(direction),
+        account_id: formData.account_id,
+        personal_debt_id: debt.id,
+      },
+      { onSuccess: () => toast.success("Pembayaran berhasil dicatat") }
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!debt} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {direction === "lent" ? `Terima Pembayaran dari ${name}` : `Bayar ke ${name}`}
+          </DialogTitle>
+          <DialogDescription>
+            {status && `Sisa ${formatCurrency(moneyToNumber(status.outstanding, currency), currency)} dari ${formatCurrency(debt?.amount ?? 0, currency)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {status && !status.settled && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="repayment_date">Tanggal</Label>
+              <Input
+                id="repayment_date"
+                type="date"
+                value={formData.transaction_date}
+                onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repayment_account">Rekening</Label>
+              <Select value={formData.account_id} onValueChange={(account_id) => setFormData({ ...formData, account_id })}>
+                <SelectTrigger id="repayment_account">
+                  <SelectValue placeholder="Pilih rekening" />
+                </SelectTrigger>
+                <SelectContent>
+                  {payingAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.bank_name} - {account.account_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="repayment_amount">Jumlah ({currency})</Label>
+              <Input
+                id="repayment_amount"
+                type="number"
+                step="any"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" className="col-span-3">Simpan Pembayaran</Button>
+          </form>
+        )}
+
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Deskripsi</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.length > 0 ? transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell>{format(parseISO(transaction.transaction_date), "d MMM yyyy", { locale: localeID })}</TableCell>
+                  <TableCell>
+                    {transaction.description}
+                    <div className="text-xs text-muted-foreground">
+                      {transaction.type === repaymentType(direction) ? "Pelunasan" : "Pemberian pinjaman"}
+                    </div>
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${transaction.type === "income" ? "text-green-600" : "text-red-600"}`}>
+                    {transaction.type === "income" ? "+" : "-"} {formatCurrency(transaction.amount, currency)}
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center h-24">
+                    Belum ada transaksi untuk catatan ini.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { Link } from 'react-router-dom';
+import { Target } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { formatCurrency, formatMoney } from '@/lib/utils';
+import { computeGoalProgress } from '@/lib/savings-goals';
+import { useGoalContributions, useSavingsGoals } from '@/hooks/use-savings-goals';
+
+// Goals shown on the dashboard.
+const CLOSEST_GOALS = 3;
+
+// The unfinished goals with the nearest target dates; goals without a date
+// come last, the furthest along first.
+export function ClosestGoals() {
+  const { data: goals = [] } = useSavingsGoals();
+  const { data: contributions = [] } = useGoalContributions();
+
+  const closest = goals
+    .map((goal) => ({ goal, progress: computeGoalProgress(goal, contributions.filter((c) => c.goal_id === goal.id)) }))
+    .filter(({ progress }) => progress.status !== 'achieved')
+    .sort(
+      (a, b) =>
+        (a.goal.target_date ?? '9999-12-31').localeCompare(b.goal.target_date ?? '9999-12-31') ||
+        b.progress.percent - a.progress.percent
+    )
+    .slice(0, CLOSEST_GOALS);
+
+  if (closest.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Savings Goals</CardTitle>
+        <Target className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {closest.map(({ goal, progress }) => (
+          <div key={goal.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{goal.name}</span>
+              <span className="text-muted-foreground">
+                {goal.target_date ? `by ${format(parseISO(goal.target_date), 'd MMM yyyy')}` : 'No target date'}
+              </span>
+            </div>
+            <Progress value={progress.percent} />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {formatMoney(progress.saved, goal.currency)} of {formatCurrency(goal.target_amount, goal.currency)}
+              </span>
+              {progress.monthlyNeeded !== null && (
+                <span>{formatMoney(progress.monthlyNeeded, goal.currency)}/month needed</span>
+              )}
+            </div>
+          </div>
+        ))}
+        <Link to="/goals" className="text-sm underline">View all goals</Link>
+      </CardContent>
+    </Card>
+  );
+}
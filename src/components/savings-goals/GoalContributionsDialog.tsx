@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { formatCurrency, formatMoney, moneyToNumeric, parseMoney, toMoney } from "@/lib/utils";
+import {
+  GoalContribution,
+  SavingsGoal,
+  useContributionCandidates,
+  useCreateGoalContribution,
+  useDeleteGoalContribution,
+} from "@/hooks/use-savings-goals";
+
+interface GoalContributionsDialogProps {
+  goal: SavingsGoal | null;
+  contributions: GoalContribution[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy", { locale: localeID });
+
+// Adds money to a goal, either typed in or taken from a transaction that moved
+// it, and lists what was put in so far.
+export function GoalContributionsDialog({ goal, contributions, onOpenChange }: GoalContributionsDialogProps) {
+  const { user } = useAuth();
+  const { data: candidates = [] } = useContributionCandidates(goal);
+  const createContribution = useCreateGoalContribution();
+  const deleteContribution = useDeleteGoalContribution();
+  const [formData, setFormData] = useState({
+    contributed_at: format(new Date(), "yyyy-MM-dd"),
+    amount: "",
+    note: "",
+    transaction_id: "",
+  });
+  const currency = goal?.currency;
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!goal) return;
+
+    const amount = parseMoney(formData.amount, goal.currency);
+    if (amount === null || amount === 0n) {
+      toast.error("Jumlah setoran tidak valid");
+      return;
+    }
+
+    createContribution.mutate(
+      {
+        user_id: user!.id,
+        goal_id: goal.id,
+        contributed_at: formData.contributed_at,
+        amount: moneyToNumeric(amount, goal.currency),
+        note: formData.note || null,
+      },
+      { onSuccess: () => toast.success(amount > 0n ? "Setoran berhasil dicatat" : "Penarikan berhasil dicatat") }
+    );
+    setFormData({ ...formData, amount: "", note: "" });
+  };
+
+  const handleLinkSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const transaction = candidates.find((t) => t.id === formData.transaction_id);
+    if (!goal || !transaction) {
+      toast.error("Pilih transaksi");
+      return;
+    }
+
+    createContribution.mutate(
+      {
+        user_id: user!.id,
+        goal_id: goal.id,
+        transaction_id: transaction.id,
+        contributed_at: transaction.transaction_date,
+        // Converted into the currency of the goal when it is saved.
+        amount: transaction.received,
+        note: transaction.description,
+      },
+      { onSuccess: () => toast.success("Transaksi berhasil ditautkan") }
+    );
+    setFormData({ ...formData, transaction_id: "" });
+  };
+
+  const handleDelete = (contribution: GoalContribution) => {
+    const message = contribution.transaction_id
+      ? "Lepaskan transaksi ini dari target? Transaksinya sendiri tetap tersimpan."
+      : "Hapus setoran ini?";
+    if (!confirm(message)) return;
+
+    deleteContribution.mutate(contribution.id, {
+      onSuccess: () => toast.success("Setoran berhasil dihapus"),
+    });
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Setoran {goal?.name}</DialogTitle>
+          <DialogDescription>
+            Catat setoran secara manual atau tautkan transaksi pemasukan atau transfer ke tabungan ini.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="manual">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="manual">Manual</TabsTrigger>
+            <TabsTrigger value="transaction">Dari Transaksi</TabsTrigger>
+          </TabsList>
+          <TabsContent value="manual">
+            <form onSubmit={handleManualSubmit} className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contributed_at">Tanggal</Label>
+                <Input
+                  id="contributed_at"
+                  type="date"
+                  value={formData.contributed_at}
+                  onChange={(e) => setFormData({ ...formData, contributed_at: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contribution_amount">Jumlah ({currency})</Label>
+                <Input
+                  id="contribution_amount"
+                  type="number"
+                  step="any"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="contribution_note">Catatan (opsional)</Label>
+                <Input
+                  id="contribution_note"
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Gunakan jumlah negatif untuk penarikan.</p>
+              </div>
+              <Button type="submit" className="col-span-2">Simpan Setoran</Button>
+            </form>
+          </TabsContent>
+          <TabsContent value="transaction">
+            <form onSubmit={handleLinkSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="contribution_transaction">Transaksi</Label>
+                <Select
+                  value={formData.transaction_id}
+                  onValueChange={(transaction_id) => setFormData({ ...formData, transaction_id })}
+                >
+                  <SelectTrigger id="contribution_transaction">
+                    <SelectValue placeholder="Pilih transaksi" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {formatDate(t.transaction_date)} · {t.description} ·{" "}
+                        {formatCurrency(t.received, t.received_currency)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {goal?.account_id
+                    ? "Pemasukan dan transfer ke rekening tabungan ini dalam 90 hari terakhir."
+                    : "Pemasukan dan transfer dalam 90 hari terakhir. Tautkan rekening ke target untuk menyaring daftar ini."}
+                </p>
+              </div>
+              <Button type="submit" className="w-full" disabled={!formData.transaction_id}>
+                Tautkan Transaksi
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Catatan</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contributions.length > 0 ? contributions.map((contribution) => {
+                const amount = toMoney(contribution.amount, currency);
+                return (
+                  <TableRow key={contribution.id}>
+                    <TableCell>{formatDate(contribution.contributed_at)}</TableCell>
+                    <TableCell>
+                      {contribution.note || "-"}
+                      {contribution.transaction_id && <Badge variant="secondary" className="ml-2">Transaksi</Badge>}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${amount < 0n ? "text-red-600" : "text-green-600"}`}>
+                      {amount < 0n ? "-" : "+"} {formatMoney(amount < 0n ? -amount : amount, currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(contribution)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center h-24">
+                    Belum ada setoran untuk target ini.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
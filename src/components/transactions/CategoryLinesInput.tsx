@@ -0,0 +1,73 @@
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import { formatMoney, Money } from "@/lib/utils";
+import { CategoryLineForm, emptyCategoryLine, unallocatedAmount } from "@/lib/transaction-lines";
+import { HierarchicalCategory } from "@/lib/categories";
+import { CategorySelectItems } from "@/components/categories/CategorySelectItems";
+
+interface CategoryLinesInputProps {
+  lines: CategoryLineForm[];
+  onChange: (lines: CategoryLineForm[]) => void;
+  categories: (HierarchicalCategory & { icon?: string | null })[];
+  // Amount of the transaction, null while it is not a valid number.
+  total: Money | null;
+  currency: string;
+}
+
+// Category lines of one transaction, with what is still left to allocate.
+export function CategoryLinesInput({ lines, onChange, categories, total, currency }: CategoryLinesInputProps) {
+  const updateLine = (index: number, changes: Partial<CategoryLineForm>) =>
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  const left = total !== null ? unallocatedAmount(lines, total, currency) : null;
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <Select value={line.category_id} onValueChange={(category_id) => updateLine(i, { category_id })}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Pilih kategori" />
+            </SelectTrigger>
+            <SelectContent>
+              <CategorySelectItems categories={categories} />
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            value={line.amount}
+            onChange={(e) => updateLine(i, { amount: e.target.value })}
+            placeholder="Jumlah"
+            required
+          />
+          <Input
+            value={line.note}
+            onChange={(e) => updateLine(i, { note: e.target.value })}
+            placeholder="Catatan"
+          />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(lines.filter((_, j) => j !== i))}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...lines, emptyCategoryLine()])}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Baris
+        </Button>
+        {left !== null && (
+          <span className={`text-sm ${left === 0n ? "text-muted-foreground" : "text-destructive"}`}>
+            {left >= 0n ? `Belum dialokasikan ${formatMoney(left, currency)}` : `Lebih ${formatMoney(-left, currency)}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
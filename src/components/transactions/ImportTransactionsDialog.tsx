@@ -0,0 +1,510 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import { parseCsv } from "@/lib/csv";
+import {
+  buildImportRows,
+  chunk,
+  ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELD_LABELS,
+  ImportCategory,
+  ImportField,
+  ImportRow,
+  REQUIRED_IMPORT_FIELDS,
+} from "@/lib/transaction-import";
+import {
+  BANK_STATEMENT_PARSERS,
+  BankStatementFormat,
+  computeImportFingerprints,
+  detectDuplicates,
+  DuplicateStatus,
+} from "@/lib/bank-statements";
+import { applyRules, CategoryRule } from "@/lib/categorization-rules";
+
+interface ImportAccount {
+  id: string;
+  bank_name: string;
+  account_number: string;
+  currency: string;
+}
+
+interface ImportTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: ImportAccount[];
+  categories: ImportCategory[];
+  rules: CategoryRule[];
+  onImported: () => void;
+}
+
+type Step = "upload" | "mapping" | "preview";
+
+type SourceFormat = "csv" | BankStatementFormat;
+
+interface PreviewRow extends ImportRow {
+  fingerprint: string | null;
+  duplicate: DuplicateStatus;
+  include: boolean;
+}
+
+const BATCH_SIZE = 100;
+// Rows per request when loading the existing transactions of the imported
+// period; the API returns at most 1000 rows at a time.
+const EXISTING_PAGE_SIZE = 1000;
+const NOT_MAPPED = "none";
+
+export function ImportTransactionsDialog({
+  open,
+  onOpenChange,
+  accounts,
+  categories,
+  rules,
+  onImported,
+}: ImportTransactionsDialogProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>("upload");
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>("csv");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [accountId, setAccountId] = useState("");
+  const currency = accounts.find((account) => account.id === accountId)?.currency;
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(0);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setFileText("");
+    setRows([]);
+    setHasHeader(true);
+    setMapping(null);
+    setPreviewRows([]);
+    setWarnings([]);
+    setImporting(false);
+    setImported(0);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const parsed = parseCsv(text);
+    if (parsed.length === 0) {
+      toast.error("File CSV kosong");
+      return;
+    }
+    setFileName(file.name);
+    setFileText(text);
+    setRows(parsed);
+  };
+
+  const headers = rows.length > 0
+    ? rows[0].map((value, index) => (hasHeader && value.trim() ? value.trim() : `Kolom ${index + 1}`))
+    : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const goToNextStep = () => {
+    if (!accountId) {
+      toast.error("Pilih rekening tujuan impor");
+      return;
+    }
+
+    if (sourceFormat === "csv") {
+      setMapping(hasHeader ? guessColumnMapping(rows[0]) : guessColumnMapping([]));
+      setStep("mapping");
+      return;
+    }
+
+    // Bank statements have a known layout, so they skip the mapping step.
+    try {
+      const result = BANK_STATEMENT_PARSERS[sourceFormat].parse(fileText);
+      setWarnings(result.warnings);
+      showPreview(
+        result.transactions.map((t) => ({
+          line: t.line,
+          values: [],
+          errors: [],
+          transaction: {
+            transaction_date: t.transaction_date,
+            description: t.description,
+            amount: t.amount,
+            type: t.type,
+            category_id: null,
+          },
+        }))
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const goToPreview = () => {
+    if (!mapping) return;
+    const missing = REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] === null);
+    if (missing.length > 0) {
+      toast.error(`Kolom wajib belum dipetakan: ${missing.map((f) => IMPORT_FIELD_LABELS[f]).join(", ")}`);
+      return;
+    }
+    setWarnings([]);
+    showPreview(buildImportRows(dataRows, mapping, categories, hasHeader ? 2 : 1));
+  };
+
+  // Categorizes rows through the user's rules and flags rows that already
+  // exist on the chosen account within the imported period.
+  const showPreview = async (importRows: ImportRow[]) => {
+    // Duplicate detection uses the description as found in the file, so rules are applied afterwards.
+    const categorize = (row: ImportRow): ImportRow => {
+      if (!row.transaction || row.transaction.category_id) return row;
+      const result = applyRules(rules, { ...row.transaction, account_id: accountId });
+      return result
+        ? { ...row, transaction: { ...row.transaction, category_id: result.category_id, description: result.description } }
+        : row;
+    };
+
+    const parsed = importRows.filter((row) => row.transaction).map((row) => row.transaction!);
+    const fingerprints = computeImportFingerprints(parsed);
+    let duplicates: DuplicateStatus[] = parsed.map(() => null);
+
+    if (parsed.length > 0) {
+      const dates = parsed.map((t) => t.transaction_date).sort();
+      const existing: Pick<Tables<"transactions">, "transaction_date" | "amount" | "type" | "import_fingerprint">[] = [];
+      for (let offset = 0; ; offset += EXISTING_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("transactions")
+          .select("transaction_date, amount, type, import_fingerprint")
+          .eq("account_id", accountId)
+          .gte("transaction_date", dates[0])
+          .lte("transaction_date", dates[dates.length - 1])
+          .order("id")
+          .range(offset, offset + EXISTING_PAGE_SIZE - 1);
+
+        if (error) {
+          toast.error("Gagal memeriksa transaksi ganda");
+          return;
+        }
+        existing.push(...data);
+        if (data.length < EXISTING_PAGE_SIZE) break;
+      }
+      duplicates = detectDuplicates(parsed, fingerprints, existing);
+    }
+
+    let validIndex = 0;
+    setPreviewRows(
+      importRows.map((row) => {
+        if (!row.transaction) {
+          return { ...row, fingerprint: null, duplicate: null, include: false };
+        }
+        const index = validIndex++;
+        return {
+          ...categorize(row),
+          fingerprint: fingerprints[index],
+          duplicate: duplicates[index],
+          include: duplicates[index] === null,
+        };
+      })
+    );
+    setStep("preview");
+  };
+
+  const toggleInclude = (line: number, include: boolean) => {
+    setPreviewRows(previewRows.map((row) => (row.line === line ? { ...row, include } : row)));
+  };
+
+  // Rows imported before would hit the unique fingerprint of their account.
+  const validRows = previewRows.filter((row) => row.transaction && row.include && row.duplicate !== "exact");
+  const invalidRows = previewRows.filter((row) => !row.transaction);
+  const duplicateRows = previewRows.filter((row) => row.duplicate);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImported(0);
+    let count = 0;
+
+    try {
+      for (const batch of chunk(validRows, BATCH_SIZE)) {
+        const { error } = await supabase.from("transactions").insert(
+          batch.map((row) => ({
+            ...row.transaction!,
+            user_id: user!.id,
+            account_id: accountId,
+            import_fingerprint: row.fingerprint,
+          }))
+        );
+
+        if (error) throw error;
+        count += batch.length;
+        setImported(count);
+      }
+
+      toast.success(`${count} transaksi berhasil diimpor`);
+      onImported();
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      // Earlier batches stay imported; tell the user where it stopped.
+      toast.error(`Impor berhenti setelah ${count} transaksi: ${(error as Error).message}`);
+      if (count > 0) onImported();
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Impor Transaksi dari CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Langkah 1 dari 3: pilih format, file, dan rekening tujuan."}
+            {step === "mapping" && "Langkah 2 dari 3: cocokkan kolom CSV dengan data transaksi."}
+            {step === "preview" && "Langkah 3 dari 3: periksa hasil sebelum diimpor."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="source_format">Format</Label>
+              <Select value={sourceFormat} onValueChange={(value) => setSourceFormat(value as SourceFormat)}>
+                <SelectTrigger id="source_format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV generik (atur kolom sendiri)</SelectItem>
+                  {Object.values(BANK_STATEMENT_PARSERS).map((parser) => (
+                    <SelectItem key={parser.format} value={parser.format}>
+                      Mutasi {parser.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csv_file">File CSV</Label>
+              <Input id="csv_file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              {fileName && (
+                <p className="text-xs text-muted-foreground">
+                  {fileName}: {dataRows.length} baris data
+                </p>
+              )}
+            </div>
+
+            {sourceFormat === "csv" && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                Baris pertama berisi nama kolom
+              </label>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="import_account_id">Rekening</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger id="import_account_id">
+                  <SelectValue placeholder="Pilih rekening" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.bank_name} - {account.account_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button className="w-full" disabled={rows.length === 0} onClick={goToNextStep}>
+              Lanjut
+            </Button>
+          </div>
+        )}
+
+        {step === "mapping" && mapping && (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) ? " *" : " (opsional)"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : mapping[field]!.toString()}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Tidak digunakan</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Tanpa kolom tipe, jumlah negatif dianggap pengeluaran dan jumlah positif pemasukan.
+              Angka format Indonesia (1.250.000,00) dan tanggal dd/mm/yyyy didukung.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep("upload")}>Kembali</Button>
+              <Button className="flex-1" onClick={goToPreview}>Lihat Pratinjau</Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              <span className="font-medium text-green-600">{validRows.length} baris akan diimpor</span>
+              {invalidRows.length > 0 && (
+                <span className="font-medium text-red-600">, {invalidRows.length} baris bermasalah akan dilewati</span>
+              )}
+              {duplicateRows.length > 0 && (
+                <span className="font-medium text-amber-600">, {duplicateRows.length} kemungkinan sudah tercatat</span>
+              )}
+            </p>
+            {warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-xs text-muted-foreground">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            <div className="max-h-[45vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Baris</TableHead>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Deskripsi</TableHead>
+                    <TableHead>Kategori</TableHead>
+                    <TableHead className="text-right">Jumlah</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => (
+                    <TableRow key={row.line} className={row.transaction ? undefined : "bg-red-50 dark:bg-red-950"}>
+                      <TableCell>
+                        {row.transaction && (
+                          <Checkbox
+                            checked={row.include}
+                            disabled={row.duplicate === "exact"}
+                            onCheckedChange={(checked) => toggleInclude(row.line, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>{row.line}</TableCell>
+                      {row.transaction ? (
+                        <>
+                          <TableCell>{format(parseISO(row.transaction.transaction_date), "d MMM yyyy")}</TableCell>
+                          <TableCell>{row.transaction.description}</TableCell>
+                          <TableCell>
+                            {categories.find((c) => c.id === row.transaction!.category_id)?.name || (
+                              <span className="text-muted-foreground">Tanpa kategori</span>
+                            )}
+                          </TableCell>
+                          <TableCell className={`text-right ${row.transaction.type === "income" ? "text-green-600" : "text-red-600"}`}>
+                            {row.transaction.type === "income" ? "+" : "-"} {formatCurrency(row.transaction.amount, currency)}
+                          </TableCell>
+                          {row.duplicate === "exact" ? (
+                            <TableCell className="text-amber-600">Sudah diimpor</TableCell>
+                          ) : row.duplicate === "possible" ? (
+                            <TableCell className="text-amber-600">Mungkin ganda</TableCell>
+                          ) : (
+                            <TableCell className="text-green-600">OK</TableCell>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <TableCell colSpan={4} className="text-muted-foreground">
+                            {row.values.join(" | ")}
+                          </TableCell>
+                          <TableCell className="text-red-600">{row.errors.join("; ")}</TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={(imported / validRows.length) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  {imported} dari {validRows.length} transaksi diimpor
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={importing}
+                onClick={() => setStep(sourceFormat === "csv" ? "mapping" : "upload")}
+              >
+                Kembali
+              </Button>
+              <Button className="flex-1" disabled={importing || validRows.length === 0} onClick={handleImport}>
+                Impor {validRows.length} Transaksi
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
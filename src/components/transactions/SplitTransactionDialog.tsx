@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { formatCurrency, formatMoney, moneyToNumeric, toMoney } from "@/lib/utils";
+import {
+  computeSplitShares,
+  SPLIT_METHOD_LABELS,
+  SplitMethod,
+  splitValuesFromShares,
+} from "@/lib/transaction-splits";
+import { useCounterparties, useSetTransactionSplits } from "@/hooks/use-personal-debts";
+import type { TransactionWithRelations } from "@/hooks/use-transactions";
+
+const NEW_COUNTERPARTY = "new";
+
+interface SplitRow {
+  counterpartyId: string;
+  name: string;
+  value: string;
+}
+
+interface SplitTransactionDialogProps {
+  transaction: TransactionWithRelations | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Splits an expense with other people. Their shares become money lent to them
+// and only the user's own share counts as expense. The form is filled in from
+// the saved split once, so the dialog is remounted per transaction.
+export function SplitTransactionDialog({ transaction, onOpenChange }: SplitTransactionDialogProps) {
+  const { data: counterparties = [] } = useCounterparties();
+  const setSplits = useSetTransactionSplits();
+  const currency = transaction?.currency;
+  const total = toMoney(transaction?.amount ?? 0, currency);
+
+  const [method, setMethod] = useState<SplitMethod>(() => (transaction?.split_method as SplitMethod) ?? "equal");
+  const [rows, setRows] = useState<SplitRow[]>(() => {
+    const splits = transaction?.splits ?? [];
+    const values = splitValuesFromShares(
+      total,
+      method,
+      splits.map((split) => toMoney(split.amount, currency)),
+      currency
+    );
+    return splits.map((split, i) => ({
+      counterpartyId: split.counterparty_id,
+      name: split.counterparties?.name ?? "",
+      value: values[i],
+    }));
+  });
+
+  const result = rows.length > 0 ? computeSplitShares(total, method, rows.map((row) => row.value), currency) : null;
+
+  const updateRow = (index: number, changes: Partial<SplitRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const addRow = () => {
+    const taken = new Set(rows.map((row) => row.counterpartyId));
+    const next = counterparties.find((c) => !taken.has(c.id));
+    setRows([...rows, { counterpartyId: next?.id ?? NEW_COUNTERPARTY, name: next?.name ?? "", value: "" }]);
+  };
+
+  const save = (shares: { counterpartyId: string | null; counterpartyName: string; amount: number }[]) => {
+    setSplits.mutate(
+      { transaction: transaction!, method, shares },
+      { onSuccess: () => toast.success(shares.length > 0 ? "Pembagian berhasil disimpan" : "Pembagian berhasil dihapus") }
+    );
+    onOpenChange(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const names = rows.map((row) => row.name.trim());
+    if (names.some((name) => !name)) {
+      toast.error("Isi nama setiap orang");
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast.error("Setiap orang hanya boleh muncul sekali");
+      return;
+    }
+    if (!result) {
+      toast.error("Bagian orang lain tidak valid atau melebihi jumlah transaksi");
+      return;
+    }
+
+    save(rows.map((row, i) => ({
+      counterpartyId: row.counterpartyId === NEW_COUNTERPARTY ? null : row.counterpartyId,
+      counterpartyName: names[i],
+      amount: moneyToNumeric(result.shares[i], currency),
+    })));
+  };
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Bagi Transaksi</DialogTitle>
+          <DialogDescription>
+            {transaction?.description} · {formatCurrency(transaction?.amount ?? 0, currency)}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="split_method">Cara Membagi</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as SplitMethod)}>
+              <SelectTrigger id="split_method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SPLIT_METHOD_LABELS) as SplitMethod[]).map((m) => (
+                  <SelectItem key={m} value={m}>{SPLIT_METHOD_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Orang Lain</Label>
+            {rows.map((row, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Select
+                  value={row.counterpartyId}
+                  onValueChange={(counterpartyId) =>
+                    updateRow(i, {
+                      counterpartyId,
+                      name: counterparties.find((c) => c.id === counterpartyId)?.name ?? "",
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {counterparties.map((counterparty) => (
+                      <SelectItem key={counterparty.id} value={counterparty.id}>{counterparty.name}</SelectItem>
+                    ))}
+                    <SelectItem value={NEW_COUNTERPARTY}>+ Orang baru</SelectItem>
+                  </SelectContent>
+                </Select>
+                {row.counterpartyId === NEW_COUNTERPARTY && (
+                  <Input
+                    value={row.name}
+                    onChange={(e) => updateRow(i, { name: e.target.value })}
+                    placeholder="Nama"
+                    required
+                  />
+                )}
+                {method === "equal" ? (
+                  <span className="flex-1 text-right text-sm">
+                    {result ? formatMoney(result.shares[i], currency) : "-"}
+                  </span>
+                ) : (
+                  <Input
+                    type="number"
+                    step="any"
+                    value={row.value}
+                    onChange={(e) => updateRow(i, { value: e.target.value })}
+                    placeholder={method === "percentage" ? "%" : "Jumlah"}
+                    required
+                  />
+                )}
+                <Button type="button" variant="ghost" size="icon" onClick={() => setRows(rows.filter((_, j) => j !== i))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addRow}>
+              <Plus className="mr-2 h-4 w-4" />
+              Tambah Orang
+            </Button>
+          </div>
+
+          <div className="flex justify-between rounded-md bg-muted p-3 text-sm">
+            <span>Bagian saya (dihitung sebagai pengeluaran)</span>
+            <span className="font-semibold">
+              {rows.length === 0 ? formatMoney(total, currency) : result ? formatMoney(result.ownShare, currency) : "-"}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Bagian orang lain dicatat sebagai piutang. Pelunasannya dicatat di halaman{" "}
+            <Link to="/debts" className="underline">Hutang Piutang</Link>.
+          </p>
+
+          <div className="flex gap-2">
+            {(transaction?.splits.length ?? 0) > 0 && (
+              <Button type="button" variant="outline" onClick={() => save([])}>
+                Hapus Pembagian
+              </Button>
+            )}
+            <Button type="submit" className="flex-1" disabled={rows.length === 0}>
+              Simpan Pembagian
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
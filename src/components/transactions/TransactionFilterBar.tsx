@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { CategorySelectItems } from "@/components/categories/CategorySelectItems";
+import { TRANSACTION_TYPE_LABELS, TransactionType } from "@/lib/transactions";
+import {
+  countActiveFilters,
+  EMPTY_TRANSACTION_FILTERS,
+  TransactionFilters,
+} from "@/lib/transaction-filters";
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+  categories: { id: string; name: string; type: string; parent_id: string | null }[];
+  accounts: { id: string; bank_name: string; account_number: string }[];
+}
+
+const ALL = "all";
+const TYPING_DELAY_MS = 400;
+
+type TypedField = "search" | "minAmount" | "maxAmount";
+
+export function TransactionFilterBar({ filters, onChange, categories, accounts }: TransactionFilterBarProps) {
+  // Text fields are applied after the user stops typing, not on every keystroke.
+  const [draft, setDraft] = useState<Pick<TransactionFilters, TypedField>>({
+    search: filters.search,
+    minAmount: filters.minAmount,
+    maxAmount: filters.maxAmount,
+  });
+
+  useEffect(() => {
+    setDraft({ search: filters.search, minAmount: filters.minAmount, maxAmount: filters.maxAmount });
+  }, [filters.search, filters.minAmount, filters.maxAmount]);
+
+  useEffect(() => {
+    if (
+      draft.search === filters.search &&
+      draft.minAmount === filters.minAmount &&
+      draft.maxAmount === filters.maxAmount
+    ) {
+      return;
+    }
+    const timeout = setTimeout(() => onChange({ ...filters, ...draft, page: 1 }), TYPING_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, filters, onChange]);
+
+  const update = (changes: Partial<TransactionFilters>) => onChange({ ...filters, ...changes, page: 1 });
+
+  const visibleCategories = filters.type === "income" || filters.type === "expense"
+    ? categories.filter((c) => c.type === filters.type)
+    : categories;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Cari deskripsi transaksi..."
+            value={draft.search}
+            onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+          />
+        </div>
+        {countActiveFilters(filters) > 0 && (
+          <Button variant="ghost" onClick={() => onChange(EMPTY_TRANSACTION_FILTERS)}>
+            <X className="mr-2 h-4 w-4" />
+            Reset Filter
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        <div className="space-y-2">
+          <Label htmlFor="filter_from">Dari Tanggal</Label>
+          <Input
+            id="filter_from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => update({ from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter_to">Sampai Tanggal</Label>
+          <Input
+            id="filter_to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => update({ to: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter_type">Tipe</Label>
+          <Select
+            value={filters.type || ALL}
+            onValueChange={(value) => update({ type: value === ALL ? "" : (value as TransactionType), categoryId: "" })}
+          >
+            <SelectTrigger id="filter_type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua tipe</SelectItem>
+              {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map((type) => (
+                <SelectItem key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter_category">Kategori</Label>
+          <Select
+            value={filters.categoryId || ALL}
+            onValueChange={(value) => update({ categoryId: value === ALL ? "" : value })}
+            disabled={filters.type === "transfer"}
+          >
+            <SelectTrigger id="filter_category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua kategori</SelectItem>
+              <CategorySelectItems categories={visibleCategories} />
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter_account">Rekening</Label>
+          <Select
+            value={filters.accountId || ALL}
+            onValueChange={(value) => update({ accountId: value === ALL ? "" : value })}
+          >
+            <SelectTrigger id="filter_account">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua rekening</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.bank_name} - {account.account_number}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Jumlah</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min="0"
+              placeholder="Min"
+              value={draft.minAmount}
+              onChange={(e) => setDraft({ ...draft, minAmount: e.target.value })}
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="number"
+              min="0"
+              placeholder="Maks"
+              value={draft.maxAmount}
+              onChange={(e) => setDraft({ ...draft, maxAmount: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
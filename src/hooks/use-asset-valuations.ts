@@ -0,0 +1,77 @@
+import { QueryKey, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type AssetValuation = Tables<"asset_valuations">;
+
+// The latest valuation becomes the asset's current value, which feeds the totals.
+const VALUATION_DEPENDENT_KEYS = [
+  queryKeys.assetValuations.all,
+  queryKeys.assets.all,
+  queryKeys.reports.all,
+  queryKeys.dashboard.all,
+];
+
+const byValuedAt = (a: AssetValuation, b: AssetValuation) => a.valued_at.localeCompare(b.valued_at);
+
+// Only the cached log of the asset a mutation touches is patched.
+const isLogOf = (cachedKey: QueryKey, assetId: string) => cachedKey[2] === assetId;
+
+// The valuation log of one asset, oldest first as the chart draws it.
+export function useAssetValuations(assetId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.assetValuations.list(user?.id ?? "", assetId ?? ""),
+    enabled: !!user && !!assetId,
+    meta: { errorMessage: "Gagal memuat riwayat nilai aset" },
+    queryFn: async (): Promise<AssetValuation[]> => {
+      const { data, error } = await supabase
+        .from("asset_valuations")
+        .select("*")
+        .eq("asset_id", assetId!)
+        .order("valued_at");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// A valuation on a date that already has one replaces it.
+export function useSaveAssetValuation() {
+  return useOptimisticMutation({
+    mutationFn: async (valuation: TablesInsert<"asset_valuations">) => {
+      const { error } = await supabase
+        .from("asset_valuations")
+        .upsert(valuation, { onConflict: "asset_id,valued_at" });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.assetValuations.all,
+    update: (valuations: AssetValuation[], valuation, cachedKey) =>
+      isLogOf(cachedKey, valuation.asset_id)
+        ? [
+            ...valuations.filter((v) => v.valued_at !== valuation.valued_at),
+            { id: optimisticId(), created_at: new Date().toISOString(), note: null, ...valuation },
+          ].sort(byValuedAt)
+        : valuations,
+    invalidates: VALUATION_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan nilai aset",
+  });
+}
+
+export function useDeleteAssetValuation() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("asset_valuations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.assetValuations.all,
+    update: (valuations: AssetValuation[], id) => valuations.filter((v) => v.id !== id),
+    invalidates: VALUATION_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus nilai aset",
+  });
+}
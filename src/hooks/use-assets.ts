@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type Asset = Tables<"assets">;
+
+// The purchase is the first entry of the asset's valuation log, and assets
+// count towards net worth.
+const ASSET_DEPENDENT_KEYS = [
+  queryKeys.assets.all,
+  queryKeys.assetValuations.all,
+  queryKeys.reports.all,
+  queryKeys.dashboard.all,
+];
+
+const byAcquiredAtDesc = (a: Asset, b: Asset) => b.acquired_at.localeCompare(a.acquired_at);
+
+export function useAssets() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.assets.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat data aset" },
+    queryFn: async (): Promise<Asset[]> => {
+      const { data, error } = await supabase
+        .from("assets")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("acquired_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateAsset() {
+  return useOptimisticMutation({
+    mutationFn: async (asset: TablesInsert<"assets">) => {
+      const { error } = await supabase.from("assets").insert(asset);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.assets.all,
+    update: (assets: Asset[], asset) =>
+      [
+        ...assets,
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          initial_value: 0,
+          current_value: 0,
+          currency: DEFAULT_CURRENCY,
+          ...asset,
+        },
+      ].sort(byAcquiredAtDesc),
+    invalidates: ASSET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan aset",
+  });
+}
+
+export function useUpdateAsset() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"assets"> }) => {
+      const { error } = await supabase.from("assets").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.assets.all,
+    update: (assets: Asset[], { id, changes }) =>
+      assets.map((asset) => (asset.id === id ? { ...asset, ...changes } : asset)).sort(byAcquiredAtDesc),
+    invalidates: ASSET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan aset",
+  });
+}
+
+export function useDeleteAsset() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("assets").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.assets.all,
+    update: (assets: Asset[], id) => assets.filter((asset) => asset.id !== id),
+    invalidates: ASSET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus aset",
+  });
+}
@@ -0,0 +1,103 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { DEFAULT_CURRENCY, moneyToNumber, toMoney } from "@/lib/utils";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type BankAccount = Tables<"bank_accounts">;
+
+// Balances feed the net worth, and card terms the credit card statements.
+const ACCOUNT_DEPENDENT_KEYS = [
+  queryKeys.bankAccounts.all,
+  queryKeys.creditCards.all,
+  queryKeys.reports.all,
+  queryKeys.dashboard.all,
+];
+
+export function useBankAccounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.bankAccounts.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat data rekening bank" },
+    queryFn: async (): Promise<BankAccount[]> => {
+      const { data, error } = await supabase
+        .from("bank_accounts")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("bank_name", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateBankAccount() {
+  return useOptimisticMutation({
+    mutationFn: async (account: TablesInsert<"bank_accounts">) => {
+      const { error } = await supabase.from("bank_accounts").insert(account);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.bankAccounts.all,
+    update: (accounts: BankAccount[], account) =>
+      [
+        ...accounts,
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          currency: DEFAULT_CURRENCY,
+          account_type: "bank",
+          credit_limit: null,
+          statement_day: null,
+          payment_due_day: null,
+          minimum_payment_percent: null,
+          minimum_payment_amount: null,
+          ...account,
+          opening_balance: account.opening_balance ?? 0,
+          // No transaction is booked on a new account yet.
+          balance: account.opening_balance ?? 0,
+        },
+      ].sort((a, b) => a.bank_name.localeCompare(b.bank_name)),
+    invalidates: ACCOUNT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan rekening bank",
+  });
+}
+
+export function useUpdateBankAccount() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"bank_accounts"> }) => {
+      const { error } = await supabase.from("bank_accounts").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.bankAccounts.all,
+    update: (accounts: BankAccount[], { id, changes }) =>
+      accounts.map((account) => {
+        if (account.id !== id) return account;
+        const updated = { ...account, ...changes };
+        // The balance moves along with the opening balance.
+        const balance = toMoney(account.balance, updated.currency)
+          - toMoney(account.opening_balance, updated.currency)
+          + toMoney(updated.opening_balance, updated.currency);
+        return { ...updated, balance: moneyToNumber(balance, updated.currency) };
+      }),
+    invalidates: ACCOUNT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan rekening bank",
+  });
+}
+
+export function useDeleteBankAccount() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("bank_accounts").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.bankAccounts.all,
+    update: (accounts: BankAccount[], id) => accounts.filter((account) => account.id !== id),
+    invalidates: ACCOUNT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus rekening bank",
+  });
+}
@@ -0,0 +1,9 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+
+// The currency dashboard totals and reports are converted into. It is kept in
+// the user's auth metadata next to the full name and set on the profile page.
+export function useBaseCurrency(): string {
+  const { user } = useAuth();
+  return user?.user_metadata?.base_currency || DEFAULT_CURRENCY;
+}
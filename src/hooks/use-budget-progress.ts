@@ -0,0 +1,219 @@
+import { QueryKey, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+import { queryKeys } from "@/lib/query-keys";
+import { Money, toMoney } from "@/lib/utils";
+import {
+  Budget,
+  BudgetProgress,
+  computeBudgetProgress,
+  getBudgetStatus,
+  ROLLOVER_LOOKBACK_MONTHS,
+  shiftBudgetMonth,
+} from "@/lib/budgets";
+
+export interface CategoryBudget extends Budget {
+  categories: {
+    name: string;
+    icon: string | null;
+    color: string | null;
+  } | null;
+}
+
+async function fetchBudgetProgress(userId: string, month: string, baseCurrency: string) {
+  const firstMonth = shiftBudgetMonth(month, -ROLLOVER_LOOKBACK_MONTHS);
+
+  const [budgets, spent] = await Promise.all([
+    supabase
+      .from("budgets")
+      .select("*, categories(name, icon, color)")
+      .eq("user_id", userId)
+      .gte("month", firstMonth)
+      .lte("month", month),
+    supabase.rpc("budget_spending", { from_month: firstMonth, to_month: month, base_currency: baseCurrency }),
+  ]);
+
+  if (budgets.error) throw budgets.error;
+  if (spent.error) throw spent.error;
+
+  const spending = new Map<string, Money>(
+    spent.data.map((row) => [`${row.category_id}:${row.month}`, toMoney(row.spent, baseCurrency)])
+  );
+
+  return computeBudgetProgress(budgets.data as CategoryBudget[], spending, month, baseCurrency)
+    .sort((a, b) => b.percent - a.percent);
+}
+
+// Budgets of `month` (yyyy-MM-01) with what was spent against them, including
+// earlier months for rollovers. Budgets are in the base currency; spending in a
+// subcategory also counts towards the budget of its parent category.
+export function useBudgetProgress(month: string) {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+
+  const { data: progress = [], isLoading: loading } = useQuery({
+    queryKey: queryKeys.budgets.progress(user?.id ?? "", month, baseCurrency),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat anggaran" },
+    queryFn: (): Promise<BudgetProgress<CategoryBudget>[]> => fetchBudgetProgress(user!.id, month, baseCurrency),
+  });
+
+  return { progress, loading };
+}
+
+// Spending only shows up in the budget totals and dashboard alerts.
+const BUDGET_DEPENDENT_KEYS = [queryKeys.budgets.all, queryKeys.dashboard.all];
+
+type ProgressKey = ReturnType<typeof queryKeys.budgets.progress>;
+
+// Progress of a budget with a new amount, keeping what was carried over and spent.
+function withAmount(
+  progress: BudgetProgress<CategoryBudget>,
+  budget: CategoryBudget,
+  currency: string
+): BudgetProgress<CategoryBudget> {
+  const available = toMoney(budget.amount, currency) + progress.carriedOver;
+  const percent = available > 0n
+    ? (Number(progress.spent) / Number(available)) * 100
+    : progress.spent > 0n ? 100 : 0;
+
+  return {
+    ...progress,
+    budget,
+    available,
+    remaining: available - progress.spent,
+    percent,
+    status: getBudgetStatus(percent),
+  };
+}
+
+// Optimistic progress of a new budget, shown until the refetch adds its spending.
+function newProgress(budget: CategoryBudget, currency: string): BudgetProgress<CategoryBudget> {
+  return withAmount(
+    { budget, carriedOver: 0n, available: 0n, spent: 0n, remaining: 0n, percent: 0, status: "ok" },
+    budget,
+    currency
+  );
+}
+
+// Fills the embedded category of an optimistic budget from the cache.
+function useCategoryFromCache() {
+  const queryClient = useQueryClient();
+
+  return (categoryId: string): CategoryBudget["categories"] => {
+    const category = queryClient.getQueriesData<Tables<"categories">[]>({ queryKey: queryKeys.categories.all })
+      .flatMap(([, data]) => data || [])
+      .find((c) => c.id === categoryId);
+    return category ? { name: category.name, icon: category.icon, color: category.color } : null;
+  };
+}
+
+export function useCreateBudget() {
+  const categoryOf = useCategoryFromCache();
+
+  return useOptimisticMutation({
+    mutationFn: async (budget: TablesInsert<"budgets">) => {
+      const { error } = await supabase.from("budgets").insert(budget);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.budgets.all,
+    update: (progress: BudgetProgress<CategoryBudget>[], budget, key) => {
+      const [, , , month, currency] = key as ProgressKey;
+      if (budget.month !== month) return progress;
+      return [
+        ...progress,
+        newProgress(
+          {
+            id: optimisticId(),
+            rollover: false,
+            ...budget,
+            categories: categoryOf(budget.category_id),
+          } as CategoryBudget,
+          currency
+        ),
+      ];
+    },
+    invalidates: BUDGET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan anggaran",
+  });
+}
+
+export function useUpdateBudget() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"budgets"> }) => {
+      const { error } = await supabase.from("budgets").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.budgets.all,
+    update: (progress: BudgetProgress<CategoryBudget>[], { id, changes }, key) =>
+      progress.map((p) =>
+        p.budget.id === id ? withAmount(p, { ...p.budget, ...changes }, (key as ProgressKey)[4]) : p
+      ),
+    invalidates: BUDGET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan anggaran",
+  });
+}
+
+export function useDeleteBudget() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("budgets").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.budgets.all,
+    update: (progress: BudgetProgress<CategoryBudget>[], id) => progress.filter((p) => p.budget.id !== id),
+    invalidates: BUDGET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus anggaran",
+  });
+}
+
+// Copies the budgets of the month before `month` into it. Categories that
+// already have a budget in `month` are left untouched.
+export function useCopyPreviousMonthBudgets() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useOptimisticMutation({
+    mutationFn: async (month: string) => {
+      const { data: previous, error } = await supabase
+        .from("budgets")
+        .select("category_id, amount, rollover")
+        .eq("user_id", user!.id)
+        .eq("month", shiftBudgetMonth(month, -1));
+
+      if (error) throw error;
+      if (previous.length === 0) throw new Error("Tidak ada anggaran di bulan sebelumnya");
+
+      const { error: insertError } = await supabase
+        .from("budgets")
+        .upsert(
+          previous.map((b) => ({ ...b, user_id: user!.id, month })),
+          { onConflict: "category_id,month", ignoreDuplicates: true }
+        );
+
+      if (insertError) throw insertError;
+    },
+    queryKey: queryKeys.budgets.all,
+    // Copies what the cache holds of the previous month, if it was viewed.
+    update: (progress: BudgetProgress<CategoryBudget>[], month, key) => {
+      const [, userId, , cachedMonth, currency] = key as ProgressKey;
+      if (cachedMonth !== month) return progress;
+
+      const previousKey: QueryKey = queryKeys.budgets.progress(userId, shiftBudgetMonth(month, -1), currency);
+      const previous = queryClient.getQueryData<BudgetProgress<CategoryBudget>[]>(previousKey) ?? [];
+      const budgeted = new Set(progress.map((p) => p.budget.category_id));
+
+      return [
+        ...progress,
+        ...previous
+          .filter((p) => !budgeted.has(p.budget.category_id))
+          .map((p) => newProgress({ ...p.budget, id: optimisticId(), month }, currency)),
+      ];
+    },
+    invalidates: BUDGET_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyalin anggaran",
+  });
+}
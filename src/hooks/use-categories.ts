@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type Category = Tables<"categories">;
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+// All categories of the user, archived ones included, sorted by name.
+export function useCategories() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.categories.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Failed to load categories" },
+    queryFn: async (): Promise<Category[]> => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateCategory() {
+  return useOptimisticMutation({
+    mutationFn: async (category: TablesInsert<"categories">) => {
+      const { error } = await supabase.from("categories").insert(category);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categories.all,
+    update: (categories: Category[], category) =>
+      [
+        ...categories,
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          icon: null,
+          color: null,
+          parent_id: null,
+          archived_at: null,
+          ...category,
+        },
+      ].sort(byName),
+    invalidates: [queryKeys.categories.all],
+    errorMessage: "Failed to save category",
+  });
+}
+
+export function useUpdateCategory() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"categories"> }) => {
+      const { error } = await supabase.from("categories").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categories.all,
+    update: (categories: Category[], { id, changes }) =>
+      categories.map((category) => (category.id === id ? { ...category, ...changes } : category)).sort(byName),
+    invalidates: [queryKeys.categories.all, queryKeys.transactions.all, queryKeys.budgets.all],
+    errorMessage: "Failed to save category",
+  });
+}
+
+// Only succeeds for categories without transactions; see useMergeCategory.
+export function useDeleteCategory() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("categories").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categories.all,
+    update: (categories: Category[], id) => categories.filter((category) => category.id !== id),
+    invalidates: [queryKeys.categories.all, queryKeys.budgets.all],
+    errorMessage: "Failed to delete category",
+  });
+}
+
+// Moves transactions, budgets, rules and subcategories into the target and
+// deletes the source category.
+export function useMergeCategory() {
+  return useOptimisticMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { error } = await supabase.rpc("merge_category", { source_id: sourceId, target_id: targetId });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categories.all,
+    update: (categories: Category[], { sourceId, targetId }) =>
+      categories
+        .filter((category) => category.id !== sourceId)
+        .map((category) => (category.parent_id === sourceId ? { ...category, parent_id: targetId } : category)),
+    invalidates: [queryKeys.categories.all, queryKeys.transactions.all, queryKeys.budgets.all, queryKeys.reports.all],
+    errorMessage: "Failed to merge categories",
+  });
+}
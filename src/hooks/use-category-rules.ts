@@ -0,0 +1,115 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { CategoryRule, RuleMatchMode, sortRules } from "@/lib/categorization-rules";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+// Rules count as uses of their category when it is archived or deleted.
+const RULE_DEPENDENT_KEYS = [queryKeys.categoryRules.all, queryKeys.categoryUsage.all];
+
+// The user's rules in the order they are applied.
+export function useCategoryRules() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.categoryRules.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat aturan kategori" },
+    queryFn: async (): Promise<CategoryRule[]> => {
+      const { data, error } = await supabase
+        .from("category_rules")
+        .select("*, categories(name, type)")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return sortRules(data as CategoryRule[]);
+    },
+  });
+}
+
+// Fills the embedded category of an optimistic rule from the cache.
+function useCategoryFromCache() {
+  const queryClient = useQueryClient();
+
+  return (categoryId: string): CategoryRule["categories"] => {
+    const category = queryClient.getQueriesData<Tables<"categories">[]>({ queryKey: queryKeys.categories.all })
+      .flatMap(([, data]) => data || [])
+      .find((c) => c.id === categoryId);
+    return category ? { name: category.name, type: category.type } : null;
+  };
+}
+
+export function useCreateCategoryRule() {
+  const categoryOf = useCategoryFromCache();
+
+  return useOptimisticMutation({
+    mutationFn: async (rule: TablesInsert<"category_rules">) => {
+      const { error } = await supabase.from("category_rules").insert(rule);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categoryRules.all,
+    update: (rules: CategoryRule[], rule) =>
+      sortRules([
+        ...rules,
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          priority: 0,
+          description_pattern: null,
+          min_amount: null,
+          max_amount: null,
+          account_id: null,
+          transaction_type: null,
+          rewrite_description: null,
+          is_active: true,
+          ...rule,
+          match_mode: (rule.match_mode ?? "contains") as RuleMatchMode,
+          categories: categoryOf(rule.category_id),
+        },
+      ]),
+    invalidates: RULE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan aturan",
+  });
+}
+
+export function useUpdateCategoryRule() {
+  const categoryOf = useCategoryFromCache();
+
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"category_rules"> }) => {
+      const { error } = await supabase.from("category_rules").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categoryRules.all,
+    update: (rules: CategoryRule[], { id, changes }) =>
+      sortRules(
+        rules.map((rule) =>
+          rule.id === id
+            ? {
+                ...rule,
+                ...changes,
+                match_mode: (changes.match_mode ?? rule.match_mode) as RuleMatchMode,
+                categories: changes.category_id ? categoryOf(changes.category_id) : rule.categories,
+              }
+            : rule
+        )
+      ),
+    invalidates: RULE_DEPENDENT_KEYS,
+    errorMessage: "Gagal memperbarui aturan",
+  });
+}
+
+export function useDeleteCategoryRule() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("category_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.categoryRules.all,
+    update: (rules: CategoryRule[], id) => rules.filter((rule) => rule.id !== id),
+    invalidates: RULE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus aturan",
+  });
+}
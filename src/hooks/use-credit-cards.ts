@@ -0,0 +1,78 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  buildStatements,
+  CardTransaction,
+  computeCreditCardStatus,
+  CreditCardStatus,
+  previousStatementPeriod,
+  Statement,
+  statementPeriodFor,
+} from "@/lib/credit-cards";
+import { BankAccount, useBankAccounts } from "@/hooks/use-bank-accounts";
+
+export interface CreditCardOverview {
+  account: BankAccount;
+  status: CreditCardStatus;
+  // Newest first, starting with the open period.
+  statements: Statement[];
+}
+
+// Loads the credit card accounts with the transactions of their last `periods`
+// statement periods (at least two, the open and the last closed one), and
+// works out their statements and payment status.
+export function useCreditCards(periods = 2) {
+  const { user } = useAuth();
+  const { data: accounts = [], isLoading: accountsLoading } = useBankAccounts();
+  const cards = accounts.filter((account) => account.account_type === "credit_card");
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const since = cards.reduce<string | null>((earliest, card) => {
+    let period = statementPeriodFor(card, today);
+    for (let i = 1; i < Math.max(periods, 2); i++) period = previousStatementPeriod(card, period);
+    return earliest && earliest < period.start ? earliest : period.start;
+  }, null);
+  const cardIds = cards.map((card) => card.id).join(",");
+
+  const { data: transactions, isLoading } = useQuery({
+    queryKey: queryKeys.creditCards.transactions(user?.id ?? "", since ?? ""),
+    enabled: !!user && !!since,
+    meta: { errorMessage: "Gagal memuat transaksi kartu kredit" },
+    // Everything since the oldest period, including later-dated entries, as
+    // the balance at each closing is worked back from the current balance.
+    queryFn: async (): Promise<CardTransaction[]> => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, description, transaction_date, type, amount, fee, account_id, to_account_id, to_amount")
+        .eq("user_id", user!.id)
+        .gte("transaction_date", since!)
+        .or(`account_id.in.(${cardIds}),to_account_id.in.(${cardIds})`);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const overviews = useMemo(
+    (): CreditCardOverview[] =>
+      transactions
+        ? accounts
+            .filter((account) => account.account_type === "credit_card")
+            .map((account) => {
+              const own = transactions.filter((t) => t.account_id === account.id || t.to_account_id === account.id);
+              return {
+                account,
+                status: computeCreditCardStatus(account, own, today),
+                statements: buildStatements(account, own, today, Math.max(periods, 2)),
+              };
+            })
+        : [],
+    [accounts, transactions, today, periods]
+  );
+
+  return { cards: overviews, isLoading: accountsLoading || (!!since && isLoading) };
+}
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { queryKeys } from "@/lib/query-keys";
+import { Money, toMoney } from "@/lib/utils";
+
+// All totals are in the base currency.
+export interface DashboardSummary {
+  totalIncome: Money;
+  totalExpense: Money;
+  totalBankBalance: Money;
+  totalAssets: Money;
+  totalLiabilities: Money;
+  netWorth: Money;
+  // Change since the end of last month; null before there is a last month.
+  netWorthChange: Money | null;
+}
+
+async function fetchDashboardSummary(baseCurrency: string): Promise<DashboardSummary> {
+  const today = new Date();
+  const [cashFlow, netWorth] = await Promise.all([
+    supabase.rpc("monthly_cash_flow", {
+      from_date: format(startOfMonth(today), "yyyy-MM-dd"),
+      to_date: format(endOfMonth(today), "yyyy-MM-dd"),
+      base_currency: baseCurrency,
+    }),
+    supabase.rpc("net_worth_history", { months: 2, base_currency: baseCurrency }),
+  ]);
+
+  if (cashFlow.error) throw cashFlow.error;
+  if (netWorth.error) throw netWorth.error;
+
+  const month = cashFlow.data[0];
+  // The last row is the current month, preceded by last month's snapshot if any.
+  const totals = netWorth.data[netWorth.data.length - 1];
+  const previous = netWorth.data.length > 1 ? netWorth.data[netWorth.data.length - 2] : undefined;
+  const currentNetWorth = toMoney(totals?.net_worth, baseCurrency);
+
+  return {
+    totalIncome: toMoney(month?.income, baseCurrency),
+    totalExpense: toMoney(month?.expense, baseCurrency),
+    totalBankBalance: toMoney(totals?.bank_balance, baseCurrency),
+    totalAssets: toMoney(totals?.asset_value, baseCurrency),
+    totalLiabilities: toMoney(totals?.liability_value, baseCurrency),
+    netWorth: currentNetWorth,
+    netWorthChange: previous ? currentNetWorth - toMoney(previous.net_worth, baseCurrency) : null,
+  };
+}
+
+// Month-to-date totals shown on the dashboard. Invalidated by every mutation
+// of transactions, bank accounts and assets.
+export function useDashboardSummary() {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+
+  return useQuery({
+    queryKey: queryKeys.dashboard.summary(user?.id ?? "", baseCurrency),
+    enabled: !!user,
+    meta: { errorMessage: "Failed to load your financial overview" },
+    queryFn: () => fetchDashboardSummary(baseCurrency),
+  });
+}
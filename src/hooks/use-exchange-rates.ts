@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type ExchangeRate = Tables<"exchange_rates">;
+
+// Rates change every converted total on the dashboard and in the reports.
+const RATE_DEPENDENT_KEYS = [queryKeys.exchangeRates.all, queryKeys.reports.all, queryKeys.dashboard.all];
+
+const byDateDesc = (a: ExchangeRate, b: ExchangeRate) =>
+  b.rate_date.localeCompare(a.rate_date) || a.from_currency.localeCompare(b.from_currency);
+
+// All rates of the user, newest first.
+export function useExchangeRates() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.exchangeRates.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat kurs" },
+    queryFn: async (): Promise<ExchangeRate[]> => {
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("rate_date", { ascending: false })
+        .order("from_currency");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateExchangeRate() {
+  return useOptimisticMutation({
+    mutationFn: async (rate: TablesInsert<"exchange_rates">) => {
+      const { error } = await supabase.from("exchange_rates").insert(rate);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.exchangeRates.all,
+    update: (rates: ExchangeRate[], rate) =>
+      [...rates, { id: optimisticId(), created_at: new Date().toISOString(), ...rate }].sort(byDateDesc),
+    invalidates: RATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan kurs",
+  });
+}
+
+export function useUpdateExchangeRate() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"exchange_rates"> }) => {
+      const { error } = await supabase.from("exchange_rates").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.exchangeRates.all,
+    update: (rates: ExchangeRate[], { id, changes }) =>
+      rates.map((rate) => (rate.id === id ? { ...rate, ...changes } : rate)).sort(byDateDesc),
+    invalidates: RATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan kurs",
+  });
+}
+
+export function useDeleteExchangeRate() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.exchangeRates.all,
+    update: (rates: ExchangeRate[], id) => rates.filter((rate) => rate.id !== id),
+    invalidates: RATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus kurs",
+  });
+}
+
+// Imported rates replace the ones already recorded for the same pair and date.
+export function useImportExchangeRates() {
+  return useOptimisticMutation({
+    mutationFn: async (rates: TablesInsert<"exchange_rates">[]) => {
+      const { error } = await supabase
+        .from("exchange_rates")
+        .upsert(rates, { onConflict: "user_id,from_currency,to_currency,rate_date" });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.exchangeRates.all,
+    update: (current: ExchangeRate[], rates) => {
+      const keyOf = (rate: Pick<ExchangeRate, "from_currency" | "to_currency" | "rate_date">) =>
+        `${rate.rate_date}|${rate.from_currency}|${rate.to_currency}`;
+      const imported = new Set(rates.map(keyOf));
+      return [
+        ...current.filter((rate) => !imported.has(keyOf(rate))),
+        ...rates.map((rate) => ({ id: optimisticId(), created_at: new Date().toISOString(), ...rate })),
+      ].sort(byDateDesc);
+    },
+    invalidates: RATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal mengimpor kurs",
+  });
+}
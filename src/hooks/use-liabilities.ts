@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type Liability = Tables<"liabilities">;
+
+export type LiabilityPayment = Pick<
+  Tables<"transactions">,
+  "id" | "liability_id" | "description" | "amount" | "principal_amount" | "interest_amount" | "transaction_date"
+>;
+
+// Outstanding loans count as liabilities in the net worth.
+const LIABILITY_DEPENDENT_KEYS = [queryKeys.liabilities.all, queryKeys.reports.all, queryKeys.dashboard.all];
+
+const byStartDate = (a: Liability, b: Liability) => a.start_date.localeCompare(b.start_date);
+
+export function useLiabilities() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.liabilities.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat data kewajiban" },
+    queryFn: async (): Promise<Liability[]> => {
+      const { data, error } = await supabase
+        .from("liabilities")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("start_date");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Every installment recorded against a liability, oldest first.
+export function useLiabilityPayments() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.liabilities.payments(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat pembayaran cicilan" },
+    queryFn: async (): Promise<LiabilityPayment[]> => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, liability_id, description, amount, principal_amount, interest_amount, transaction_date")
+        .eq("user_id", user!.id)
+        .not("liability_id", "is", null)
+        .order("transaction_date");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCreateLiability() {
+  return useOptimisticMutation({
+    mutationFn: async (liability: TablesInsert<"liabilities">) => {
+      const { error } = await supabase.from("liabilities").insert(liability);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.liabilities.all,
+    update: (liabilities: Liability[], liability, cachedKey) =>
+      cachedKey[2] === "list"
+        ? [
+            ...liabilities,
+            {
+              id: optimisticId(),
+              created_at: new Date().toISOString(),
+              type: "other",
+              interest_rate: 0,
+              interest_method: "annuity",
+              currency: DEFAULT_CURRENCY,
+              account_id: null,
+              ...liability,
+            },
+          ].sort(byStartDate)
+        : liabilities,
+    invalidates: LIABILITY_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan kewajiban",
+  });
+}
+
+export function useUpdateLiability() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"liabilities"> }) => {
+      const { error } = await supabase.from("liabilities").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.liabilities.all,
+    update: (liabilities: Liability[], { id, changes }, cachedKey) =>
+      cachedKey[2] === "list"
+        ? liabilities.map((l) => (l.id === id ? { ...l, ...changes } : l)).sort(byStartDate)
+        : liabilities,
+    invalidates: LIABILITY_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan kewajiban",
+  });
+}
+
+// Recorded installments stay as expenses but lose their link.
+export function useDeleteLiability() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("liabilities").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.liabilities.all,
+    update: (liabilities: Liability[], id, cachedKey) =>
+      cachedKey[2] === "list" ? liabilities.filter((l) => l.id !== id) : liabilities,
+    invalidates: [...LIABILITY_DEPENDENT_KEYS, queryKeys.transactions.all],
+    errorMessage: "Gagal menghapus kewajiban",
+  });
+}
@@ -0,0 +1,48 @@
+import { QueryKey, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+interface OptimisticMutationOptions<TData, TVariables, TCache> {
+  mutationFn: (variables: TVariables) => Promise<TData>;
+  // Every cached query under this key is patched with `update` right away.
+  queryKey: QueryKey;
+  update: (cached: TCache, variables: TVariables, cachedKey: QueryKey) => TCache;
+  // Refetched once the mutation settles, whether it succeeded or not.
+  invalidates: QueryKey[];
+  errorMessage: string;
+}
+
+/**
+ * Mutation that applies its result to the cache before the server answers,
+ * rolls back and shows an error toast when the request fails, and refetches
+ * the affected queries afterwards.
+ */
+export function useOptimisticMutation<TData, TVariables, TCache>({
+  mutationFn,
+  queryKey,
+  update,
+  invalidates,
+  errorMessage,
+}: OptimisticMutationOptions<TData, TVariables, TCache>) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await queryClient.cancelQueries({ queryKey });
+      const snapshot = queryClient.getQueriesData<TCache>({ queryKey });
+      snapshot.forEach(([cachedKey, cached]) => {
+        if (cached !== undefined) queryClient.setQueryData(cachedKey, update(cached, variables, cachedKey));
+      });
+      return { snapshot };
+    },
+    onError: (error, _variables, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      toast.error(error.message || errorMessage);
+    },
+    onSettled: () =>
+      Promise.all(invalidates.map((key) => queryClient.invalidateQueries({ queryKey: key }))),
+  });
+}
+
+// Temporary id for rows created optimistically, replaced on the next refetch.
+export const optimisticId = () => `optimistic-${Date.now()}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,253 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { DebtDirection, disbursementType } from "@/lib/personal-debts";
+import { SplitMethod } from "@/lib/transaction-splits";
+import type { TransactionPage } from "@/hooks/use-transactions";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type Counterparty = Tables<"counterparties">;
+
+export type PersonalDebt = Tables<"personal_debts"> & {
+  counterparties: Pick<Tables<"counterparties">, "name"> | null;
+};
+
+export type PersonalDebtTransaction = Pick<
+  Tables<"transactions">,
+  "id" | "personal_debt_id" | "type" | "amount" | "transaction_date" | "description" | "account_id"
+>;
+
+// Outstanding debts count towards the net worth, and their transactions are
+// left out of the reports.
+const DEBT_DEPENDENT_KEYS = [
+  queryKeys.personalDebts.all,
+  queryKeys.transactions.all,
+  queryKeys.bankAccounts.all,
+  queryKeys.budgets.all,
+  queryKeys.reports.all,
+  queryKeys.dashboard.all,
+];
+
+export function useCounterparties() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.personalDebts.counterparties(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat daftar orang" },
+    queryFn: async (): Promise<Counterparty[]> => {
+      const { data, error } = await supabase
+        .from("counterparties")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function usePersonalDebts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.personalDebts.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat hutang piutang" },
+    queryFn: async (): Promise<PersonalDebt[]> => {
+      const { data, error } = await supabase
+        .from("personal_debts")
+        .select("*, counterparties(name)")
+        .eq("user_id", user!.id)
+        .order("debt_date", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Every transaction linked to a debt, oldest first: the hand-overs and the
+// repayments.
+export function usePersonalDebtTransactions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.personalDebts.transactions(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat pembayaran hutang piutang" },
+    queryFn: async (): Promise<PersonalDebtTransaction[]> => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, personal_debt_id, type, amount, transaction_date, description, account_id")
+        .eq("user_id", user!.id)
+        .not("personal_debt_id", "is", null)
+        .order("transaction_date");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export interface NewPersonalDebt {
+  debt: Omit<TablesInsert<"personal_debts">, "counterparty_id">;
+  // An existing person, or the name of a new one.
+  counterpartyId: string | null;
+  counterpartyName: string;
+  // Records the hand-over as a transaction on this account.
+  accountId: string | null;
+}
+
+export function useCreatePersonalDebt() {
+  return useOptimisticMutation({
+    mutationFn: async ({ debt, counterpartyId, counterpartyName, accountId }: NewPersonalDebt) => {
+      let counterparty_id = counterpartyId;
+      if (!counterparty_id) {
+        const { data, error } = await supabase
+          .from("counterparties")
+          .upsert({ user_id: debt.user_id, name: counterpartyName }, { onConflict: "user_id,name" })
+          .select("id")
+          .single();
+        if (error) throw error;
+        counterparty_id = data.id;
+      }
+
+      const { data: created, error } = await supabase
+        .from("personal_debts")
+        .insert({ ...debt, counterparty_id })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      if (accountId) {
+        const direction = debt.direction as DebtDirection;
+        const { error: transactionError } = await supabase.from("transactions").insert({
+          user_id: debt.user_id,
+          description: debt.description || `${direction === "lent" ? "Pinjaman ke" : "Pinjaman dari"} ${counterpartyName}`,
+          amount: debt.amount,
+          transaction_date: debt.debt_date,
+          type: disbursementType(direction),
+          account_id: accountId,
+          personal_debt_id: created.id,
+        });
+        if (transactionError) throw transactionError;
+      }
+    },
+    queryKey: queryKeys.personalDebts.all,
+    update: (debts: PersonalDebt[], { debt, counterpartyId, counterpartyName }, cachedKey) =>
+      cachedKey[2] === "list"
+        ? [
+            {
+              id: optimisticId(),
+              created_at: new Date().toISOString(),
+              currency: DEFAULT_CURRENCY,
+              debt_date: format(new Date(), "yyyy-MM-dd"),
+              due_date: null,
+              description: null,
+              split_transaction_id: null,
+              ...debt,
+              counterparty_id: counterpartyId ?? optimisticId(),
+              counterparties: { name: counterpartyName },
+            },
+            ...debts,
+          ]
+        : debts,
+    invalidates: DEBT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan hutang piutang",
+  });
+}
+
+export function useUpdatePersonalDebt() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"personal_debts"> }) => {
+      const { error } = await supabase.from("personal_debts").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.personalDebts.all,
+    update: (debts: PersonalDebt[], { id, changes }, cachedKey) =>
+      cachedKey[2] === "list" ? debts.map((d) => (d.id === id ? { ...d, ...changes } : d)) : debts,
+    invalidates: DEBT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan hutang piutang",
+  });
+}
+
+// Linked transactions stay but count as plain income and expense again.
+export function useDeletePersonalDebt() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("personal_debts").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.personalDebts.all,
+    update: (debts: PersonalDebt[], id, cachedKey) =>
+      cachedKey[2] === "list" ? debts.filter((d) => d.id !== id) : debts,
+    invalidates: DEBT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus hutang piutang",
+  });
+}
+
+export interface TransactionShare {
+  // An existing person, or the name of a new one.
+  counterpartyId: string | null;
+  counterpartyName: string;
+  amount: number;
+}
+
+// Replaces the shares of other people in an expense; no shares removes the
+// split. Each share is money lent to that person.
+export function useSetTransactionSplits() {
+  return useOptimisticMutation({
+    mutationFn: async ({ transaction, method, shares }: {
+      transaction: Pick<Tables<"transactions">, "id" | "user_id">;
+      method: SplitMethod;
+      shares: TransactionShare[];
+    }) => {
+      const newNames = shares.filter((share) => !share.counterpartyId).map((share) => share.counterpartyName);
+      const created = new Map<string, string>();
+      if (newNames.length > 0) {
+        const { data, error } = await supabase
+          .from("counterparties")
+          .upsert(newNames.map((name) => ({ user_id: transaction.user_id, name })), { onConflict: "user_id,name" })
+          .select("id, name");
+        if (error) throw error;
+        data.forEach((counterparty) => created.set(counterparty.name, counterparty.id));
+      }
+
+      const { error } = await supabase.rpc("set_transaction_splits", {
+        p_transaction_id: transaction.id,
+        p_method: method,
+        p_shares: shares.map((share) => ({
+          counterparty_id: share.counterpartyId ?? created.get(share.counterpartyName),
+          amount: share.amount,
+        })),
+      });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.transactions.all,
+    update: (page: TransactionPage, { transaction, method, shares }) => ({
+      ...page,
+      rows: page.rows.map((row) =>
+        row.id === transaction.id
+          ? {
+              ...row,
+              split_method: shares.length > 0 ? method : null,
+              splits: shares.map((share) => ({
+                id: optimisticId(),
+                counterparty_id: share.counterpartyId ?? optimisticId(),
+                amount: share.amount,
+                counterparties: { name: share.counterpartyName },
+              })),
+            }
+          : row
+      ),
+    }),
+    invalidates: DEBT_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan pembagian transaksi",
+  });
+}
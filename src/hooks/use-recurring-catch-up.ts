@@ -0,0 +1,141 @@
+import { useEffect } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { invalidateTransactionData } from "@/hooks/use-transactions";
+import { queryKeys } from "@/lib/query-keys";
+import { listOccurrences, RecurrenceRule } from "@/lib/recurrence";
+import { TransactionType } from "@/lib/transactions";
+
+interface RecurringTemplate extends RecurrenceRule {
+  id: string;
+  description: string;
+  amount: number;
+  type: TransactionType;
+  category_id: string | null;
+  account_id: string;
+  to_account_id: string | null;
+  fee: number;
+  materialized_through: string | null;
+}
+
+interface RecurringException {
+  recurring_transaction_id: string;
+  occurrence_date: string;
+  action: "skip" | "modify";
+  amount: number | null;
+  description: string | null;
+  transaction_date: string | null;
+}
+
+/**
+ * Turns every due occurrence of the user's active recurring templates into a
+ * transaction, including occurrences missed while the app was not opened.
+ * Returns the number of transactions created.
+ */
+export async function materializeDueRecurringTransactions(userId: string): Promise<number> {
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: templates, error } = await supabase
+    .from("recurring_transactions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .lte("start_date", today);
+
+  if (error) throw error;
+  if (!templates || templates.length === 0) return 0;
+
+  const { data: exceptions, error: exceptionsError } = await supabase
+    .from("recurring_transaction_exceptions")
+    .select("recurring_transaction_id, occurrence_date, action, amount, description, transaction_date")
+    .eq("user_id", userId)
+    .lte("occurrence_date", today);
+
+  if (exceptionsError) throw exceptionsError;
+
+  let created = 0;
+
+  for (const template of templates as RecurringTemplate[]) {
+    const from = template.materialized_through
+      ? format(addDays(parseISO(template.materialized_through), 1), "yyyy-MM-dd")
+      : template.start_date;
+    if (from > today) continue;
+
+    const rows = listOccurrences(template, from, today).flatMap((occurrenceDate) => {
+      const exception = (exceptions as RecurringException[]).find(
+        (e) => e.recurring_transaction_id === template.id && e.occurrence_date === occurrenceDate
+      );
+      if (exception?.action === "skip") return [];
+
+      return [{
+        user_id: userId,
+        description: exception?.description || template.description,
+        amount: exception?.amount ?? template.amount,
+        transaction_date: exception?.transaction_date || occurrenceDate,
+        type: template.type,
+        category_id: template.type === "transfer" ? null : template.category_id,
+        account_id: template.account_id,
+        to_account_id: template.to_account_id,
+        fee: template.fee,
+        recurring_transaction_id: template.id,
+        recurring_occurrence_date: occurrenceDate,
+      }];
+    });
+
+    if (rows.length > 0) {
+      // Occurrences that already exist (e.g. materialized from another tab) are ignored.
+      const { data: inserted, error: insertError } = await supabase
+        .from("transactions")
+        .upsert(rows, {
+          onConflict: "recurring_transaction_id,recurring_occurrence_date",
+          ignoreDuplicates: true,
+        })
+        .select("id");
+
+      if (insertError) throw insertError;
+      created += inserted?.length || 0;
+    }
+
+    const { error: updateError } = await supabase
+      .from("recurring_transactions")
+      .update({ materialized_through: today })
+      .eq("id", template.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+}
+
+// Catch-up runs once per user and day for the lifetime of the page.
+let lastCatchUp: string | null = null;
+
+export function useRecurringCatchUp() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const key = `${user.id}:${format(new Date(), "yyyy-MM-dd")}`;
+    if (lastCatchUp === key) return;
+    lastCatchUp = key;
+
+    materializeDueRecurringTransactions(user.id)
+      .then((count) => {
+        // Every template that fell due moved its materialized_through.
+        queryClient.invalidateQueries({ queryKey: queryKeys.recurring.all });
+        if (count > 0) {
+          toast.success(`${count} transaksi berulang telah dicatat otomatis`);
+          invalidateTransactionData(queryClient);
+        }
+      })
+      .catch((error) => {
+        console.error("Error materializing recurring transactions:", error);
+        lastCatchUp = null;
+      });
+  }, [user, queryClient]);
+}
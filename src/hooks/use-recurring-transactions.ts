@@ -0,0 +1,196 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { RecurrenceFrequency } from "@/lib/recurrence";
+import { TransactionType } from "@/lib/transactions";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+import { materializeDueRecurringTransactions } from "@/hooks/use-recurring-catch-up";
+import { invalidateTransactionData } from "@/hooks/use-transactions";
+
+// The check constraints on type and frequency are narrowed to their unions.
+export type RecurringTransaction = Omit<Tables<"recurring_transactions">, "type" | "frequency"> & {
+  type: TransactionType;
+  frequency: RecurrenceFrequency;
+};
+
+export type RecurringException = Tables<"recurring_transaction_exceptions">;
+
+export interface RecurringSchedule {
+  templates: RecurringTransaction[];
+  exceptions: RecurringException[];
+}
+
+// Templates count as uses of their category when it is archived or deleted.
+const TEMPLATE_DEPENDENT_KEYS = [queryKeys.recurring.all, queryKeys.categoryUsage.all];
+
+const byStartDate = (a: RecurringTransaction, b: RecurringTransaction) => a.start_date.localeCompare(b.start_date);
+
+// The user's recurring templates, oldest first, with their skipped and
+// modified occurrences.
+export function useRecurringTransactions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.recurring.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat transaksi berulang" },
+    queryFn: async (): Promise<RecurringSchedule> => {
+      const [templates, exceptions] = await Promise.all([
+        supabase
+          .from("recurring_transactions")
+          .select("*")
+          .eq("user_id", user!.id)
+          .order("start_date", { ascending: true }),
+        supabase
+          .from("recurring_transaction_exceptions")
+          .select("*")
+          .eq("user_id", user!.id),
+      ]);
+
+      if (templates.error) throw templates.error;
+      if (exceptions.error) throw exceptions.error;
+      return { templates: templates.data as RecurringTransaction[], exceptions: exceptions.data };
+    },
+  });
+}
+
+// Books the occurrences a new or changed template has already fallen due on.
+function useMaterializeDue() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return async () => {
+    const created = await materializeDueRecurringTransactions(user!.id);
+    if (created > 0) {
+      invalidateTransactionData(queryClient);
+    }
+  };
+}
+
+export function useCreateRecurringTransaction() {
+  const materializeDue = useMaterializeDue();
+
+  return useOptimisticMutation({
+    mutationFn: async (template: TablesInsert<"recurring_transactions">) => {
+      const { error } = await supabase.from("recurring_transactions").insert(template);
+      if (error) throw error;
+      await materializeDue();
+    },
+    queryKey: queryKeys.recurring.all,
+    update: (schedule: RecurringSchedule, template) => ({
+      ...schedule,
+      templates: [
+        ...schedule.templates,
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          category_id: null,
+          to_account_id: null,
+          fee: 0,
+          interval: 1,
+          weekday: null,
+          week_of_month: null,
+          end_date: null,
+          occurrence_limit: null,
+          materialized_through: null,
+          is_active: true,
+          ...template,
+          type: template.type as TransactionType,
+          frequency: template.frequency as RecurrenceFrequency,
+        },
+      ].sort(byStartDate),
+    }),
+    invalidates: TEMPLATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan transaksi berulang",
+  });
+}
+
+// Occurrences already booked stay as they are; only future ones follow the
+// new schedule.
+export function useUpdateRecurringTransaction() {
+  const materializeDue = useMaterializeDue();
+
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"recurring_transactions"> }) => {
+      const { error } = await supabase.from("recurring_transactions").update(changes).eq("id", id);
+      if (error) throw error;
+      await materializeDue();
+    },
+    queryKey: queryKeys.recurring.all,
+    update: (schedule: RecurringSchedule, { id, changes }) => ({
+      ...schedule,
+      templates: schedule.templates
+        .map((template) => (template.id === id ? ({ ...template, ...changes } as RecurringTransaction) : template))
+        .sort(byStartDate),
+    }),
+    invalidates: TEMPLATE_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan transaksi berulang",
+  });
+}
+
+// Booked transactions are kept but lose their link to the template.
+export function useDeleteRecurringTransaction() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("recurring_transactions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.recurring.all,
+    update: (schedule: RecurringSchedule, id) => ({
+      templates: schedule.templates.filter((template) => template.id !== id),
+      exceptions: schedule.exceptions.filter((exception) => exception.recurring_transaction_id !== id),
+    }),
+    invalidates: [...TEMPLATE_DEPENDENT_KEYS, queryKeys.transactions.all],
+    errorMessage: "Gagal menghapus transaksi berulang",
+  });
+}
+
+const isSameOccurrence = (a: RecurringException, b: TablesInsert<"recurring_transaction_exceptions">) =>
+  a.recurring_transaction_id === b.recurring_transaction_id && a.occurrence_date === b.occurrence_date;
+
+// Skips or modifies one occurrence, replacing what was set for it before.
+export function useSaveRecurringException() {
+  return useOptimisticMutation({
+    mutationFn: async (exception: TablesInsert<"recurring_transaction_exceptions">) => {
+      const { error } = await supabase
+        .from("recurring_transaction_exceptions")
+        .upsert(exception, { onConflict: "recurring_transaction_id,occurrence_date" });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.recurring.all,
+    update: (schedule: RecurringSchedule, exception) => ({
+      ...schedule,
+      exceptions: [
+        ...schedule.exceptions.filter((e) => !isSameOccurrence(e, exception)),
+        {
+          id: optimisticId(),
+          created_at: new Date().toISOString(),
+          amount: null,
+          description: null,
+          transaction_date: null,
+          ...exception,
+        },
+      ],
+    }),
+    invalidates: [queryKeys.recurring.all],
+    errorMessage: "Gagal menyimpan jadwal",
+  });
+}
+
+export function useDeleteRecurringException() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("recurring_transaction_exceptions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.recurring.all,
+    update: (schedule: RecurringSchedule, id) => ({
+      ...schedule,
+      exceptions: schedule.exceptions.filter((exception) => exception.id !== id),
+    }),
+    invalidates: [queryKeys.recurring.all],
+    errorMessage: "Gagal mengembalikan jadwal",
+  });
+}
@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { queryKeys } from "@/lib/query-keys";
+
+export interface MonthlyCashFlow {
+  // First day of the month, yyyy-MM-dd.
+  month: string;
+  income: number;
+  expense: number;
+}
+
+export interface NetWorthPoint {
+  // First day of the month, yyyy-MM-dd; the values are as of its last day.
+  month: string;
+  bankBalance: number;
+  assetValue: number;
+  liabilityValue: number;
+  netWorth: number;
+}
+
+export interface CategoryAmount {
+  category_id: string | null;
+  amount: number;
+}
+
+// Income and expense per month between two yyyy-MM-dd dates, empty months
+// included, converted into the base currency.
+export function useMonthlyCashFlow(from: string, to: string) {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+
+  return useQuery({
+    queryKey: queryKeys.reports.cashFlow(user?.id ?? "", from, to, baseCurrency),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat laporan arus kas" },
+    queryFn: async (): Promise<MonthlyCashFlow[]> => {
+      const { data, error } = await supabase.rpc("monthly_cash_flow", {
+        from_date: from,
+        to_date: to,
+        base_currency: baseCurrency,
+      });
+      if (error) throw error;
+      return data.map((row) => ({ month: row.month, income: Number(row.income), expense: Number(row.expense) }));
+    },
+  });
+}
+
+// Totals per category as booked, in the base currency and in the shape
+// `sumByCategory` rolls up. Transactions with category lines count towards
+// the category of each line.
+export function useCategoryTotals(from: string, to: string, type: "income" | "expense" = "expense") {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+
+  return useQuery({
+    queryKey: queryKeys.reports.categoryTotals(user?.id ?? "", from, to, type, baseCurrency),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat rincian kategori" },
+    queryFn: async (): Promise<CategoryAmount[]> => {
+      const { data, error } = await supabase.rpc("category_totals", {
+        from_date: from,
+        to_date: to,
+        category_type: type,
+        base_currency: baseCurrency,
+      });
+      if (error) throw error;
+      return data.map((row) => ({ category_id: row.category_id, amount: Number(row.total) }));
+    },
+  });
+}
+
+// Net worth at the end of each of the last `months` months in the base
+// currency. Closed months come from stored snapshots, which the call records
+// when missing and keeps up to date for last month; the current month is live.
+export function useNetWorthHistory(months: number) {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+
+  return useQuery({
+    queryKey: queryKeys.reports.netWorth(user?.id ?? "", months, baseCurrency),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat riwayat kekayaan bersih" },
+    queryFn: async (): Promise<NetWorthPoint[]> => {
+      const { data, error } = await supabase.rpc("net_worth_history", { months, base_currency: baseCurrency });
+      if (error) throw error;
+      return data.map((row) => ({
+        month: row.month,
+        bankBalance: Number(row.bank_balance),
+        assetValue: Number(row.asset_value),
+        liabilityValue: Number(row.liability_value),
+        netWorth: Number(row.net_worth),
+      }));
+    },
+  });
+}
+
+// Drops the stored net worth snapshots so every closed month is recomputed,
+// e.g. after recording entries from long ago.
+export function useRecalculateNetWorth() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("net_worth_snapshots").delete().eq("user_id", user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.reports.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all }),
+      ]),
+    meta: { errorMessage: "Gagal menghitung ulang kekayaan bersih" },
+  });
+}
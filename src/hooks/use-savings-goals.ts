@@ -0,0 +1,198 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type SavingsGoal = Tables<"savings_goals">;
+export type GoalContribution = Tables<"goal_contributions">;
+
+export type ContributionCandidate = Pick<
+  Tables<"transactions">,
+  "id" | "description" | "transaction_date" | "type" | "amount" | "to_amount" | "account_id" | "to_account_id"
+> & {
+  // What arrived: the received amount of a transfer, the amount of anything
+  // else. Linking converts it into the currency of the goal.
+  received: number;
+  received_currency: string;
+};
+
+// Days of transactions offered for linking to a goal.
+const CANDIDATE_DAYS = 90;
+
+const byTargetDate = (a: SavingsGoal, b: SavingsGoal) =>
+  (a.target_date ?? "9999-12-31").localeCompare(b.target_date ?? "9999-12-31") || a.name.localeCompare(b.name);
+
+export function useSavingsGoals() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.savingsGoals.list(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat target tabungan" },
+    queryFn: async (): Promise<SavingsGoal[]> => {
+      const { data, error } = await supabase
+        .from("savings_goals")
+        .select("*")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return data.sort(byTargetDate);
+    },
+  });
+}
+
+// Every contribution towards any goal, newest first.
+export function useGoalContributions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.savingsGoals.contributions(user?.id ?? ""),
+    enabled: !!user,
+    meta: { errorMessage: "Gagal memuat setoran tabungan" },
+    queryFn: async (): Promise<GoalContribution[]> => {
+      const { data, error } = await supabase
+        .from("goal_contributions")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("contributed_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Recent income and transfers that could have funded a goal: those into its
+// account when it has one. Transactions already linked to a goal are left out.
+export function useContributionCandidates(goal: SavingsGoal | null) {
+  const { user } = useAuth();
+  const accountId = goal?.account_id ?? null;
+
+  return useQuery({
+    queryKey: queryKeys.savingsGoals.candidates(user?.id ?? "", accountId ?? ""),
+    enabled: !!user && !!goal,
+    meta: { errorMessage: "Gagal memuat transaksi" },
+    queryFn: async (): Promise<ContributionCandidate[]> => {
+      let query = supabase
+        .from("transactions")
+        .select("id, description, transaction_date, type, amount, to_amount, account_id, to_account_id, currency, to_account:bank_accounts!transactions_to_account_id_fkey(currency), goal_contributions(id)")
+        .eq("user_id", user!.id)
+        .gte("transaction_date", format(subDays(new Date(), CANDIDATE_DAYS), "yyyy-MM-dd"))
+        .order("transaction_date", { ascending: false });
+      query = accountId
+        ? query.or(`and(type.eq.income,account_id.eq.${accountId}),and(type.eq.transfer,to_account_id.eq.${accountId})`)
+        : query.in("type", ["income", "transfer"]);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data
+        .filter((t) => !t.goal_contributions)
+        .map(({ goal_contributions: _linked, currency, to_account, ...transaction }) => ({
+          ...transaction,
+          received: transaction.type === "transfer" ? transaction.to_amount ?? transaction.amount : transaction.amount,
+          received_currency: transaction.type === "transfer" ? to_account?.currency ?? currency : currency,
+        }));
+    },
+  });
+}
+
+export function useCreateSavingsGoal() {
+  return useOptimisticMutation({
+    mutationFn: async (goal: TablesInsert<"savings_goals">) => {
+      const { error } = await supabase.from("savings_goals").insert(goal);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.savingsGoals.all,
+    update: (goals: SavingsGoal[], goal, cachedKey) =>
+      cachedKey[2] === "list"
+        ? [
+            ...goals,
+            {
+              id: optimisticId(),
+              created_at: new Date().toISOString(),
+              target_date: null,
+              currency: DEFAULT_CURRENCY,
+              account_id: null,
+              ...goal,
+            },
+          ].sort(byTargetDate)
+        : goals,
+    invalidates: [queryKeys.savingsGoals.all],
+    errorMessage: "Gagal menyimpan target tabungan",
+  });
+}
+
+export function useUpdateSavingsGoal() {
+  return useOptimisticMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: TablesUpdate<"savings_goals"> }) => {
+      const { error } = await supabase.from("savings_goals").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.savingsGoals.all,
+    update: (goals: SavingsGoal[], { id, changes }, cachedKey) =>
+      cachedKey[2] === "list" ? goals.map((g) => (g.id === id ? { ...g, ...changes } : g)).sort(byTargetDate) : goals,
+    invalidates: [queryKeys.savingsGoals.all],
+    errorMessage: "Gagal menyimpan target tabungan",
+  });
+}
+
+// Contributions go with the goal; linked transactions stay.
+export function useDeleteSavingsGoal() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("savings_goals").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.savingsGoals.all,
+    update: (goals: SavingsGoal[], id, cachedKey) =>
+      cachedKey[2] === "list" ? goals.filter((g) => g.id !== id) : goals,
+    invalidates: [queryKeys.savingsGoals.all],
+    errorMessage: "Gagal menghapus target tabungan",
+  });
+}
+
+// A contribution linked to a transaction gets its date and amount from the
+// transaction in the database.
+export function useCreateGoalContribution() {
+  return useOptimisticMutation({
+    mutationFn: async (contribution: TablesInsert<"goal_contributions">) => {
+      const { error } = await supabase.from("goal_contributions").insert(contribution);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.savingsGoals.all,
+    update: (cached: GoalContribution[], contribution, cachedKey) =>
+      cachedKey[2] === "contributions"
+        ? [
+            {
+              id: optimisticId(),
+              created_at: new Date().toISOString(),
+              contributed_at: format(new Date(), "yyyy-MM-dd"),
+              note: null,
+              transaction_id: null,
+              ...contribution,
+            },
+            ...cached,
+          ]
+        : cached,
+    invalidates: [queryKeys.savingsGoals.all],
+    errorMessage: "Gagal menyimpan setoran",
+  });
+}
+
+export function useDeleteGoalContribution() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("goal_contributions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.savingsGoals.all,
+    update: (cached: GoalContribution[], id, cachedKey) =>
+      cachedKey[2] === "contributions" ? cached.filter((c) => c.id !== id) : cached,
+    invalidates: [queryKeys.savingsGoals.all],
+    errorMessage: "Gagal menghapus setoran",
+  });
+}
@@ -0,0 +1,253 @@
+import { keepPreviousData, QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/query-keys";
+import { TRANSACTION_PAGE_SIZE, TransactionFilters } from "@/lib/transaction-filters";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { optimisticId, useOptimisticMutation } from "@/hooks/use-optimistic-mutation";
+
+export type TransactionWithRelations = Tables<"transactions"> & {
+  categories: Pick<Tables<"categories">, "name" | "icon" | "color"> | null;
+  account: Pick<Tables<"bank_accounts">, "bank_name"> | null;
+  to_account: Pick<Tables<"bank_accounts">, "bank_name" | "currency"> | null;
+  // Category lines when the transaction is broken down, e.g. a receipt.
+  lines: (Pick<Tables<"transaction_lines">, "id" | "category_id" | "amount" | "note"> & {
+    categories: Pick<Tables<"categories">, "name" | "icon" | "color"> | null;
+  })[];
+  // Shares of other people when the expense is split.
+  splits: (Pick<Tables<"personal_debts">, "id" | "counterparty_id" | "amount"> & {
+    counterparties: Pick<Tables<"counterparties">, "name"> | null;
+  })[];
+};
+
+// A category line to write along with its transaction.
+export type TransactionLineInput = Omit<TablesInsert<"transaction_lines">, "transaction_id">;
+
+export interface TransactionPage {
+  rows: TransactionWithRelations[];
+  // Number of transactions matching the filters across all pages.
+  count: number;
+}
+
+const TRANSACTION_SELECT =
+  "*, categories(name, icon, color), account:bank_accounts!transactions_account_id_fkey(bank_name), to_account:bank_accounts!transactions_to_account_id_fkey(bank_name, currency), lines:transaction_lines(id, category_id, amount, note, categories(name, icon, color)), splits:personal_debts!personal_debts_split_transaction_id_fkey(id, counterparty_id, amount, counterparties(name))";
+
+async function fetchTransactionPage(userId: string, filters: TransactionFilters): Promise<TransactionPage> {
+  let query = supabase
+    .from("transactions")
+    .select(TRANSACTION_SELECT, { count: "exact" })
+    .eq("user_id", userId);
+
+  if (filters.search) {
+    query = query.textSearch("description_search", filters.search, { type: "websearch", config: "simple" });
+  }
+  if (filters.from) query = query.gte("transaction_date", filters.from);
+  if (filters.to) query = query.lte("transaction_date", filters.to);
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.categoryId) {
+    // A parent category also matches the transactions of its subcategories,
+    // and a transaction matches the categories of its lines too.
+    const { data: children, error } = await supabase
+      .from("categories")
+      .select("id")
+      .eq("parent_id", filters.categoryId);
+    if (error) throw error;
+    query = query.overlaps("category_ids", [filters.categoryId, ...children.map((c) => c.id)]);
+  }
+  if (filters.accountId) {
+    query = query.or(`account_id.eq.${filters.accountId},to_account_id.eq.${filters.accountId}`);
+  }
+  if (filters.minAmount) query = query.gte("amount", filters.minAmount);
+  if (filters.maxAmount) query = query.lte("amount", filters.maxAmount);
+
+  const offset = (filters.page - 1) * TRANSACTION_PAGE_SIZE;
+  const { data, error, count } = await query
+    .order("transaction_date", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + TRANSACTION_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { rows: data as TransactionWithRelations[], count: count || 0 };
+}
+
+// One page of the transaction history; the previous page stays visible while
+// the next one loads.
+export function useTransactions(filters: TransactionFilters) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.transactions.list(user?.id ?? "", filters),
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+    meta: { errorMessage: "Gagal memuat transaksi" },
+    queryFn: () => fetchTransactionPage(user!.id, filters),
+  });
+}
+
+// Transactions move account balances, loan balances, budget spending, every
+// report and every total on the dashboard.
+const TRANSACTION_DEPENDENT_KEYS = [
+  queryKeys.transactions.all,
+  queryKeys.bankAccounts.all,
+  queryKeys.creditCards.all,
+  queryKeys.liabilities.all,
+  queryKeys.savingsGoals.all,
+  queryKeys.personalDebts.all,
+  queryKeys.budgets.all,
+  queryKeys.reports.all,
+  queryKeys.dashboard.all,
+];
+
+// For code that writes transactions without the mutation hooks below (imports,
+// recurring catch-up, bulk categorization).
+export function invalidateTransactionData(queryClient: QueryClient) {
+  TRANSACTION_DEPENDENT_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+}
+
+// Fills the embedded category and account names of an optimistic row and its
+// lines, and the currency the database copies from its account, from the cache.
+function useRelationsFromCache() {
+  const queryClient = useQueryClient();
+
+  return (transaction: Partial<Tables<"transactions">>, lines: TransactionLineInput[] = []) => {
+    const categories = queryClient.getQueriesData<Tables<"categories">[]>({ queryKey: queryKeys.categories.all })
+      .flatMap(([, data]) => data || []);
+    const accounts = queryClient.getQueriesData<Tables<"bank_accounts">[]>({ queryKey: queryKeys.bankAccounts.all })
+      .flatMap(([, data]) => data || []);
+    const categoryOf = (id: string | null | undefined) => {
+      const category = categories.find((c) => c.id === id);
+      return category ? { name: category.name, icon: category.icon, color: category.color } : null;
+    };
+    const account = accounts.find((a) => a.id === transaction.account_id);
+    const toAccount = accounts.find((a) => a.id === transaction.to_account_id);
+
+    return {
+      currency: account?.currency ?? DEFAULT_CURRENCY,
+      categories: categoryOf(transaction.category_id),
+      lines: lines.map((line) => ({
+        id: optimisticId(),
+        category_id: line.category_id,
+        amount: line.amount,
+        note: line.note ?? null,
+        categories: categoryOf(line.category_id),
+      })),
+      account: account ? { bank_name: account.bank_name } : null,
+      to_account: toAccount ? { bank_name: toAccount.bank_name, currency: toAccount.currency } : null,
+    };
+  };
+}
+
+// The lines as the transaction RPCs take them; the user comes from the transaction.
+const linesPayload = (lines: TransactionLineInput[]) =>
+  lines.map((line) => ({ category_id: line.category_id, amount: line.amount, note: line.note }));
+
+const isFirstPage = (key: readonly unknown[]) => (key[3] as TransactionFilters | undefined)?.page === 1;
+
+export function useCreateTransaction() {
+  const relationsOf = useRelationsFromCache();
+
+  return useOptimisticMutation({
+    mutationFn: async ({ lines = [], ...transaction }: TablesInsert<"transactions"> & { lines?: TransactionLineInput[] }) => {
+      if (lines.length === 0) {
+        const { error } = await supabase.from("transactions").insert(transaction);
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase.rpc("create_transaction_with_lines", {
+        p_transaction: transaction,
+        p_lines: linesPayload(lines),
+      });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.transactions.all,
+    // New rows show up at the top of the first page until the refetch sorts them in.
+    update: (page: TransactionPage, { lines, ...transaction }, key) =>
+      isFirstPage(key)
+        ? {
+            rows: [
+              {
+                id: optimisticId(),
+                created_at: new Date().toISOString(),
+                category_id: null,
+                account_id: null,
+                to_account_id: null,
+                fee: 0,
+                to_amount: null,
+                liability_id: null,
+                principal_amount: null,
+                interest_amount: null,
+                personal_debt_id: null,
+                split_method: null,
+                splits: [],
+                recurring_transaction_id: null,
+                recurring_occurrence_date: null,
+                import_fingerprint: null,
+                description_search: null,
+                ...transaction,
+                ...relationsOf(transaction, lines),
+              },
+              ...page.rows,
+            ].slice(0, TRANSACTION_PAGE_SIZE),
+            count: page.count + 1,
+          }
+        : page,
+    invalidates: TRANSACTION_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan transaksi",
+  });
+}
+
+export function useUpdateTransaction() {
+  const relationsOf = useRelationsFromCache();
+
+  return useOptimisticMutation({
+    // Given lines replace the existing ones together with the changes, so they
+    // never disagree with a new amount; without them the lines stay as they are.
+    mutationFn: async ({ id, changes, lines }: {
+      id: string;
+      changes: TablesUpdate<"transactions">;
+      lines?: TransactionLineInput[];
+    }) => {
+      if (!lines) {
+        const { error } = await supabase.from("transactions").update(changes).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase.rpc("update_transaction_with_lines", {
+        p_transaction_id: id,
+        p_changes: changes,
+        p_lines: linesPayload(lines),
+      });
+      if (error) throw error;
+    },
+    queryKey: queryKeys.transactions.all,
+    update: (page: TransactionPage, { id, changes, lines }) => ({
+      ...page,
+      rows: page.rows.map((row) => {
+        if (row.id !== id) return row;
+        const updated = { ...row, ...changes };
+        const relations = relationsOf(updated, lines);
+        return { ...updated, ...relations, lines: lines ? relations.lines : row.lines };
+      }),
+    }),
+    invalidates: TRANSACTION_DEPENDENT_KEYS,
+    errorMessage: "Gagal menyimpan transaksi",
+  });
+}
+
+export function useDeleteTransaction() {
+  return useOptimisticMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("transactions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    queryKey: queryKeys.transactions.all,
+    update: (page: TransactionPage, id) =>
+      page.rows.some((row) => row.id === id)
+        ? { rows: page.rows.filter((row) => row.id !== id), count: page.count - 1 }
+        : page,
+    invalidates: TRANSACTION_DEPENDENT_KEYS,
+    errorMessage: "Gagal menghapus transaksi",
+  });
+}
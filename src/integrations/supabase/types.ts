@@ -14,13 +14,988 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      asset_valuations: {
+        Row: {
+          asset_id: string
+          created_at: string
+          id: string
+          note: string | null
+          user_id: string
+          valued_at: string
+          value: number
+        }
+        Insert: {
+          asset_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          user_id: string
+          valued_at: string
+          value: number
+        }
+        Update: {
+          asset_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          user_id?: string
+          valued_at?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_valuations_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assets: {
+        Row: {
+          acquired_at: string
+          created_at: string
+          currency: string
+          current_value: number
+          id: string
+          initial_value: number
+          name: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          acquired_at: string
+          created_at?: string
+          currency?: string
+          current_value?: number
+          id?: string
+          initial_value?: number
+          name: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          acquired_at?: string
+          created_at?: string
+          currency?: string
+          current_value?: number
+          id?: string
+          initial_value?: number
+          name?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_accounts: {
+        Row: {
+          account_holder_name: string
+          account_number: string
+          account_type: string
+          balance: number
+          bank_name: string
+          created_at: string
+          credit_limit: number | null
+          currency: string
+          id: string
+          minimum_payment_amount: number | null
+          minimum_payment_percent: number | null
+          opening_balance: number
+          payment_due_day: number | null
+          statement_day: number | null
+          user_id: string
+        }
+        Insert: {
+          account_holder_name: string
+          account_number: string
+          account_type?: string
+          balance?: number
+          bank_name: string
+          created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          id?: string
+          minimum_payment_amount?: number | null
+          minimum_payment_percent?: number | null
+          opening_balance?: number
+          payment_due_day?: number | null
+          statement_day?: number | null
+          user_id: string
+        }
+        Update: {
+          account_holder_name?: string
+          account_number?: string
+          account_type?: string
+          balance?: number
+          bank_name?: string
+          created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          id?: string
+          minimum_payment_amount?: number | null
+          minimum_payment_percent?: number | null
+          opening_balance?: number
+          payment_due_day?: number | null
+          statement_day?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          month: string
+          rollover: boolean
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          month: string
+          rollover?: boolean
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          rollover?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          archived_at: string | null
+          color: string | null
+          created_at: string
+          icon: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          color?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          color?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_rules: {
+        Row: {
+          account_id: string | null
+          category_id: string
+          created_at: string
+          description_pattern: string | null
+          id: string
+          is_active: boolean
+          match_mode: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          priority: number
+          rewrite_description: string | null
+          transaction_type: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          category_id: string
+          created_at?: string
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          match_mode?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          priority?: number
+          rewrite_description?: string | null
+          transaction_type?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          category_id?: string
+          created_at?: string
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          match_mode?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          priority?: number
+          rewrite_description?: string | null
+          transaction_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      counterparties: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          note: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          note?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          note?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          rate: number
+          rate_date: string
+          to_currency: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          to_currency: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          to_currency?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          contributed_at: string
+          created_at: string
+          goal_id: string
+          id: string
+          note: string | null
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          contributed_at?: string
+          created_at?: string
+          goal_id: string
+          id?: string
+          note?: string | null
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          contributed_at?: string
+          created_at?: string
+          goal_id?: string
+          id?: string
+          note?: string | null
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      liabilities: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          currency: string
+          id: string
+          interest_method: string
+          interest_rate: number
+          name: string
+          payment_day: number
+          principal: number
+          start_date: string
+          tenor_months: number
+          type: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          interest_method?: string
+          interest_rate?: number
+          name: string
+          payment_day: number
+          principal: number
+          start_date: string
+          tenor_months: number
+          type?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          interest_method?: string
+          interest_rate?: number
+          name?: string
+          payment_day?: number
+          principal?: number
+          start_date?: string
+          tenor_months?: number
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liabilities_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      net_worth_snapshots: {
+        Row: {
+          asset_value: number
+          bank_balance: number
+          base_currency: string
+          created_at: string
+          id: string
+          liability_value: number
+          month: string
+          net_worth: number
+          user_id: string
+        }
+        Insert: {
+          asset_value: number
+          bank_balance: number
+          base_currency: string
+          created_at?: string
+          id?: string
+          liability_value: number
+          month: string
+          net_worth: number
+          user_id: string
+        }
+        Update: {
+          asset_value?: number
+          bank_balance?: number
+          base_currency?: string
+          created_at?: string
+          id?: string
+          liability_value?: number
+          month?: string
+          net_worth?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      personal_debts: {
+        Row: {
+          amount: number
+          counterparty_id: string
+          created_at: string
+          currency: string
+          debt_date: string
+          description: string | null
+          direction: string
+          due_date: string | null
+          id: string
+          split_transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          counterparty_id: string
+          created_at?: string
+          currency?: string
+          debt_date?: string
+          description?: string | null
+          direction: string
+          due_date?: string | null
+          id?: string
+          split_transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          counterparty_id?: string
+          created_at?: string
+          currency?: string
+          debt_date?: string
+          description?: string | null
+          direction?: string
+          due_date?: string | null
+          id?: string
+          split_transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_debts_counterparty_id_fkey"
+            columns: ["counterparty_id"]
+            isOneToOne: false
+            referencedRelation: "counterparties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "personal_debts_split_transaction_id_fkey"
+            columns: ["split_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transaction_exceptions: {
+        Row: {
+          action: string
+          amount: number | null
+          created_at: string
+          description: string | null
+          id: string
+          occurrence_date: string
+          recurring_transaction_id: string
+          transaction_date: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          amount?: number | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          occurrence_date: string
+          recurring_transaction_id: string
+          transaction_date?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          amount?: number | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          occurrence_date?: string
+          recurring_transaction_id?: string
+          transaction_date?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transaction_exceptions_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          description: string
+          end_date: string | null
+          fee: number
+          frequency: string
+          id: string
+          interval: number
+          is_active: boolean
+          materialized_through: string | null
+          occurrence_limit: number | null
+          start_date: string
+          to_account_id: string | null
+          type: string
+          user_id: string
+          week_of_month: number | null
+          weekday: number | null
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          description: string
+          end_date?: string | null
+          fee?: number
+          frequency: string
+          id?: string
+          interval?: number
+          is_active?: boolean
+          materialized_through?: string | null
+          occurrence_limit?: number | null
+          start_date: string
+          to_account_id?: string | null
+          type: string
+          user_id: string
+          week_of_month?: number | null
+          weekday?: number | null
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          end_date?: string | null
+          fee?: number
+          frequency?: string
+          id?: string
+          interval?: number
+          is_active?: boolean
+          materialized_through?: string | null
+          occurrence_limit?: number | null
+          start_date?: string
+          to_account_id?: string | null
+          type?: string
+          user_id?: string
+          week_of_month?: number | null
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      savings_goals: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          currency: string
+          id: string
+          name: string
+          target_amount: number
+          target_date: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          name: string
+          target_amount: number
+          target_date?: string | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string
+          target_amount?: number
+          target_date?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "savings_goals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_lines: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          note: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_lines_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          category_ids: string[]
+          created_at: string
+          currency: string
+          description: string
+          description_search: unknown | null
+          fee: number
+          id: string
+          import_fingerprint: string | null
+          interest_amount: number | null
+          liability_id: string | null
+          personal_debt_id: string | null
+          principal_amount: number | null
+          recurring_occurrence_date: string | null
+          recurring_transaction_id: string | null
+          split_method: string | null
+          to_account_id: string | null
+          to_amount: number | null
+          transaction_date: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          category_ids?: string[]
+          created_at?: string
+          currency?: string
+          description: string
+          description_search?: never
+          fee?: number
+          id?: string
+          import_fingerprint?: string | null
+          interest_amount?: number | null
+          liability_id?: string | null
+          personal_debt_id?: string | null
+          principal_amount?: number | null
+          recurring_occurrence_date?: string | null
+          recurring_transaction_id?: string | null
+          split_method?: string | null
+          to_account_id?: string | null
+          to_amount?: number | null
+          transaction_date: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          category_ids?: string[]
+          created_at?: string
+          currency?: string
+          description?: string
+          description_search?: never
+          fee?: number
+          id?: string
+          import_fingerprint?: string | null
+          interest_amount?: number | null
+          liability_id?: string | null
+          personal_debt_id?: string | null
+          principal_amount?: number | null
+          recurring_occurrence_date?: string | null
+          recurring_transaction_id?: string | null
+          split_method?: string | null
+          to_account_id?: string | null
+          to_amount?: number | null
+          transaction_date?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_liability_id_fkey"
+            columns: ["liability_id"]
+            isOneToOne: false
+            referencedRelation: "liabilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_personal_debt_id_fkey"
+            columns: ["personal_debt_id"]
+            isOneToOne: false
+            referencedRelation: "personal_debts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_transaction_id_fkey"
+            columns: ["recurring_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      bank_account_transaction_total: {
+        Args: { p_account_id: string }
+        Returns: number
+      }
+      budget_spending: {
+        Args: { base_currency?: string; from_month: string; to_month: string }
+        Returns: {
+          category_id: string
+          month: string
+          spent: number
+        }[]
+      }
+      category_totals: {
+        Args: {
+          base_currency?: string
+          category_type?: string
+          from_date: string
+          to_date: string
+        }
+        Returns: {
+          category_id: string | null
+          total: number
+        }[]
+      }
+      convert_amount: {
+        Args: { p_amount: number; p_date: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      create_transaction_with_lines: {
+        Args: { p_lines: Json; p_transaction: Json }
+        Returns: string
+      }
+      is_own_bank_account: {
+        Args: { p_account_id: string }
+        Returns: boolean
+      }
+      is_own_category: {
+        Args: { p_category_id: string }
+        Returns: boolean
+      }
+      is_own_counterparty: {
+        Args: { p_counterparty_id: string }
+        Returns: boolean
+      }
+      is_own_liability: {
+        Args: { p_liability_id: string }
+        Returns: boolean
+      }
+      is_own_personal_debt: {
+        Args: { p_personal_debt_id: string }
+        Returns: boolean
+      }
+      is_own_recurring_transaction: {
+        Args: { p_recurring_transaction_id: string }
+        Returns: boolean
+      }
+      is_own_savings_goal: {
+        Args: { p_goal_id: string }
+        Returns: boolean
+      }
+      is_own_transaction: {
+        Args: { p_transaction_id: string }
+        Returns: boolean
+      }
+      merge_category: {
+        Args: { source_id: string; target_id: string }
+        Returns: undefined
+      }
+      monthly_cash_flow: {
+        Args: { base_currency?: string; from_date: string; to_date: string }
+        Returns: {
+          expense: number
+          income: number
+          month: string
+        }[]
+      }
+      net_worth_history: {
+        Args: { base_currency?: string; months?: number }
+        Returns: {
+          asset_value: number
+          bank_balance: number
+          liability_value: number
+          month: string
+          net_worth: number
+        }[]
+      }
+      net_worth_totals: {
+        Args: { as_of?: string; base_currency?: string }
+        Returns: {
+          asset_value: number
+          bank_balance: number
+          liability_value: number
+          net_worth: number
+        }[]
+      }
+      own_share: {
+        Args: { p_amount: number; p_transaction_id: string }
+        Returns: number
+      }
+      set_transaction_splits: {
+        Args: { p_method: string; p_shares: Json; p_transaction_id: string }
+        Returns: undefined
+      }
+      transaction_category_ids: {
+        Args: { p_category_id: string; p_transaction_id: string }
+        Returns: string[]
+      }
+      update_transaction_with_lines: {
+        Args: { p_changes: Json; p_lines: Json; p_transaction_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,98 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { Money, moneyToNumber, sumMoney, toMoney } from "@/lib/utils";
+
+export interface ValuedAsset {
+  acquired_at: string;
+  initial_value: number;
+  current_value: number;
+  currency: string;
+}
+
+export interface AssetPerformance {
+  gain: Money;
+  // Gain relative to the initial value; null when the asset was free.
+  gainPercent: number | null;
+  // Compound yearly return since acquisition in percent; null when held too
+  // briefly to say.
+  annualizedPercent: number | null;
+}
+
+export interface PortfolioSummary extends AssetPerformance {
+  currency: string;
+  count: number;
+  initialValue: Money;
+  currentValue: Money;
+}
+
+// Returns over shorter periods swing wildly once extrapolated to a year.
+export const MIN_ANNUALIZED_DAYS = 30;
+
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Compound annual growth from `initial` to `current` over `days` in percent,
+ * e.g. 8 for 8% a year.
+ */
+export function annualizedPercent(initial: number, current: number, days: number): number | null {
+  if (initial <= 0 || current < 0 || days < MIN_ANNUALIZED_DAYS) return null;
+  return (Math.pow(current / initial, DAYS_PER_YEAR / days) - 1) * 100;
+}
+
+export function computeAssetPerformance(asset: ValuedAsset, asOf: Date = new Date()): AssetPerformance {
+  const initial = toMoney(asset.initial_value, asset.currency);
+  const current = toMoney(asset.current_value, asset.currency);
+  const gain = current - initial;
+  const days = differenceInCalendarDays(asOf, parseISO(asset.acquired_at));
+
+  return {
+    gain,
+    gainPercent: initial > 0n ? (moneyToNumber(gain, asset.currency) / moneyToNumber(initial, asset.currency)) * 100 : null,
+    annualizedPercent: annualizedPercent(asset.initial_value, asset.current_value, days),
+  };
+}
+
+/**
+ * Totals per currency, the currency holding most assets first. The annualized
+ * return spans the holding period averaged over the assets, weighted by what
+ * was paid for each.
+ */
+export function summarizePortfolio(assets: ValuedAsset[], asOf: Date = new Date()): PortfolioSummary[] {
+  const byCurrency = new Map<string, ValuedAsset[]>();
+  assets.forEach((asset) => {
+    byCurrency.set(asset.currency, [...(byCurrency.get(asset.currency) ?? []), asset]);
+  });
+
+  return Array.from(byCurrency, ([currency, group]) => {
+    const initialValue = sumMoney(group.map((a) => toMoney(a.initial_value, currency)));
+    const currentValue = sumMoney(group.map((a) => toMoney(a.current_value, currency)));
+    const gain = currentValue - initialValue;
+    const initial = moneyToNumber(initialValue, currency);
+    const current = moneyToNumber(currentValue, currency);
+    const weightedDays = group.reduce(
+      (sum, a) => sum + a.initial_value * differenceInCalendarDays(asOf, parseISO(a.acquired_at)),
+      0
+    );
+
+    return {
+      currency,
+      count: group.length,
+      initialValue,
+      currentValue,
+      gain,
+      gainPercent: initialValue > 0n ? (moneyToNumber(gain, currency) / initial) * 100 : null,
+      annualizedPercent: initial > 0 ? annualizedPercent(initial, current, weightedDays / initial) : null,
+    };
+  }).sort((a, b) => b.count - a.count || a.currency.localeCompare(b.currency));
+}
+
+// "+12,5%" / "-3,2%", or "-" when there is nothing to show.
+export function formatPercent(value: number | null, fractionDigits = 1): string {
+  if (value === null || !Number.isFinite(value)) return "-";
+  const text = new Intl.NumberFormat("id-ID", {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(Math.abs(value));
+  return `${value > 0 ? "+" : value < 0 ? "-" : ""}${text}%`;
+}
+
+export const gainClass = (gain: Money) => (gain > 0n ? "text-green-600" : gain < 0n ? "text-red-600" : "");
@@ -0,0 +1,34 @@
+import { format, parseISO, subYears } from "date-fns";
+import { currentYear, parseColumnarStatement } from "./common";
+import { parseDate } from "@/lib/transaction-import";
+import { BankStatementParser } from "./types";
+
+// KlikBCA mutation export: dates are "dd/mm" without a year (taken from the
+// "Periode" line above the table) and the amount carries a DB/CR suffix,
+// e.g. `'02/10,TRSF E-BANKING DB ...,0000,"150,000.00 DB","1,250,000.00"`.
+export const bcaParser: BankStatementParser = {
+  format: "bca",
+  label: "BCA (KlikBCA / myBCA)",
+  parse: (text) => {
+    const period = text.match(/periode\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{4})\s*-\s*(\d{1,2}\/\d{1,2}\/\d{4})/i);
+    const periodEnd = period ? parseDate(period[2]) : null;
+
+    const result = parseColumnarStatement(text, {
+      date: ["tanggal transaksi", "tanggal", "tgl"],
+      description: ["keterangan"],
+      amount: ["jumlah", "mutasi"],
+      fallbackYear: periodEnd ? parseISO(periodEnd).getFullYear() : currentYear(),
+    });
+
+    // A period spanning new year: December rows belong to the previous year.
+    if (periodEnd) {
+      result.transactions.forEach((t) => {
+        if (t.transaction_date > periodEnd) {
+          t.transaction_date = format(subYears(parseISO(t.transaction_date), 1), "yyyy-MM-dd");
+        }
+      });
+    }
+
+    return result;
+  },
+};
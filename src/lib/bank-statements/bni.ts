@@ -0,0 +1,16 @@
+import { parseColumnarStatement } from "./common";
+import { BankStatementParser } from "./types";
+
+// BNI Mobile Banking / e-statement export: one nominal column with a D/K
+// (or Db/Cr) type column next to it.
+export const bniParser: BankStatementParser = {
+  format: "bni",
+  label: "BNI (BNI Mobile Banking)",
+  parse: (text) =>
+    parseColumnarStatement(text, {
+      date: ["tanggal transaksi", "tanggal", "post date", "transaction date"],
+      description: ["uraian transaksi", "uraian", "keterangan", "description"],
+      amount: ["nominal", "amount", "jumlah"],
+      type: ["tipe", "db/cr", "d/k", "type"],
+    }),
+};
@@ -0,0 +1,16 @@
+import { parseColumnarStatement } from "./common";
+import { BankStatementParser } from "./types";
+
+// BRImo / Internet Banking BRI export: "dd/mm/yy HH:mm:ss" timestamps with
+// separate debet and kredit columns.
+export const briParser: BankStatementParser = {
+  format: "bri",
+  label: "BRI (BRImo)",
+  parse: (text) =>
+    parseColumnarStatement(text, {
+      date: ["tanggal transaksi", "tanggal", "tgl tran", "tgl transaksi"],
+      description: ["uraian transaksi", "uraian", "desk tran", "keterangan"],
+      debit: ["debet", "debit", "mutasi debet"],
+      credit: ["kredit", "credit", "mutasi kredit"],
+    }),
+};
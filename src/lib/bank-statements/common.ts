@@ -0,0 +1,165 @@
+import { format } from "date-fns";
+import { parseCsv } from "@/lib/csv";
+import { parseAmount, parseDate } from "@/lib/transaction-import";
+import { StatementParseResult, StatementTransaction } from "./types";
+
+// Indonesian and English month abbreviations used in e-statements ("05-Okt-2026").
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, mei: 5, may: 5, jun: 6, jul: 7,
+  agu: 8, agt: 8, aug: 8, sep: 9, okt: 10, oct: 10, nov: 11, des: 12, dec: 12,
+};
+
+// Opening/closing balance and total lines that some banks mix into the rows.
+const SUMMARY_PATTERN = /^(saldo awal|saldo akhir|mutasi debet|mutasi kredit|mutasi debit|opening balance|closing balance|total)/i;
+
+/**
+ * Parses the date formats found in Indonesian e-statements: dd/mm/yyyy, dd/mm/yy
+ * (optionally followed by a time), dd-Mon-yyyy or "dd Mon yyyy" and year-less
+ * dd/mm, for which `fallbackYear` is used.
+ */
+export function parseStatementDate(input: string, fallbackYear?: number): string | null {
+  // KlikBCA prefixes dates with a quote so spreadsheets keep them as text.
+  const value = input
+    .trim()
+    .replace(/^'/, "")
+    .replace(/\s+\d{1,2}[:.]\d{2}(?:[:.]\d{2})*(?:\s*[ap]m)?$/i, "");
+
+  const named = value.match(/^(\d{1,2})[\s/-]([a-z]{3})[a-z]*[\s/-](\d{2}|\d{4})$/i);
+  if (named) {
+    const month = MONTHS[named[2].toLowerCase()];
+    if (!month) return null;
+    return parseDate(`${named[1]}/${month}/${named[3]}`);
+  }
+
+  const dayMonth = value.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (dayMonth) {
+    if (!fallbackYear) return null;
+    return parseDate(`${dayMonth[1]}/${dayMonth[2]}/${fallbackYear}`);
+  }
+
+  return parseDate(value);
+}
+
+export const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[\s_.]+/g, " ");
+
+export function findColumns(header: string[], aliases: string[]): number[] {
+  const normalized = header.map(normalizeHeader);
+  return normalized.flatMap((h, index) => (aliases.includes(h) ? [index] : []));
+}
+
+export interface ColumnarStatementSpec {
+  date: string[];
+  description: string[];
+  // Either separate debit/credit columns...
+  debit?: string[];
+  credit?: string[];
+  // ...or one amount column with a D/K type column or a "DB"/"CR" suffix.
+  amount?: string[];
+  type?: string[];
+  fallbackYear?: number;
+}
+
+function parseDirection(value: string): "income" | "expense" | null {
+  const v = value.trim().toUpperCase();
+  if (["CR", "K", "C", "KREDIT", "CREDIT"].includes(v)) return "income";
+  if (["DB", "D", "DEBET", "DEBIT"].includes(v)) return "expense";
+  return null;
+}
+
+/**
+ * Shared reader for the tabular statement exports: locates the header row,
+ * merges continuation rows (no date, only description) into the previous
+ * transaction and skips balance summary lines.
+ */
+export function parseColumnarStatement(text: string, spec: ColumnarStatementSpec): StatementParseResult {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(
+    (row) => findColumns(row, spec.date).length > 0 && findColumns(row, spec.description).length > 0
+  );
+
+  if (headerIndex < 0) {
+    throw new Error("Format mutasi tidak dikenali: baris judul kolom tidak ditemukan");
+  }
+
+  const header = rows[headerIndex];
+  const dateColumn = findColumns(header, spec.date)[0];
+  const descriptionColumns = findColumns(header, spec.description);
+  const debitColumn = spec.debit ? findColumns(header, spec.debit)[0] : undefined;
+  const creditColumn = spec.credit ? findColumns(header, spec.credit)[0] : undefined;
+  const amountColumn = spec.amount ? findColumns(header, spec.amount)[0] : undefined;
+  const typeColumn = spec.type ? findColumns(header, spec.type)[0] : undefined;
+
+  const transactions: StatementTransaction[] = [];
+  const warnings: string[] = [];
+  let previous: StatementTransaction | null = null;
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const line = headerIndex + offset + 2;
+    const cell = (column: number | undefined) => (column === undefined ? "" : (row[column] || "").trim());
+    const rawDate = cell(dateColumn);
+    const description = descriptionColumns.map(cell).filter(Boolean).join(" ");
+
+    if (SUMMARY_PATTERN.test(rawDate) || SUMMARY_PATTERN.test(description)) {
+      previous = null;
+      return;
+    }
+
+    if (!rawDate) {
+      // Multi-line descriptions continue on rows without a date.
+      if (previous && description) previous.description += ` ${description}`;
+      return;
+    }
+
+    if (/^pend/i.test(rawDate)) {
+      warnings.push(`Baris ${line}: transaksi tertunda dilewati (${description})`);
+      previous = null;
+      return;
+    }
+
+    const transactionDate = parseStatementDate(rawDate, spec.fallbackYear);
+    if (!transactionDate) {
+      warnings.push(`Baris ${line}: tanggal tidak dikenali "${rawDate}"`);
+      previous = null;
+      return;
+    }
+
+    let amount: number | null = null;
+    let type: "income" | "expense" | null = null;
+
+    if (debitColumn !== undefined || creditColumn !== undefined) {
+      const debit = parseAmount(cell(debitColumn)) || 0;
+      const credit = parseAmount(cell(creditColumn)) || 0;
+      if (debit !== 0) {
+        amount = Math.abs(debit);
+        type = "expense";
+      } else if (credit !== 0) {
+        amount = Math.abs(credit);
+        type = "income";
+      }
+    } else {
+      const raw = cell(amountColumn);
+      const suffix = raw.match(/\s*(DB|CR)$/i);
+      amount = parseAmount(suffix ? raw.slice(0, suffix.index) : raw);
+      type = parseDirection(typeColumn !== undefined ? cell(typeColumn) : suffix?.[1] || "");
+      if (amount !== null && !type) type = amount < 0 ? "expense" : "income";
+      if (amount !== null) amount = Math.abs(amount);
+    }
+
+    if (!amount || !type) {
+      warnings.push(`Baris ${line}: jumlah tidak dikenali`);
+      previous = null;
+      return;
+    }
+
+    previous = { line, transaction_date: transactionDate, description, amount, type };
+    transactions.push(previous);
+  });
+
+  transactions.forEach((t) => {
+    t.description = t.description.replace(/\s+/g, " ").trim();
+  });
+
+  return { transactions, warnings };
+}
+
+export const currentYear = () => Number(format(new Date(), "yyyy"));
@@ -0,0 +1,64 @@
+interface FingerprintSource {
+  transaction_date: string;
+  description: string;
+  amount: number;
+  type: string;
+}
+
+interface ExistingTransaction {
+  transaction_date: string;
+  amount: number;
+  type: string;
+  import_fingerprint: string | null;
+}
+
+// "exact": the same statement row was imported before. "possible": an existing
+// transaction (typically entered by hand) has the same date, type and amount.
+export type DuplicateStatus = "exact" | "possible" | null;
+
+const normalizeDescription = (description: string) =>
+  description.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const baseKey = (t: { transaction_date: string; amount: number; type: string }) =>
+  `${t.transaction_date}|${t.type}|${Number(t.amount).toFixed(2)}`;
+
+/**
+ * Stable identifiers for imported rows. Identical rows on the same day (two
+ * coffees of the same price) are told apart by their position among their twins,
+ * so re-importing an overlapping period yields the same fingerprints.
+ */
+export function computeImportFingerprints(rows: FingerprintSource[]): string[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((row) => {
+    const key = `${baseKey(row)}|${normalizeDescription(row.description)}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return `${key}#${occurrence}`;
+  });
+}
+
+// Matches incoming rows against existing transactions of the same account.
+// Every existing transaction can only account for one incoming row.
+export function detectDuplicates(
+  rows: FingerprintSource[],
+  fingerprints: string[],
+  existing: ExistingTransaction[]
+): DuplicateStatus[] {
+  const importedFingerprints = new Set(existing.map((t) => t.import_fingerprint).filter(Boolean));
+  const manualByKey = new Map<string, number>();
+  existing
+    .filter((t) => !t.import_fingerprint)
+    .forEach((t) => manualByKey.set(baseKey(t), (manualByKey.get(baseKey(t)) || 0) + 1));
+
+  return rows.map((row, index) => {
+    if (importedFingerprints.has(fingerprints[index])) return "exact";
+
+    const remaining = manualByKey.get(baseKey(row)) || 0;
+    if (remaining > 0) {
+      manualByKey.set(baseKey(row), remaining - 1);
+      return "possible";
+    }
+    return null;
+  });
+}
@@ -0,0 +1,15 @@
+import { bcaParser } from "./bca";
+import { bniParser } from "./bni";
+import { briParser } from "./bri";
+import { mandiriParser } from "./mandiri";
+import { BankStatementFormat, BankStatementParser } from "./types";
+
+export * from "./types";
+export * from "./duplicates";
+
+export const BANK_STATEMENT_PARSERS: Record<BankStatementFormat, BankStatementParser> = {
+  bca: bcaParser,
+  mandiri: mandiriParser,
+  bni: bniParser,
+  bri: briParser,
+};
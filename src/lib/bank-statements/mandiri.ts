@@ -0,0 +1,16 @@
+import { parseColumnarStatement } from "./common";
+import { BankStatementParser } from "./types";
+
+// Livin' by Mandiri / Mandiri Online export with separate debit and credit
+// columns. The description is split over up to two "Description" columns.
+export const mandiriParser: BankStatementParser = {
+  format: "mandiri",
+  label: "Mandiri (Livin' by Mandiri)",
+  parse: (text) =>
+    parseColumnarStatement(text, {
+      date: ["date", "tanggal", "posting date", "tanggal transaksi"],
+      description: ["description", "keterangan", "remarks", "additional description"],
+      debit: ["debit", "debet"],
+      credit: ["credit", "kredit"],
+    }),
+};
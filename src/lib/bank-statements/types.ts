@@ -0,0 +1,22 @@
+export type BankStatementFormat = "bca" | "mandiri" | "bni" | "bri";
+
+export interface StatementTransaction {
+  // 1-based position of the (first) source row among the non-blank rows of the file.
+  line: number;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  type: "income" | "expense";
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[];
+  // Rows that were recognised but skipped, e.g. pending BCA transactions.
+  warnings: string[];
+}
+
+export interface BankStatementParser {
+  format: BankStatementFormat;
+  label: string;
+  parse: (text: string) => StatementParseResult;
+}
@@ -0,0 +1,84 @@
+import { addMonths, format, parseISO } from "date-fns";
+import { DEFAULT_CURRENCY, Money, toMoney } from "@/lib/utils";
+
+export interface Budget {
+  id: string;
+  category_id: string;
+  month: string;
+  amount: number;
+  rollover: boolean;
+}
+
+export type BudgetStatus = "ok" | "warning" | "over";
+
+export interface BudgetProgress<T extends Budget = Budget> {
+  budget: T;
+  carriedOver: Money;
+  available: Money;
+  spent: Money;
+  remaining: Money;
+  percent: number;
+  status: BudgetStatus;
+}
+
+// Share of the available budget at which a category starts to be flagged.
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+// Number of earlier months taken into account when carrying over unused budget.
+export const ROLLOVER_LOOKBACK_MONTHS = 12;
+
+export const toBudgetMonth = (date: Date) => format(date, "yyyy-MM-01");
+
+export const shiftBudgetMonth = (month: string, amount: number) =>
+  toBudgetMonth(addMonths(parseISO(month), amount));
+
+export function getBudgetStatus(percent: number): BudgetStatus {
+  if (percent >= 100) return "over";
+  if (percent >= BUDGET_WARNING_THRESHOLD * 100) return "warning";
+  return "ok";
+}
+
+/**
+ * Computes the progress of every budget in `month`.
+ *
+ * `budgets` must include the earlier months of each category so rollovers can be
+ * chained; `spending` maps `${category_id}:${month}` to the expense total.
+ * Budgets and spending are both in `currency`. A rollover only carries into the
+ * directly following month.
+ */
+export function computeBudgetProgress<T extends Budget>(
+  budgets: T[],
+  spending: Map<string, Money>,
+  month: string,
+  currency: string = DEFAULT_CURRENCY
+): BudgetProgress<T>[] {
+  const byKey = new Map(budgets.map((b) => [`${b.category_id}:${b.month}`, b]));
+  const spentIn = (categoryId: string, m: string) => spending.get(`${categoryId}:${m}`) ?? 0n;
+
+  const availableIn = (budget: Budget, depth: number): Money => {
+    const previous = byKey.get(`${budget.category_id}:${shiftBudgetMonth(budget.month, -1)}`);
+    if (!previous || !previous.rollover || depth >= ROLLOVER_LOOKBACK_MONTHS) {
+      return toMoney(budget.amount, currency);
+    }
+    const leftover = availableIn(previous, depth + 1) - spentIn(previous.category_id, previous.month);
+    return toMoney(budget.amount, currency) + (leftover > 0n ? leftover : 0n);
+  };
+
+  return budgets
+    .filter((budget) => budget.month === month)
+    .map((budget) => {
+      const available = availableIn(budget, 0);
+      const spent = spentIn(budget.category_id, month);
+      const percent = available > 0n ? (Number(spent) / Number(available)) * 100 : spent > 0n ? 100 : 0;
+
+      return {
+        budget,
+        carriedOver: available - toMoney(budget.amount, currency),
+        available,
+        spent,
+        remaining: available - spent,
+        percent,
+        status: getBudgetStatus(percent),
+      };
+    });
+}
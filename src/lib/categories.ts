@@ -0,0 +1,76 @@
+import { Money, toMoney } from "@/lib/utils";
+
+export interface HierarchicalCategory {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+export interface CategoryNode<T extends HierarchicalCategory> {
+  category: T;
+  children: T[];
+}
+
+/**
+ * Groups categories under their parent, both levels sorted by name. A child
+ * whose parent is not in the list (e.g. filtered out) is shown as a root.
+ */
+export function buildCategoryTree<T extends HierarchicalCategory>(categories: T[]): CategoryNode<T>[] {
+  const byName = (a: T, b: T) => a.name.localeCompare(b.name);
+  const ids = new Set(categories.map((c) => c.id));
+  const isRoot = (c: T) => !c.parent_id || !ids.has(c.parent_id);
+
+  return categories
+    .filter(isRoot)
+    .sort(byName)
+    .map((category) => ({
+      category,
+      children: categories.filter((c) => c.parent_id === category.id).sort(byName),
+    }));
+}
+
+// The id of the top-level category a category rolls up into.
+export function getRootCategoryId(categories: HierarchicalCategory[], categoryId: string): string {
+  const category = categories.find((c) => c.id === categoryId);
+  return category?.parent_id || categoryId;
+}
+
+// "Transport › Bensin" for subcategories, the plain name otherwise.
+export function getCategoryLabel(categories: HierarchicalCategory[], categoryId: string | null): string | null {
+  const category = categories.find((c) => c.id === categoryId);
+  if (!category) return null;
+  const parent = category.parent_id ? categories.find((c) => c.id === category.parent_id) : null;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+export interface CategoryTotal {
+  // null collects the amounts without a category.
+  categoryId: string | null;
+  value: Money;
+}
+
+/**
+ * Sums amounts, all in `currency`, per category. Without `parentId`
+ * subcategories roll up into their top-level category; with it, only that
+ * parent's amounts are returned, split into its subcategories and the parent
+ * itself.
+ */
+export function sumByCategory(
+  rows: { category_id: string | null; amount: number }[],
+  categories: HierarchicalCategory[],
+  currency: string,
+  parentId: string | null = null
+): CategoryTotal[] {
+  const totals = new Map<string | null, Money>();
+
+  rows.forEach((row) => {
+    const rootId = row.category_id ? getRootCategoryId(categories, row.category_id) : null;
+    if (parentId && rootId !== parentId) return;
+    const key = parentId ? row.category_id : rootId;
+    totals.set(key, (totals.get(key) ?? 0n) + toMoney(row.amount, currency));
+  });
+
+  return Array.from(totals, ([categoryId, value]) => ({ categoryId, value })).sort((a, b) =>
+    a.value === b.value ? 0 : a.value < b.value ? 1 : -1
+  );
+}
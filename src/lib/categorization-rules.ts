@@ -0,0 +1,104 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RuleMatchMode = "contains" | "regex";
+
+export type CategoryRule = Omit<Tables<"category_rules">, "match_mode"> & {
+  match_mode: RuleMatchMode;
+  categories: Pick<Tables<"categories">, "name" | "type"> | null;
+};
+
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  type: string;
+  account_id: string | null;
+}
+
+export interface RuleResult {
+  rule: CategoryRule;
+  category_id: string;
+  description: string;
+}
+
+// Invalid user regexes simply never match instead of breaking the caller.
+function compilePattern(rule: CategoryRule): RegExp | null {
+  if (!rule.description_pattern) return null;
+  try {
+    return rule.match_mode === "regex"
+      ? new RegExp(rule.description_pattern, "i")
+      : new RegExp(rule.description_pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  } catch {
+    return null;
+  }
+}
+
+export function isValidPattern(pattern: string, mode: RuleMatchMode): boolean {
+  if (mode !== "regex") return true;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  if (!rule.is_active) return false;
+  // Transfers are never categorized, and a rule cannot put an expense into an income category.
+  if (subject.type !== "income" && subject.type !== "expense") return false;
+  if (rule.categories && rule.categories.type !== subject.type) return false;
+  if (rule.transaction_type && rule.transaction_type !== subject.type) return false;
+  if (rule.account_id && rule.account_id !== subject.account_id) return false;
+
+  const amount = Number(subject.amount);
+  if (rule.min_amount !== null && amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount !== null && amount > Number(rule.max_amount)) return false;
+
+  if (rule.description_pattern) {
+    const pattern = compilePattern(rule);
+    if (!pattern || !pattern.test(subject.description)) return false;
+  }
+
+  return true;
+}
+
+function rewriteDescription(rule: CategoryRule, description: string): string {
+  if (!rule.rewrite_description) return description;
+
+  // Regex rules may reference capture groups ($1, $2...) in the new description.
+  const pattern = rule.match_mode === "regex" ? compilePattern(rule) : null;
+  const match = pattern ? description.match(pattern) : null;
+  return match ? match[0].replace(pattern!, rule.rewrite_description) : rule.rewrite_description;
+}
+
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+// Returns the outcome of the first matching rule, or null when none applies.
+export function applyRules(rules: CategoryRule[], subject: RuleSubject): RuleResult | null {
+  const rule = sortRules(rules).find((r) => ruleMatches(r, subject));
+  if (!rule) return null;
+
+  return {
+    rule,
+    category_id: rule.category_id,
+    description: rewriteDescription(rule, subject.description),
+  };
+}
+
+export function describeRuleConditions(rule: CategoryRule, accountName?: string): string {
+  const parts: string[] = [];
+  if (rule.description_pattern) {
+    parts.push(
+      rule.match_mode === "regex"
+        ? `deskripsi cocok /${rule.description_pattern}/`
+        : `deskripsi mengandung "${rule.description_pattern}"`
+    );
+  }
+  if (rule.transaction_type) parts.push(rule.transaction_type === "income" ? "pemasukan" : "pengeluaran");
+  if (rule.min_amount !== null) parts.push(`jumlah ≥ ${rule.min_amount}`);
+  if (rule.max_amount !== null) parts.push(`jumlah ≤ ${rule.max_amount}`);
+  if (rule.account_id) parts.push(`rekening ${accountName || "tertentu"}`);
+  return parts.length > 0 ? parts.join(", ") : "semua transaksi";
+}
@@ -0,0 +1,211 @@
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, parseISO, startOfMonth } from "date-fns";
+import { Money, sumMoney, toMoney } from "@/lib/utils";
+import { getAccountEffect } from "@/lib/transactions";
+
+export type AccountType = "bank" | "credit_card";
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: "Rekening Bank",
+  credit_card: "Kartu Kredit",
+};
+
+// Defaults for new cards, the usual terms of Indonesian issuers.
+export const DEFAULT_MINIMUM_PAYMENT_PERCENT = 5;
+export const DEFAULT_MINIMUM_PAYMENT_AMOUNT = 50000;
+
+// Monthly interest Bank Indonesia allows on card balances, assumed where a
+// plan needs the rate of a card.
+export const DEFAULT_CARD_INTEREST_PERCENT = 1.75;
+
+// Statement periods listed for each card, the open one included.
+export const STATEMENT_HISTORY_PERIODS = 6;
+
+// Days before the due date from which an unpaid statement is flagged.
+export const DUE_REMINDER_DAYS = 7;
+
+export interface CreditCard {
+  id: string;
+  currency: string;
+  // Negative while money is owed on the card.
+  balance: number;
+  credit_limit: number | null;
+  statement_day: number | null;
+  payment_due_day: number | null;
+  minimum_payment_percent: number | null;
+  minimum_payment_amount: number | null;
+}
+
+export interface CardTransaction {
+  id: string;
+  description: string;
+  transaction_date: string;
+  type: string;
+  amount: number;
+  fee?: number | null;
+  account_id: string | null;
+  to_account_id?: string | null;
+  to_amount?: number | null;
+}
+
+export interface StatementPeriod {
+  start: string;
+  closingDate: string;
+  dueDate: string;
+}
+
+export interface Statement<T extends CardTransaction = CardTransaction> {
+  period: StatementPeriod;
+  // Still open: the balance is what would be billed if it closed today.
+  open: boolean;
+  transactions: T[];
+  // Spending in the period, and payments and refunds credited in it.
+  charges: Money;
+  credits: Money;
+  // Amount owed at the closing date (or today while open); zero when in credit.
+  balance: Money;
+  minimumPayment: Money;
+}
+
+export type DueStatus = "paid" | "upcoming" | "due_soon" | "overdue";
+
+export interface CreditCardStatus {
+  owed: Money;
+  availableCredit: Money;
+  // Share of the limit in use, 0-100.
+  utilization: number;
+  // The last closed statement; empty before the card's first closing.
+  lastStatement: Statement;
+  // Payments made since the last statement closed, and what is left of it.
+  paidSinceStatement: Money;
+  remainingDue: Money;
+  remainingMinimum: Money;
+  dueStatus: DueStatus;
+  nextStatement: Statement;
+}
+
+const toDate = (date: string) => format(parseISO(date), "yyyy-MM-dd");
+
+// The given day of the month of `month`, moved to its last day when shorter.
+function dayInMonth(month: Date, day: number): string {
+  const date = startOfMonth(month);
+  date.setDate(Math.min(day, getDaysInMonth(date)));
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * The statement period `date` falls in: it runs from the day after the
+ * previous closing up to and including the closing date, and is due on the
+ * first payment due day after closing.
+ */
+export function statementPeriodFor(card: CreditCard, date: string): StatementPeriod {
+  const day = parseISO(date);
+  let closingDate = dayInMonth(day, card.statement_day);
+  if (toDate(date) > closingDate) closingDate = dayInMonth(addMonths(day, 1), card.statement_day);
+
+  const closing = parseISO(closingDate);
+  const previousClosing = dayInMonth(addMonths(closing, -1), card.statement_day);
+  let dueDate = dayInMonth(closing, card.payment_due_day);
+  if (dueDate <= closingDate) dueDate = dayInMonth(addMonths(closing, 1), card.payment_due_day);
+
+  return {
+    start: format(addDays(parseISO(previousClosing), 1), "yyyy-MM-dd"),
+    closingDate,
+    dueDate,
+  };
+}
+
+export function previousStatementPeriod(card: CreditCard, period: StatementPeriod): StatementPeriod {
+  return statementPeriodFor(card, format(addDays(parseISO(period.start), -1), "yyyy-MM-dd"));
+}
+
+// Share of the statement balance with the fixed floor, capped at the balance.
+export function minimumPayment(card: CreditCard, balance: Money): Money {
+  if (balance <= 0n) return 0n;
+  const share = (balance * BigInt(Math.round((card.minimum_payment_percent ?? 0) * 100))) / 10000n;
+  const floor = toMoney(card.minimum_payment_amount, card.currency);
+  const minimum = share > floor ? share : floor;
+  return minimum < balance ? minimum : balance;
+}
+
+/**
+ * Groups the card's transactions into its last `count` statement periods, the
+ * open one first. The balance at each closing is worked back from the current
+ * balance, so `transactions` must hold everything since the oldest period.
+ */
+export function buildStatements<T extends CardTransaction>(
+  card: CreditCard,
+  transactions: T[],
+  today: string,
+  count: number
+): Statement<T>[] {
+  const effect = (t: CardTransaction) => getAccountEffect(t, card.id, card.currency);
+  const balance = toMoney(card.balance, card.currency);
+  const statements: Statement<T>[] = [];
+
+  let period = statementPeriodFor(card, today);
+  for (let i = 0; i < count; i++) {
+    const closingDate = i === 0 ? today : period.closingDate;
+    const later = transactions.filter((t) => t.transaction_date > closingDate);
+    const balanceAtClosing = balance - sumMoney(later.map(effect));
+    const owed = balanceAtClosing < 0n ? -balanceAtClosing : 0n;
+    const inPeriod = transactions
+      .filter((t) => t.transaction_date >= period.start && t.transaction_date <= period.closingDate)
+      .sort((a, b) => b.transaction_date.localeCompare(a.transaction_date));
+    const effects = inPeriod.map(effect);
+
+    statements.push({
+      period,
+      open: i === 0,
+      transactions: inPeriod,
+      charges: -sumMoney(effects.filter((e) => e < 0n)),
+      credits: sumMoney(effects.filter((e) => e > 0n)),
+      balance: owed,
+      minimumPayment: minimumPayment(card, owed),
+    });
+    period = previousStatementPeriod(card, period);
+  }
+
+  return statements;
+}
+
+/**
+ * Where a card stands today: the statement to pay, what has been paid towards
+ * it since it closed, the charges building up on the next one, and the credit
+ * still available under the limit.
+ */
+export function computeCreditCardStatus(card: CreditCard, transactions: CardTransaction[], today: string): CreditCardStatus {
+  const [nextStatement, lastStatement] = buildStatements(card, transactions, today, 2);
+  const balance = toMoney(card.balance, card.currency);
+  const owed = balance < 0n ? -balance : 0n;
+  const limit = toMoney(card.credit_limit, card.currency);
+
+  const paidSinceStatement = sumMoney(
+    transactions
+      .filter((t) => t.transaction_date > lastStatement.period.closingDate)
+      .map((t) => getAccountEffect(t, card.id, card.currency))
+      .filter((e) => e > 0n)
+  );
+  const remainingDue = lastStatement.balance > paidSinceStatement ? lastStatement.balance - paidSinceStatement : 0n;
+  const remainingMinimum =
+    lastStatement.minimumPayment > paidSinceStatement ? lastStatement.minimumPayment - paidSinceStatement : 0n;
+
+  const daysLeft = differenceInCalendarDays(parseISO(lastStatement.period.dueDate), parseISO(today));
+  let dueStatus: DueStatus = "paid";
+  if (remainingDue > 0n) {
+    if (daysLeft < 0) dueStatus = "overdue";
+    else if (daysLeft <= DUE_REMINDER_DAYS) dueStatus = "due_soon";
+    else dueStatus = "upcoming";
+  }
+
+  return {
+    owed,
+    availableCredit: limit + balance,
+    utilization: limit > 0n ? (Number(owed) / Number(limit)) * 100 : 0,
+    lastStatement,
+    paidSinceStatement,
+    remainingDue,
+    remainingMinimum,
+    dueStatus,
+    nextStatement,
+  };
+}
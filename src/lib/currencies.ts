@@ -0,0 +1,36 @@
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+
+// Currencies offered in the pickers. Exchange rates can only be entered between these.
+export const CURRENCIES = ["IDR", "USD", "SGD", "MYR", "EUR", "JPY", "AUD", "GBP", "CNY", "SAR"] as const;
+
+export const CURRENCY_LABELS: Record<string, string> = {
+  IDR: "Rupiah Indonesia",
+  USD: "Dolar Amerika Serikat",
+  SGD: "Dolar Singapura",
+  MYR: "Ringgit Malaysia",
+  EUR: "Euro",
+  JPY: "Yen Jepang",
+  AUD: "Dolar Australia",
+  GBP: "Pound Sterling",
+  CNY: "Yuan Tiongkok",
+  SAR: "Riyal Arab Saudi",
+};
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+/**
+ * Currencies among `used` that cannot be converted into `base` because no rate
+ * in either direction exists. Their amounts are left out of converted totals.
+ */
+export function findUnconvertibleCurrencies(
+  used: string[],
+  rates: { from_currency: string; to_currency: string }[],
+  base: string = DEFAULT_CURRENCY
+): string[] {
+  const convertible = new Set([base]);
+  rates.forEach((rate) => {
+    if (rate.to_currency === base) convertible.add(rate.from_currency);
+    if (rate.from_currency === base) convertible.add(rate.to_currency);
+  });
+  return Array.from(new Set(used)).filter((currency) => !convertible.has(currency)).sort();
+}
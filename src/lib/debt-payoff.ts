@@ -0,0 +1,133 @@
+import { addMonths, format, parseISO } from "date-fns";
+import { Money, moneyToNumber, sumMoney, toMoney } from "@/lib/utils";
+
+export type PayoffStrategy = "snowball" | "avalanche";
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  snowball: "Snowball",
+  avalanche: "Avalanche",
+};
+
+export const PAYOFF_STRATEGY_DESCRIPTIONS: Record<PayoffStrategy, string> = {
+  snowball: "Saldo terkecil dilunasi lebih dulu.",
+  avalanche: "Bunga tertinggi dilunasi lebih dulu.",
+};
+
+export interface Debt {
+  id: string;
+  name: string;
+  balance: Money;
+  // Monthly rate on the outstanding balance, as a fraction.
+  monthlyRate: number;
+  // Flat-rate loans charge the same interest every month while outstanding.
+  fixedInterest: Money | null;
+  minimumPayment: Money;
+}
+
+export interface PayoffMonth {
+  month: string;
+  // Per debt id; debts paid off earlier are left out.
+  payments: Record<string, Money>;
+  balances: Record<string, Money>;
+  interest: Money;
+  paid: Money;
+  remaining: Money;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  months: PayoffMonth[];
+  totalInterest: Money;
+  totalPaid: Money;
+  // Month of the last payment; null when the payments never clear the debts.
+  debtFreeMonth: string | null;
+  // Month each debt is cleared in, per debt id.
+  payoffMonths: Record<string, string>;
+}
+
+// Guards against plans whose payments never cover the interest.
+const MAX_MONTHS = 600;
+
+/**
+ * Simulates paying the debts off with their minimum payments plus `extra`
+ * every month, starting in `firstMonth` (yyyy-MM-01). The total stays the same
+ * throughout: whatever is left after the minimums, including the minimums of
+ * debts already cleared, goes to the debt the strategy picks first.
+ */
+export function simulatePayoff(
+  debts: Debt[],
+  extra: Money,
+  strategy: PayoffStrategy,
+  firstMonth: string,
+  currency: string
+): PayoffPlan {
+  const balances = new Map(debts.filter((d) => d.balance > 0n).map((d) => [d.id, d.balance]));
+  const budget = sumMoney(debts.filter((d) => d.balance > 0n).map((d) => d.minimumPayment)) + extra;
+  const months: PayoffMonth[] = [];
+  const payoffMonths: Record<string, string> = {};
+
+  for (let i = 0; balances.size > 0 && i < MAX_MONTHS; i++) {
+    const month = format(addMonths(parseISO(firstMonth), i), "yyyy-MM-dd");
+    const active = debts.filter((d) => balances.has(d.id));
+    const interest = new Map(
+      active.map((d) => [
+        d.id,
+        d.fixedInterest ?? toMoney(moneyToNumber(balances.get(d.id), currency) * d.monthlyRate, currency),
+      ])
+    );
+    const owed = new Map(active.map((d) => [d.id, balances.get(d.id) + interest.get(d.id)]));
+    const payments: Record<string, Money> = {};
+    let left = budget;
+
+    const pay = (id: string, amount: Money) => {
+      const payment = amount < owed.get(id) - (payments[id] ?? 0n) ? amount : owed.get(id) - (payments[id] ?? 0n);
+      payments[id] = (payments[id] ?? 0n) + payment;
+      left -= payment;
+    };
+
+    active.forEach((d) => pay(d.id, d.minimumPayment < left ? d.minimumPayment : left));
+
+    // Interest relative to the balance, so flat-rate loans rank by what they
+    // really cost as they shrink.
+    const cost = (d: Debt) => Number(interest.get(d.id)) / Number(balances.get(d.id));
+    const order = [...active].sort((a, b) =>
+      strategy === "snowball"
+        ? Number(balances.get(a.id) - balances.get(b.id)) || cost(b) - cost(a)
+        : cost(b) - cost(a) || Number(balances.get(a.id) - balances.get(b.id))
+    );
+    for (const d of order) {
+      if (left <= 0n) break;
+      pay(d.id, left);
+    }
+
+    const monthBalances: Record<string, Money> = {};
+    active.forEach((d) => {
+      const balance = owed.get(d.id) - payments[d.id];
+      monthBalances[d.id] = balance;
+      if (balance > 0n) {
+        balances.set(d.id, balance);
+      } else {
+        balances.delete(d.id);
+        payoffMonths[d.id] = month;
+      }
+    });
+
+    months.push({
+      month,
+      payments,
+      balances: monthBalances,
+      interest: sumMoney([...interest.values()]),
+      paid: budget - left,
+      remaining: sumMoney([...balances.values()]),
+    });
+  }
+
+  return {
+    strategy,
+    months,
+    totalInterest: sumMoney(months.map((m) => m.interest)),
+    totalPaid: sumMoney(months.map((m) => m.paid)),
+    debtFreeMonth: balances.size === 0 && months.length > 0 ? months[months.length - 1].month : null,
+    payoffMonths,
+  };
+}
@@ -0,0 +1,47 @@
+import { parseCsv } from "@/lib/csv";
+import { isCurrencyCode } from "@/lib/currencies";
+import { parseAmount, parseDate } from "@/lib/transaction-import";
+
+export interface ExchangeRateInput {
+  rate_date: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+}
+
+export interface ExchangeRateParseResult {
+  rates: ExchangeRateInput[];
+  // "Baris 3: ..." messages for rows that were skipped.
+  errors: string[];
+}
+
+/**
+ * Reads a rate file with the columns date, from currency, to currency and rate
+ * ("2026-10-01;USD;IDR;16.250,50"), optionally preceded by a header row. A pair
+ * listed twice for the same date keeps the last rate.
+ */
+export function parseExchangeRateFile(text: string): ExchangeRateParseResult {
+  const rows = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ""));
+  const rates = new Map<string, ExchangeRateInput>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const [dateCell = "", fromCell = "", toCell = "", rateCell = ""] = row;
+    // A first row without a valid date is taken to be the header.
+    if (index === 0 && !parseDate(dateCell)) return;
+
+    const line = `Baris ${index + 1}`;
+    const rateDate = parseDate(dateCell);
+    const from = fromCell.trim().toUpperCase();
+    const to = toCell.trim().toUpperCase();
+    const rate = parseAmount(rateCell);
+
+    if (!rateDate) errors.push(`${line}: tanggal tidak valid "${dateCell}"`);
+    else if (!isCurrencyCode(from) || !isCurrencyCode(to)) errors.push(`${line}: kode mata uang tidak valid`);
+    else if (from === to) errors.push(`${line}: mata uang asal dan tujuan sama`);
+    else if (rate === null || rate <= 0) errors.push(`${line}: kurs tidak valid "${rateCell}"`);
+    else rates.set(`${rateDate}|${from}|${to}`, { rate_date: rateDate, from_currency: from, to_currency: to, rate });
+  });
+
+  return { rates: Array.from(rates.values()), errors };
+}
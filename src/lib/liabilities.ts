@@ -0,0 +1,149 @@
+import { addMonths, format, getDaysInMonth, parseISO, startOfMonth } from "date-fns";
+import { Money, moneyToNumber, sumMoney, toMoney } from "@/lib/utils";
+
+export type LiabilityType = "mortgage" | "vehicle" | "paylater" | "credit_card" | "personal" | "other";
+
+export const LIABILITY_TYPE_LABELS: Record<LiabilityType, string> = {
+  mortgage: "KPR",
+  vehicle: "Kredit Kendaraan",
+  paylater: "Paylater",
+  credit_card: "Kartu Kredit",
+  personal: "Pinjaman Pribadi",
+  other: "Lainnya",
+};
+
+export type InterestMethod = "annuity" | "flat";
+
+export const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  annuity: "Anuitas",
+  flat: "Flat",
+};
+
+export interface LoanTerms {
+  principal: number;
+  // Yearly rate in percent.
+  interest_rate: number;
+  interest_method: string;
+  tenor_months: number;
+  start_date: string;
+  payment_day: number;
+  currency: string;
+}
+
+export interface Installment {
+  number: number;
+  dueDate: string;
+  payment: Money;
+  interest: Money;
+  principal: Money;
+  // Outstanding principal after this installment.
+  balance: Money;
+}
+
+export interface LoanPayment {
+  amount: number;
+  principal_amount: number | null;
+  interest_amount: number | null;
+}
+
+export interface LoanStatus {
+  paidPrincipal: Money;
+  paidInterest: Money;
+  paidInstallments: number;
+  remaining: Money;
+  // Share of the principal repaid, 0-100.
+  percentPaid: number;
+  nextInstallment: Installment | null;
+  // Due date of the last installment if the regular payment continues; null
+  // once paid off or when the payment no longer covers the interest.
+  payoffDate: string | null;
+}
+
+// Guards against schedules whose payment never covers the interest.
+const MAX_INSTALLMENTS = 1200;
+
+const monthlyRate = (terms: LoanTerms) => terms.interest_rate / 100 / 12;
+
+/**
+ * Due date of the nth installment: the payment day of the nth month after the
+ * start, moved to the month's last day when the month is shorter.
+ */
+export function installmentDueDate(terms: LoanTerms, number: number): string {
+  const month = addMonths(startOfMonth(parseISO(terms.start_date)), number);
+  month.setDate(Math.min(terms.payment_day, getDaysInMonth(month)));
+  return format(month, "yyyy-MM-dd");
+}
+
+// The regular monthly installment: constant for annuities, principal share
+// plus interest on the original principal for flat-rate loans.
+export function regularPayment(terms: LoanTerms): Money {
+  const principal = terms.principal;
+  const rate = monthlyRate(terms);
+  const n = terms.tenor_months;
+
+  if (terms.interest_method === "flat") {
+    return toMoney(principal / n, terms.currency) + toMoney(principal * rate, terms.currency);
+  }
+  if (rate === 0) return toMoney(principal / n, terms.currency);
+  return toMoney((principal * rate) / (1 - Math.pow(1 + rate, -n)), terms.currency);
+}
+
+/**
+ * Installments that pay `balance` off with the regular payment, numbered from
+ * `fromNumber`. Without a balance it is the full schedule of the loan. The
+ * installment closing the tenor settles whatever is left, so rounding never
+ * leaves a remainder.
+ */
+export function buildAmortizationSchedule(
+  terms: LoanTerms,
+  balance: Money = toMoney(terms.principal, terms.currency),
+  fromNumber = 1
+): Installment[] {
+  const rate = monthlyRate(terms);
+  const payment = regularPayment(terms);
+  const flatInterest = toMoney(terms.principal * rate, terms.currency);
+  const schedule: Installment[] = [];
+
+  for (let number = fromNumber; balance > 0n && schedule.length < MAX_INSTALLMENTS; number++) {
+    const interest =
+      terms.interest_method === "flat" ? flatInterest : toMoney(moneyToNumber(balance, terms.currency) * rate, terms.currency);
+    if (payment <= interest && terms.interest_method !== "flat") break;
+
+    const principal = payment - interest < balance && number < terms.tenor_months ? payment - interest : balance;
+    balance -= principal;
+    schedule.push({
+      number,
+      dueDate: installmentDueDate(terms, number),
+      payment: principal + interest,
+      interest,
+      principal,
+      balance,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Where a loan stands after the recorded payments. The rest of the schedule is
+ * projected from the outstanding principal, so extra repayments bring the
+ * payoff date forward.
+ */
+export function computeLoanStatus(terms: LoanTerms, payments: LoanPayment[]): LoanStatus {
+  const principal = toMoney(terms.principal, terms.currency);
+  const paidPrincipal = sumMoney(payments.map((p) => toMoney(p.principal_amount ?? p.amount, terms.currency)));
+  const paidInterest = sumMoney(payments.map((p) => toMoney(p.interest_amount, terms.currency)));
+  const remaining = paidPrincipal < principal ? principal - paidPrincipal : 0n;
+  const projected = buildAmortizationSchedule(terms, remaining, payments.length + 1);
+  const paysOff = remaining > 0n && projected.length > 0 && projected[projected.length - 1].balance === 0n;
+
+  return {
+    paidPrincipal,
+    paidInterest,
+    paidInstallments: payments.length,
+    remaining,
+    percentPaid: principal > 0n ? (moneyToNumber(principal - remaining, terms.currency) / terms.principal) * 100 : 100,
+    nextInstallment: projected[0] ?? null,
+    payoffDate: paysOff ? projected[projected.length - 1].dueDate : null,
+  };
+}
@@ -0,0 +1,90 @@
+import { Money, sumMoney, toMoney } from "@/lib/utils";
+
+export type DebtDirection = "lent" | "borrowed";
+
+export const DEBT_DIRECTION_LABELS: Record<DebtDirection, string> = {
+  lent: "Piutang",
+  borrowed: "Hutang",
+};
+
+export const DEBT_DIRECTION_DESCRIPTIONS: Record<DebtDirection, string> = {
+  lent: "Saya meminjamkan uang",
+  borrowed: "Saya meminjam uang",
+};
+
+// The transaction that hands the money over: paying it out when lending,
+// receiving it when borrowing. Repayments go the other way.
+export const disbursementType = (direction: DebtDirection) => (direction === "lent" ? "expense" : "income");
+export const repaymentType = (direction: DebtDirection) => (direction === "lent" ? "income" : "expense");
+
+export interface PersonalDebtTerms {
+  direction: string;
+  amount: number;
+  currency: string;
+  due_date: string | null;
+}
+
+export interface DebtMovement {
+  type: string;
+  amount: number;
+}
+
+export interface DebtStatus {
+  repaid: Money;
+  outstanding: Money;
+  settled: boolean;
+  // Past its due date with money still outstanding.
+  overdue: boolean;
+}
+
+export function computeDebtStatus(debt: PersonalDebtTerms, movements: DebtMovement[], today: string): DebtStatus {
+  const amount = toMoney(debt.amount, debt.currency);
+  const repaid = sumMoney(
+    movements
+      .filter((m) => m.type === repaymentType(debt.direction as DebtDirection))
+      .map((m) => toMoney(m.amount, debt.currency))
+  );
+  const outstanding = repaid < amount ? amount - repaid : 0n;
+
+  return {
+    repaid,
+    outstanding,
+    settled: outstanding === 0n,
+    overdue: outstanding > 0n && !!debt.due_date && debt.due_date < today,
+  };
+}
+
+export interface CounterpartyBalance {
+  counterpartyId: string;
+  currency: string;
+  // What the person still owes the user, and what the user still owes them.
+  receivable: Money;
+  payable: Money;
+  overdue: boolean;
+}
+
+// Outstanding amounts per person and currency, largest first.
+export function summarizeByCounterparty(
+  rows: { debt: PersonalDebtTerms & { counterparty_id: string }; status: DebtStatus }[]
+): CounterpartyBalance[] {
+  const balances = new Map<string, CounterpartyBalance>();
+
+  rows.forEach(({ debt, status }) => {
+    if (status.settled) return;
+    const key = `${debt.counterparty_id}:${debt.currency}`;
+    const balance = balances.get(key) ?? {
+      counterpartyId: debt.counterparty_id,
+      currency: debt.currency,
+      receivable: 0n,
+      payable: 0n,
+      overdue: false,
+    };
+    if (debt.direction === "lent") balance.receivable += status.outstanding;
+    else balance.payable += status.outstanding;
+    balance.overdue ||= status.overdue;
+    balances.set(key, balance);
+  });
+
+  const size = (b: CounterpartyBalance) => (b.receivable > b.payable ? b.receivable : b.payable);
+  return [...balances.values()].sort((a, b) => (size(b) > size(a) ? 1 : size(b) < size(a) ? -1 : 0));
+}
@@ -0,0 +1,82 @@
+import type { TransactionFilters } from "@/lib/transaction-filters";
+
+/**
+ * React Query cache keys. Every key starts with its resource name so a whole
+ * resource can be invalidated at once, e.g. `queryKeys.transactions.all`.
+ */
+export const queryKeys = {
+  transactions: {
+    all: ["transactions"] as const,
+    list: (userId: string, filters: TransactionFilters) => ["transactions", userId, "list", filters] as const,
+  },
+  categories: {
+    all: ["categories"] as const,
+    list: (userId: string) => ["categories", userId] as const,
+  },
+  categoryUsage: {
+    all: ["category_usage"] as const,
+    detail: (userId: string, categoryId: string) => ["category_usage", userId, categoryId] as const,
+  },
+  categoryRules: {
+    all: ["category_rules"] as const,
+    list: (userId: string) => ["category_rules", userId] as const,
+  },
+  recurring: {
+    all: ["recurring"] as const,
+    list: (userId: string) => ["recurring", userId] as const,
+  },
+  bankAccounts: {
+    all: ["bank_accounts"] as const,
+    list: (userId: string) => ["bank_accounts", userId] as const,
+  },
+  creditCards: {
+    all: ["credit_cards"] as const,
+    transactions: (userId: string, since: string) => ["credit_cards", userId, "transactions", since] as const,
+  },
+  budgets: {
+    all: ["budgets"] as const,
+    progress: (userId: string, month: string, currency: string) => ["budgets", userId, "progress", month, currency] as const,
+  },
+  assets: {
+    all: ["assets"] as const,
+    list: (userId: string) => ["assets", userId] as const,
+  },
+  assetValuations: {
+    all: ["asset_valuations"] as const,
+    list: (userId: string, assetId: string) => ["asset_valuations", userId, assetId] as const,
+  },
+  liabilities: {
+    all: ["liabilities"] as const,
+    list: (userId: string) => ["liabilities", userId, "list"] as const,
+    payments: (userId: string) => ["liabilities", userId, "payments"] as const,
+  },
+  savingsGoals: {
+    all: ["savings_goals"] as const,
+    list: (userId: string) => ["savings_goals", userId, "list"] as const,
+    contributions: (userId: string) => ["savings_goals", userId, "contributions"] as const,
+    candidates: (userId: string, accountId: string) => ["savings_goals", userId, "candidates", accountId] as const,
+  },
+  personalDebts: {
+    all: ["personal_debts"] as const,
+    list: (userId: string) => ["personal_debts", userId, "list"] as const,
+    counterparties: (userId: string) => ["personal_debts", userId, "counterparties"] as const,
+    transactions: (userId: string) => ["personal_debts", userId, "transactions"] as const,
+  },
+  exchangeRates: {
+    all: ["exchange_rates"] as const,
+    list: (userId: string) => ["exchange_rates", userId] as const,
+  },
+  reports: {
+    all: ["reports"] as const,
+    cashFlow: (userId: string, from: string, to: string, currency: string) =>
+      ["reports", userId, "cash_flow", from, to, currency] as const,
+    categoryTotals: (userId: string, from: string, to: string, type: string, currency: string) =>
+      ["reports", userId, "category_totals", from, to, type, currency] as const,
+    netWorth: (userId: string, months: number, currency: string) =>
+      ["reports", userId, "net_worth", months, currency] as const,
+  },
+  dashboard: {
+    all: ["dashboard"] as const,
+    summary: (userId: string, currency: string) => ["dashboard", userId, "summary", currency] as const,
+  },
+};
@@ -0,0 +1,154 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  getDay,
+  lastDayOfMonth,
+  parseISO,
+  startOfMonth,
+} from "date-fns";
+import { id as localeID } from "date-fns/locale";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  start_date: string;
+  end_date: string | null;
+  occurrence_limit: number | null;
+  // Weekly: day of week to repeat on. Monthly: combined with week_of_month for "nth weekday" schedules.
+  weekday: number | null;
+  // 1-5 for the nth weekday of the month, -1 for the last one.
+  week_of_month: number | null;
+}
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Harian",
+  weekly: "Mingguan",
+  monthly: "Bulanan",
+  yearly: "Tahunan",
+};
+
+export const WEEKDAY_LABELS = ["Minggu", "Senin", "Selasa", "Rabu", "Kamis", "Jumat", "Sabtu"];
+
+export const WEEK_OF_MONTH_LABELS: Record<number, string> = {
+  1: "pertama",
+  2: "kedua",
+  3: "ketiga",
+  4: "keempat",
+  5: "kelima",
+  [-1]: "terakhir",
+};
+
+// Guards against runaway loops for rules that never produce a date in range.
+const MAX_ITERATIONS = 10000;
+
+const toISODate = (date: Date) => format(date, "yyyy-MM-dd");
+
+function nthWeekdayOfMonth(month: Date, weekday: number, weekOfMonth: number): Date | null {
+  if (weekOfMonth === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+
+  const first = startOfMonth(month);
+  const date = addDays(first, ((weekday - getDay(first) + 7) % 7) + (weekOfMonth - 1) * 7);
+  // A fifth weekday does not exist in every month.
+  return date.getMonth() === first.getMonth() ? date : null;
+}
+
+// Date of the nth period of the rule, or null when that period has no occurrence.
+function occurrenceAt(rule: RecurrenceRule, start: Date, n: number): Date | null {
+  const step = n * Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(start, step);
+    case "weekly": {
+      const firstWeekly = rule.weekday === null
+        ? start
+        : addDays(start, (rule.weekday - getDay(start) + 7) % 7);
+      return addWeeks(firstWeekly, step);
+    }
+    case "monthly": {
+      if (rule.weekday !== null && rule.week_of_month !== null) {
+        const date = nthWeekdayOfMonth(addMonths(startOfMonth(start), step), rule.weekday, rule.week_of_month);
+        return date && date >= start ? date : null;
+      }
+      // addMonths clamps the 29th-31st to the end of shorter months.
+      return addMonths(start, step);
+    }
+    case "yearly":
+      return addYears(start, step);
+  }
+}
+
+/**
+ * Lists the occurrence dates (yyyy-MM-dd) of a rule that fall within [from, to].
+ * The occurrence limit is counted from the rule's start date, not from `from`.
+ */
+export function listOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  const start = parseISO(rule.start_date);
+  const rangeStart = parseISO(from);
+  const rangeEnd = parseISO(to);
+  const endDate = rule.end_date ? parseISO(rule.end_date) : null;
+
+  const occurrences: string[] = [];
+  let produced = 0;
+
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const date = occurrenceAt(rule, start, n);
+    if (date === null) continue;
+    if (date > rangeEnd || (endDate && date > endDate)) break;
+    if (rule.occurrence_limit !== null && produced >= rule.occurrence_limit) break;
+
+    produced++;
+    if (date >= rangeStart) {
+      occurrences.push(toISODate(date));
+    }
+  }
+
+  return occurrences;
+}
+
+export function getNextOccurrence(rule: RecurrenceRule, after: string): string | null {
+  const from = toISODate(addDays(parseISO(after), 1));
+  // Yearly rules with a large interval still fit comfortably in this window.
+  const to = toISODate(addYears(parseISO(from), Math.max(1, rule.interval) + 1));
+  return listOccurrences(rule, from, to)[0] ?? null;
+}
+
+export function describeRule(rule: RecurrenceRule): string {
+  const every = rule.interval > 1 ? `Setiap ${rule.interval}` : "Setiap";
+  const start = parseISO(rule.start_date);
+  let description: string;
+
+  switch (rule.frequency) {
+    case "daily":
+      description = rule.interval > 1 ? `${every} hari` : "Setiap hari";
+      break;
+    case "weekly":
+      description = `${every} minggu pada hari ${WEEKDAY_LABELS[rule.weekday ?? getDay(start)]}`;
+      break;
+    case "monthly":
+      description = rule.weekday !== null && rule.week_of_month !== null
+        ? `${every} bulan pada ${WEEKDAY_LABELS[rule.weekday]} ${WEEK_OF_MONTH_LABELS[rule.week_of_month]}`
+        : `${every} bulan pada tanggal ${format(start, "d")}`;
+      break;
+    case "yearly":
+      description = `${every} tahun pada ${format(start, "d MMMM", { locale: localeID })}`;
+      break;
+  }
+
+  if (rule.end_date) {
+    description += `, sampai ${format(parseISO(rule.end_date), "d MMM yyyy", { locale: localeID })}`;
+  } else if (rule.occurrence_limit) {
+    description += `, ${rule.occurrence_limit} kali`;
+  }
+
+  return description;
+}
+
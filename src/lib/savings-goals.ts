@@ -0,0 +1,92 @@
+import { addMonths, differenceInCalendarMonths, format, parseISO, startOfMonth } from "date-fns";
+import { Money, sumMoney, toMoney } from "@/lib/utils";
+
+export interface GoalTerms {
+  target_amount: number;
+  target_date: string | null;
+  currency: string;
+  created_at: string;
+}
+
+export interface GoalContributionAmount {
+  amount: number;
+  contributed_at: string;
+}
+
+export type GoalStatus = "achieved" | "on_track" | "behind" | "overdue" | "no_target_date";
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  achieved: "Tercapai",
+  on_track: "Sesuai rencana",
+  behind: "Tertinggal",
+  overdue: "Lewat target",
+  no_target_date: "Tanpa tenggat",
+};
+
+export interface GoalProgress {
+  saved: Money;
+  remaining: Money;
+  // Share of the target saved, 0-100.
+  percent: number;
+  // Months left including the current one; null without a target date.
+  monthsLeft: number | null;
+  // Needed every month to reach the target on its date; null once reached or
+  // without a target date.
+  monthlyNeeded: Money | null;
+  // Average saved per month recently, the pace the projection assumes.
+  monthlyPace: Money;
+  // Month the target is reached at the current pace; null once reached or
+  // when nothing is being saved.
+  projectedDate: string | null;
+  status: GoalStatus;
+}
+
+// Months of recent contributions that make up the saving pace.
+export const PACE_MONTHS = 3;
+
+// Divides rounding up, so saving the result every month never falls short.
+const divideUp = (amount: Money, parts: number) => (amount + BigInt(parts) - 1n) / BigInt(parts);
+
+/**
+ * How far a goal is, what it takes to reach it on time and when it is reached
+ * at the pace of the last few months.
+ */
+export function computeGoalProgress(
+  goal: GoalTerms,
+  contributions: GoalContributionAmount[],
+  today: Date = new Date()
+): GoalProgress {
+  const target = toMoney(goal.target_amount, goal.currency);
+  const saved = sumMoney(contributions.map((c) => toMoney(c.amount, goal.currency)));
+  const remaining = saved < target ? target - saved : 0n;
+  const percent = target > 0n ? Math.min((Number(saved) / Number(target)) * 100, 100) : 100;
+
+  // The pace window never reaches back before the goal was created.
+  const thisMonth = startOfMonth(today);
+  const paceMonths = Math.min(PACE_MONTHS, differenceInCalendarMonths(thisMonth, parseISO(goal.created_at)) + 1);
+  const paceStart = format(addMonths(thisMonth, 1 - paceMonths), "yyyy-MM-dd");
+  const recent = sumMoney(
+    contributions.filter((c) => c.contributed_at >= paceStart).map((c) => toMoney(c.amount, goal.currency))
+  );
+  const monthlyPace = recent > 0n ? recent / BigInt(paceMonths) : 0n;
+
+  const projectedDate =
+    remaining > 0n && monthlyPace > 0n
+      ? format(addMonths(thisMonth, Number(divideUp(remaining, Number(monthlyPace))) - 1), "yyyy-MM-dd")
+      : null;
+
+  let monthsLeft: number | null = null;
+  let monthlyNeeded: Money | null = null;
+  let status: GoalStatus;
+  if (goal.target_date) {
+    monthsLeft = Math.max(differenceInCalendarMonths(parseISO(goal.target_date), thisMonth) + 1, 0);
+    if (remaining > 0n) monthlyNeeded = monthsLeft > 0 ? divideUp(remaining, monthsLeft) : remaining;
+  }
+
+  if (remaining === 0n) status = "achieved";
+  else if (!goal.target_date) status = "no_target_date";
+  else if (monthsLeft === 0) status = "overdue";
+  else status = projectedDate && projectedDate <= goal.target_date ? "on_track" : "behind";
+
+  return { saved, remaining, percent, monthsLeft, monthlyNeeded, monthlyPace, projectedDate, status };
+}
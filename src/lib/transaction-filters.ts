@@ -0,0 +1,97 @@
+import { TransactionType } from "@/lib/transactions";
+
+export const TRANSACTION_PAGE_SIZE = 25;
+
+export interface TransactionFilters {
+  search: string;
+  from: string;
+  to: string;
+  type: TransactionType | "";
+  categoryId: string;
+  accountId: string;
+  minAmount: string;
+  maxAmount: string;
+  page: number;
+}
+
+// URL query parameter for every filter, so a filtered view can be bookmarked.
+const PARAM_NAMES: Record<Exclude<keyof TransactionFilters, "page">, string> = {
+  search: "q",
+  from: "from",
+  to: "to",
+  type: "type",
+  categoryId: "category",
+  accountId: "account",
+  minAmount: "min",
+  maxAmount: "max",
+};
+
+const TRANSACTION_TYPES: TransactionType[] = ["income", "expense", "transfer"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const EMPTY_TRANSACTION_FILTERS: TransactionFilters = {
+  search: "",
+  from: "",
+  to: "",
+  type: "",
+  categoryId: "",
+  accountId: "",
+  minAmount: "",
+  maxAmount: "",
+  page: 1,
+};
+
+// Reads the filters from the URL, dropping values that are malformed.
+export function parseTransactionFilters(params: URLSearchParams): TransactionFilters {
+  const get = (key: keyof typeof PARAM_NAMES) => (params.get(PARAM_NAMES[key]) || "").trim();
+  const date = (key: "from" | "to") => (DATE_PATTERN.test(get(key)) ? get(key) : "");
+  const amount = (key: "minAmount" | "maxAmount") => (AMOUNT_PATTERN.test(get(key)) ? get(key) : "");
+  // Ids end up inside PostgREST filter expressions, so only real ids pass.
+  const id = (key: "categoryId" | "accountId") => (UUID_PATTERN.test(get(key)) ? get(key) : "");
+  const type = get("type") as TransactionType;
+  const page = parseInt(params.get("page") || "", 10);
+
+  return {
+    search: get("search"),
+    from: date("from"),
+    to: date("to"),
+    type: TRANSACTION_TYPES.includes(type) ? type : "",
+    categoryId: id("categoryId"),
+    accountId: id("accountId"),
+    minAmount: amount("minAmount"),
+    maxAmount: amount("maxAmount"),
+    page: page > 1 ? page : 1,
+  };
+}
+
+// Inverse of parseTransactionFilters; empty filters and page 1 are left out.
+export function toTransactionSearchParams(filters: TransactionFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof typeof PARAM_NAMES)[]).forEach((key) => {
+    if (filters[key]) params.set(PARAM_NAMES[key], filters[key]);
+  });
+  if (filters.page > 1) params.set("page", filters.page.toString());
+  return params;
+}
+
+export function countActiveFilters(filters: TransactionFilters): number {
+  return (Object.keys(PARAM_NAMES) as (keyof typeof PARAM_NAMES)[]).filter((key) => filters[key]).length;
+}
+
+/**
+ * Page numbers to show in the pager: the first and last page, and the pages
+ * around the current one. `null` marks a gap rendered as an ellipsis.
+ */
+export function getPageWindow(page: number, pageCount: number, siblings = 1): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= siblings) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
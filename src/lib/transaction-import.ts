@@ -0,0 +1,203 @@
+import { format, isValid } from "date-fns";
+
+export type ImportField = "transaction_date" | "description" | "amount" | "type" | "category";
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  transaction_date: "Tanggal",
+  description: "Deskripsi",
+  amount: "Jumlah",
+  type: "Tipe",
+  category: "Kategori",
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["transaction_date", "description", "amount"];
+
+// Header names (lowercase) recognised when guessing the column mapping.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  transaction_date: ["tanggal", "tgl", "date", "transaction_date", "tanggal transaksi"],
+  description: ["deskripsi", "keterangan", "description", "uraian", "catatan"],
+  amount: ["jumlah", "nominal", "amount", "nilai", "mutasi"],
+  type: ["tipe", "jenis", "type", "db/cr"],
+  category: ["kategori", "category"],
+};
+
+export interface ImportCategory {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface ParsedTransaction {
+  transaction_date: string;
+  description: string;
+  amount: number;
+  type: "income" | "expense";
+  category_id: string | null;
+}
+
+export interface ImportRow {
+  // 1-based line number in the source file, for error messages.
+  line: number;
+  values: string[];
+  errors: string[];
+  transaction: ParsedTransaction | null;
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+
+  (Object.keys(HEADER_ALIASES) as ImportField[]).forEach((field) => {
+    const index = normalized.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+  });
+
+  return mapping;
+}
+
+/**
+ * Parses amounts written the Indonesian way ("1.250.000,00", "Rp 50.000") as
+ * well as plain or English formatted numbers ("1250000", "1,250,000.00").
+ * Parentheses and a leading or trailing minus mark negative amounts.
+ */
+export function parseAmount(input: string): number | null {
+  let value = input.trim().replace(/^rp\.?/i, "").replace(/\s/g, "");
+  if (value === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith("-") || value.endsWith("-")) {
+    negative = true;
+    value = value.replace(/^-|-$/g, "");
+  }
+  value = value.replace(/^rp\.?/i, "");
+
+  const lastDot = value.lastIndexOf(".");
+  const lastComma = value.lastIndexOf(",");
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Whichever separator comes last is the decimal separator.
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? "." : ",";
+    value = value.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma >= 0) {
+    // "12,5" is a decimal, "1,250,000" uses commas for thousands.
+    value = /^\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, "") : value.replace(",", ".");
+  } else if (lastDot >= 0) {
+    // Indonesian thousands separators: "1.250" and "1.250.000" are whole numbers.
+    if (/^\d{1,3}(\.\d{3})+$/.test(value)) value = value.replace(/\./g, "");
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+  const amount = Number(value);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parses dd/mm/yyyy dates (also with "-" or "." separators and two-digit years)
+ * and ISO yyyy-mm-dd dates into yyyy-MM-dd.
+ */
+export function parseDate(input: string): string | null {
+  const value = input.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dmy = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dmy) {
+    [day, month, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    if (dmy[3].length === 2) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Reject overflowing dates such as 31/02/2026.
+  if (!isValid(date) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return format(date, "yyyy-MM-dd");
+}
+
+export function parseTransactionType(input: string): "income" | "expense" | null {
+  const value = input.trim().toLowerCase();
+  if (["income", "pemasukan", "masuk", "cr", "kredit", "credit", "k"].includes(value)) return "income";
+  if (["expense", "pengeluaran", "keluar", "db", "debit", "d"].includes(value)) return "expense";
+  return null;
+}
+
+/**
+ * Validates the data rows of an import against the column mapping. When no type
+ * column is mapped, negative amounts are expenses and positive ones income.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  categories: ImportCategory[],
+  firstLine = 1
+): ImportRow[] {
+  return rows.map((values, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (values[column] || "").trim();
+    };
+
+    const transactionDate = parseDate(cell("transaction_date"));
+    if (!transactionDate) errors.push(`Tanggal tidak valid: "${cell("transaction_date")}"`);
+
+    const description = cell("description");
+    if (!description) errors.push("Deskripsi kosong");
+
+    const rawAmount = parseAmount(cell("amount"));
+    if (rawAmount === null || rawAmount === 0) errors.push(`Jumlah tidak valid: "${cell("amount")}"`);
+
+    let type: "income" | "expense" | null = null;
+    if (mapping.type !== null) {
+      type = parseTransactionType(cell("type"));
+      if (!type) errors.push(`Tipe tidak dikenali: "${cell("type")}"`);
+    } else if (rawAmount !== null) {
+      type = rawAmount < 0 ? "expense" : "income";
+    }
+
+    let categoryId: string | null = null;
+    const categoryName = cell("category").toLowerCase();
+    if (categoryName && type) {
+      const category = categories.find((c) => c.type === type && c.name.toLowerCase() === categoryName);
+      if (category) categoryId = category.id;
+      else errors.push(`Kategori tidak ditemukan: "${cell("category")}"`);
+    }
+
+    return {
+      line: firstLine + index,
+      values,
+      errors,
+      transaction: errors.length === 0
+        ? {
+            transaction_date: transactionDate!,
+            description,
+            amount: Math.abs(rawAmount!),
+            type: type!,
+            category_id: categoryId,
+          }
+        : null,
+    };
+  });
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,39 @@
+import { Money, parseMoney, sumMoney } from "@/lib/utils";
+
+export interface CategoryLineForm {
+  category_id: string;
+  amount: string;
+  note: string;
+}
+
+export const emptyCategoryLine = (): CategoryLineForm => ({ category_id: "", amount: "", note: "" });
+
+// Amount of every line, or a message for the first problem found. Lines must
+// each have a category and together add up exactly to the transaction.
+export function parseCategoryLines(
+  lines: CategoryLineForm[],
+  total: Money,
+  currency: string
+): Money[] | string {
+  if (lines.length < 2) return "Rincian kategori butuh minimal dua baris";
+  if (lines.some((line) => !line.category_id)) return "Pilih kategori untuk setiap baris";
+
+  const amounts = lines.map((line) => parseMoney(line.amount, currency));
+  if (amounts.some((amount) => amount === null || amount <= 0n)) return "Jumlah baris tidak valid";
+  if (sumMoney(amounts as Money[]) !== total) return "Jumlah semua baris harus sama dengan total transaksi";
+  return amounts as Money[];
+}
+
+// What is left to allocate; negative when the lines exceed the total.
+export function unallocatedAmount(lines: CategoryLineForm[], total: Money, currency: string): Money {
+  return total - sumMoney(lines.map((line) => parseMoney(line.amount, currency) ?? 0n));
+}
+
+// The transaction itself keeps the category of its largest line.
+export function mainLineCategory(lines: { category_id: string }[], amounts: Money[]): string {
+  let main = 0;
+  amounts.forEach((amount, i) => {
+    if (amount > amounts[main]) main = i;
+  });
+  return lines[main].category_id;
+}
@@ -0,0 +1,57 @@
+import { Money, moneyToDecimal, parseMoney, sumMoney } from "@/lib/utils";
+
+export type SplitMethod = "equal" | "exact" | "percentage";
+
+export const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: "Sama rata",
+  exact: "Jumlah pasti",
+  percentage: "Persentase",
+};
+
+export interface SplitShares {
+  // One share per other person, in the order of the values.
+  shares: Money[];
+  // What is left for the user, counted as their expense.
+  ownShare: Money;
+}
+
+// Shares of the other people in an expense. An equal split counts the user as
+// one of the people and leaves them the rounding remainder; exact amounts and
+// percentages leave them whatever the others do not cover. Returns null when a
+// value is invalid, a share comes to nothing or the shares exceed the expense.
+export function computeSplitShares(
+  total: Money,
+  method: SplitMethod,
+  values: string[],
+  currency: string
+): SplitShares | null {
+  let shares: Money[];
+
+  if (method === "equal") {
+    const share = total / BigInt(values.length + 1);
+    shares = values.map(() => share);
+  } else if (method === "exact") {
+    const parsed = values.map((value) => parseMoney(value, currency));
+    if (parsed.some((share) => share === null)) return null;
+    shares = parsed as Money[];
+  } else {
+    const basisPoints = values.map((value) => Math.round(Number(value) * 100));
+    if (basisPoints.some((bp) => !Number.isFinite(bp) || bp <= 0)) return null;
+    shares = basisPoints.map((bp) => (total * BigInt(bp)) / 10000n);
+  }
+
+  // A share that rounds down to nothing would be a debt of zero.
+  if (shares.some((share) => share <= 0n)) return null;
+
+  const ownShare = total - sumMoney(shares);
+  return ownShare < 0n ? null : { shares, ownShare };
+}
+
+// The form values that reproduce saved shares.
+export function splitValuesFromShares(total: Money, method: SplitMethod, shares: Money[], currency: string): string[] {
+  if (method === "exact") return shares.map((share) => moneyToDecimal(share, currency));
+  if (method === "percentage") {
+    return shares.map((share) => (total > 0n ? (Number((share * 10000n) / total) / 100).toString() : ""));
+  }
+  return shares.map(() => "");
+}
@@ -0,0 +1,43 @@
+import { Money, toMoney } from "@/lib/utils";
+
+export type TransactionType = "income" | "expense" | "transfer";
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  income: "Pemasukan",
+  expense: "Pengeluaran",
+  transfer: "Transfer",
+};
+
+interface AccountMovement {
+  type: string;
+  amount: number;
+  fee?: number | null;
+  account_id: string | null;
+  to_account_id?: string | null;
+  // Amount received by the destination of a transfer between currencies.
+  to_amount?: number | null;
+}
+
+// Transfers only move money between accounts, so they never count as income or expense.
+export function isIncomeOrExpense(type: TransactionType): type is "income" | "expense" {
+  return type === "income" || type === "expense";
+}
+
+// Signed effect of a transaction on the balance of the given account, in the
+// account's currency. Mirrors public.bank_account_transaction_total in the database.
+export function getAccountEffect(transaction: AccountMovement, accountId: string, currency?: string): Money {
+  let effect = 0n;
+
+  if (transaction.account_id === accountId) {
+    const amount = toMoney(transaction.amount, currency);
+    if (transaction.type === "income") effect += amount;
+    else if (transaction.type === "transfer") effect -= amount + toMoney(transaction.fee, currency);
+    else effect -= amount;
+  }
+
+  if (transaction.type === "transfer" && transaction.to_account_id === accountId) {
+    effect += toMoney(transaction.to_amount ?? transaction.amount, currency);
+  }
+
+  return effect;
+}
@@ -5,12 +5,14 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number): string {
+// Whole amounts are shown without fraction digits, others with the currency's precision.
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const decimals = getCurrencyDecimals(currency);
   return new Intl.NumberFormat('id-ID', {
     style: 'currency',
-    currency: 'IDR',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : decimals,
+    maximumFractionDigits: decimals,
   }).format(amount);
 }
 
@@ -18,3 +20,109 @@ export function formatNumber(value: string): string {
   const number = value.replace(/\D/g, '');
   return new Intl.NumberFormat('id-ID').format(Number(number));
 }
+
+/**
+ * An exact amount of money in integer minor units of its currency (sen, cents,
+ * satoshi). Amounts are converted to Money before they are added up, so sums
+ * never pick up floating point rounding errors.
+ */
+export type Money = bigint;
+
+export const DEFAULT_CURRENCY = 'IDR';
+
+// Currencies whose precision Intl does not know.
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BTC: 8,
+  ETH: 18,
+};
+
+// Number of minor-unit digits of a currency: 2 for IDR and USD, 0 for JPY, ...
+export function getCurrencyDecimals(currency: string = DEFAULT_CURRENCY): number {
+  if (currency in CURRENCY_DECIMALS) return CURRENCY_DECIMALS[currency];
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits;
+  } catch {
+    return 2;
+  }
+}
+
+function decimalToMinor(sign: string | undefined, whole: string, fraction: string, decimals: number): Money {
+  const minor = BigInt((whole || '0') + fraction.padEnd(decimals, '0'));
+  return sign ? -minor : minor;
+}
+
+/**
+ * Parses an amount typed by the user ("1500", "1500.25", "1500,25"). Returns
+ * null for anything that is not a plain decimal number or that has more
+ * fraction digits than the currency allows, instead of rounding silently.
+ */
+export function parseMoney(input: string, currency: string = DEFAULT_CURRENCY): Money | null {
+  const match = input.trim().match(/^(-)?(\d+)(?:[.,](\d*))?$/);
+  if (!match) return null;
+
+  const [, sign, whole, fraction = ''] = match;
+  const decimals = getCurrencyDecimals(currency);
+  if (fraction.length > decimals) return null;
+  return decimalToMinor(sign, whole, fraction, decimals);
+}
+
+// String() gives the shortest representation that reads back as the same
+// number, i.e. the decimal that was stored, except for the exponent notation
+// used for very large and very small numbers.
+function numberToDecimal(value: number): string {
+  if (Number.isInteger(value)) return BigInt(value).toString();
+  const text = String(value);
+  return text.includes('e') ? value.toFixed(20) : text;
+}
+
+/**
+ * Converts an amount read from the database (numeric columns arrive as numbers)
+ * to Money, rounding half away from zero to the currency's precision.
+ */
+export function toMoney(value: number | string | null | undefined, currency: string = DEFAULT_CURRENCY): Money {
+  if (value === null || value === undefined || value === '') return 0n;
+
+  const text = typeof value === 'number' ? numberToDecimal(value) : value.trim();
+  const match = text.match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match) throw new Error(`Invalid amount: ${value}`);
+
+  const [, sign, whole, fraction = ''] = match;
+  const decimals = getCurrencyDecimals(currency);
+  const minor = decimalToMinor(undefined, whole, fraction.slice(0, decimals), decimals);
+  const rounded = Number(fraction[decimals] ?? 0) >= 5 ? minor + 1n : minor;
+  return sign ? -rounded : rounded;
+}
+
+// "1234.50" for 123450 minor units of a two-digit currency.
+export function moneyToDecimal(money: Money, currency: string = DEFAULT_CURRENCY): string {
+  const decimals = getCurrencyDecimals(currency);
+  const digits = (money < 0n ? -money : money).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = decimals > 0 ? `.${digits.slice(-decimals)}` : '';
+  return `${money < 0n ? '-' : ''}${whole}${fraction}`;
+}
+
+/**
+ * Money as a plain number, for charts and calculations. Exact only up to 15
+ * significant digits; write amounts with moneyToNumeric instead.
+ */
+export function moneyToNumber(money: Money, currency: string = DEFAULT_CURRENCY): number {
+  return Number(moneyToDecimal(money, currency));
+}
+
+/**
+ * Money for a numeric column: the exact decimal text, which PostgREST parses
+ * into numeric without the rounding of a JS number. Typed as a number because
+ * that is how the generated column types describe numeric.
+ */
+export function moneyToNumeric(money: Money, currency: string = DEFAULT_CURRENCY): number {
+  return moneyToDecimal(money, currency) as unknown as number;
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+export function formatMoney(money: Money, currency: string = DEFAULT_CURRENCY): string {
+  return formatCurrency(moneyToNumber(money, currency), currency);
+}
@@ -1,5 +1,4 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,106 +24,82 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, LineChart } from "lucide-react";
 import { toast } from "sonner";
-import { formatCurrency } from "@/lib/utils";
+import { DEFAULT_CURRENCY, formatCurrency, formatMoney, moneyToNumeric, parseMoney } from "@/lib/utils";
 import { format } from "date-fns";
-
-// Definisikan tipe data untuk Aset
-interface Asset {
-  id: string;
-  name: string;
-  type: string;
-  acquired_at: string; // Ganti ini
-  initial_value: number;
-  current_value: number;
-}
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { Asset, useAssets, useCreateAsset, useDeleteAsset, useUpdateAsset } from "@/hooks/use-assets";
+import { AssetValuationDialog } from "@/components/assets/AssetValuationDialog";
+import { computeAssetPerformance, formatPercent, gainClass, summarizePortfolio } from "@/lib/assets";
 
 export default function Assets() {
   const { user } = useAuth();
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: assets = [], isLoading: loading } = useAssets();
+  const createAsset = useCreateAsset();
+  const updateAsset = useUpdateAsset();
+  const deleteAsset = useDeleteAsset();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null);
+  // Looked up by id so the dialog follows the refetched current value.
+  const [valuationAssetId, setValuationAssetId] = useState<string | null>(null);
+  const valuationAsset = assets.find((asset) => asset.id === valuationAssetId) ?? null;
+  const portfolio = summarizePortfolio(assets);
   const [formData, setFormData] = useState({
     name: "",
     type: "",
     acquired_at: "", // Ganti ini
     initial_value: "",
     current_value: "",
+    currency: DEFAULT_CURRENCY,
   });
 
-  useEffect(() => {
-    if (user) {
-      fetchAssets();
-    }
-  }, [user]);
-
-  const fetchAssets = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("assets")
-        .select("*")
-        .eq("user_id", user!.id)
-        .order("acquired_at", { ascending: false }); // Ganti ini
-
-      if (error) throw error;
-      setAssets(data || []);
-    } catch (error) {
-      console.error("Error fetching assets:", error);
-      toast.error("Gagal memuat data aset");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    try {
-      const assetData = {
-        user_id: user!.id,
-        name: formData.name,
-        type: formData.type,
-        acquired_at: formData.acquired_at, // Ganti ini
-        initial_value: parseFloat(formData.initial_value),
-        current_value: parseFloat(formData.current_value),
-      };
-
-      if (editingAsset) {
-        const { error } = await supabase
-          .from("assets")
-          .update(assetData)
-          .eq("id", editingAsset.id);
-
-        if (error) throw error;
-        toast.success("Aset berhasil diperbarui");
-      } else {
-        const { error } = await supabase.from("assets").insert(assetData);
+    const initialValue = parseMoney(formData.initial_value, formData.currency);
+    const currentValue = parseMoney(formData.current_value, formData.currency);
+    if (initialValue === null || initialValue < 0n || currentValue === null || currentValue < 0n) {
+      toast.error("Nilai aset tidak valid");
+      return;
+    }
 
-        if (error) throw error;
-        toast.success("Aset berhasil ditambahkan");
-      }
+    const assetData = {
+      user_id: user!.id,
+      name: formData.name,
+      type: formData.type,
+      acquired_at: formData.acquired_at, // Ganti ini
+      initial_value: moneyToNumeric(initialValue, formData.currency),
+      currency: formData.currency,
+    };
 
-      setDialogOpen(false);
-      fetchAssets();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menyimpan aset");
+    // Once created, the current value follows the valuation log.
+    if (editingAsset) {
+      updateAsset.mutate(
+        { id: editingAsset.id, changes: assetData },
+        { onSuccess: () => toast.success("Aset berhasil diperbarui") }
+      );
+    } else {
+      createAsset.mutate({ ...assetData, current_value: moneyToNumeric(currentValue, formData.currency) }, {
+        onSuccess: () => toast.success("Aset berhasil ditambahkan"),
+      });
     }
+
+    setDialogOpen(false);
   };
-  
-  const handleDelete = async (id: string) => {
+
+  const handleDelete = (id: string) => {
     if (!confirm("Apakah Anda yakin ingin menghapus aset ini?")) return;
 
-    try {
-      const { error } = await supabase.from("assets").delete().eq("id", id);
-      if (error) throw error;
-      toast.success("Aset berhasil dihapus");
-      fetchAssets();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menghapus aset");
-    }
+    deleteAsset.mutate(id, {
+      onSuccess: () => toast.success("Aset berhasil dihapus"),
+    });
   };
 
   const openEditDialog = (asset: Asset) => {
@@ -135,6 +110,7 @@ export default function Assets() {
       acquired_at: asset.acquired_at, // Ganti ini
       initial_value: asset.initial_value.toString(),
       current_value: asset.current_value.toString(),
+      currency: asset.currency,
     });
     setDialogOpen(true);
   };
@@ -147,6 +123,7 @@ export default function Assets() {
       acquired_at: new Date().toISOString().substring(0, 10), // Ganti ini
       initial_value: "",
       current_value: "",
+      currency: DEFAULT_CURRENCY,
     });
     setDialogOpen(true);
   }
@@ -199,14 +176,32 @@ export default function Assets() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="initial_value">Nilai Awal</Label>
-                <Input id="initial_value" type="number" value={formData.initial_value} onChange={(e) => setFormData({ ...formData, initial_value: e.target.value })} required />
+                <Label htmlFor="currency">Mata Uang</Label>
+                <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.currency} />
+                  </SelectContent>
+                </Select>
               </div>
-              
+
               <div className="space-y-2">
-                <Label htmlFor="current_value">Nilai Saat Ini</Label>
-                <Input id="current_value" type="number" value={formData.current_value} onChange={(e) => setFormData({ ...formData, current_value: e.target.value })} required />
+                <Label htmlFor="initial_value">Nilai Awal</Label>
+                <Input id="initial_value" type="number" step="any" value={formData.initial_value} onChange={(e) => setFormData({ ...formData, initial_value: e.target.value })} required />
               </div>
+              
+              {editingAsset ? (
+                <p className="text-sm text-muted-foreground">
+                  Nilai saat ini diperbarui lewat riwayat nilai aset.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="current_value">Nilai Saat Ini</Label>
+                  <Input id="current_value" type="number" step="any" value={formData.current_value} onChange={(e) => setFormData({ ...formData, current_value: e.target.value })} required />
+                </div>
+              )}
 
               <Button type="submit" className="w-full">
                 {editingAsset ? "Perbarui" : "Simpan"} Aset
@@ -216,6 +211,49 @@ export default function Assets() {
         </Dialog>
       </div>
 
+      {portfolio.map((summary) => (
+        <div key={summary.currency} className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Nilai Portofolio{portfolio.length > 1 ? ` (${summary.currency})` : ""}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(summary.currentValue, summary.currency)}</div>
+              <p className="text-xs text-muted-foreground">{summary.count} aset</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Total Modal</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(summary.initialValue, summary.currency)}</div>
+              <p className="text-xs text-muted-foreground">Jumlah nilai awal</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Keuntungan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${gainClass(summary.gain)}`}>
+                {summary.gain > 0n ? "+" : ""}{formatMoney(summary.gain, summary.currency)}
+              </div>
+              <p className="text-xs text-muted-foreground">{formatPercent(summary.gainPercent)} dari modal</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Return Tahunan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatPercent(summary.annualizedPercent)}</div>
+              <p className="text-xs text-muted-foreground">Rata-rata sejak akuisisi</p>
+            </CardContent>
+          </Card>
+        </div>
+      ))}
+
       <Card>
         <CardHeader>
           <CardTitle>Daftar Aset</CardTitle>
@@ -229,18 +267,35 @@ export default function Assets() {
                 <TableHead>Tanggal Akuisisi</TableHead>
                 <TableHead className="text-right">Nilai Awal</TableHead>
                 <TableHead className="text-right">Nilai Saat Ini</TableHead>
+                <TableHead className="text-right">Keuntungan</TableHead>
+                <TableHead className="text-right">Return/Tahun</TableHead>
                 <TableHead className="text-right">Aksi</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {assets.length > 0 ? assets.map((asset) => (
+              {assets.length > 0 ? assets.map((asset) => {
+                const performance = computeAssetPerformance(asset);
+                return (
                 <TableRow key={asset.id}>
                   <TableCell className="font-medium">{asset.name}</TableCell>
                   <TableCell>{asset.type}</TableCell>
                   <TableCell>{format(new Date(asset.acquired_at), "d MMMM yyyy")}</TableCell> {/* Ganti ini */}
-                  <TableCell className="text-right">{formatCurrency(asset.initial_value)}</TableCell>
-                  <TableCell className="text-right font-semibold">{formatCurrency(asset.current_value)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(asset.initial_value, asset.currency)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(asset.current_value, asset.currency)}</TableCell>
+                  <TableCell className={`text-right ${gainClass(performance.gain)}`}>
+                    <div>{performance.gain > 0n ? "+" : ""}{formatMoney(performance.gain, asset.currency)}</div>
+                    <div className="text-xs">{formatPercent(performance.gainPercent)}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(performance.annualizedPercent)}</TableCell>
                   <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Riwayat nilai"
+                      onClick={() => setValuationAssetId(asset.id)}
+                    >
+                      <LineChart className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -257,9 +312,10 @@ export default function Assets() {
                     </Button>
                   </TableCell>
                 </TableRow>
-              )) : (
+                );
+              }) : (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center h-24">
+                  <TableCell colSpan={8} className="text-center h-24">
                     Belum ada aset. Mulai tambahkan aset Anda.
                   </TableCell>
                 </TableRow>
@@ -268,6 +324,11 @@ export default function Assets() {
           </Table>
         </CardContent>
       </Card>
+
+      <AssetValuationDialog
+        asset={valuationAsset}
+        onOpenChange={(open) => !open && setValuationAssetId(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
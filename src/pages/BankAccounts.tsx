@@ -1,5 +1,4 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -26,125 +25,176 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Trash2, History, Receipt } from "lucide-react";
 import { toast } from "sonner";
-import { formatCurrency } from "@/lib/utils";
+import { DEFAULT_CURRENCY, formatCurrency, formatMoney, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { parseAmount } from "@/lib/transaction-import";
+import {
+  ACCOUNT_TYPE_LABELS,
+  AccountType,
+  DEFAULT_MINIMUM_PAYMENT_AMOUNT,
+  DEFAULT_MINIMUM_PAYMENT_PERCENT,
+  STATEMENT_HISTORY_PERIODS,
+} from "@/lib/credit-cards";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { AccountHistoryDialog } from "@/components/bank-accounts/AccountHistoryDialog";
+import { CreditCardStatementDialog } from "@/components/bank-accounts/CreditCardStatementDialog";
+import { useCreditCards } from "@/hooks/use-credit-cards";
+import {
+  BankAccount,
+  useBankAccounts,
+  useCreateBankAccount,
+  useDeleteBankAccount,
+  useUpdateBankAccount,
+} from "@/hooks/use-bank-accounts";
 
-// Definisikan tipe data untuk Rekening Bank
-interface BankAccount {
-  id: string;
-  bank_name: string;
-  account_number: string;
-  account_holder_name: string;
-  balance: number;
-}
+const EMPTY_FORM = {
+  account_type: "bank" as AccountType,
+  bank_name: "",
+  account_number: "",
+  account_holder_name: "",
+  opening_balance: "",
+  currency: DEFAULT_CURRENCY,
+  credit_limit: "",
+  statement_day: "",
+  payment_due_day: "",
+  minimum_payment_percent: String(DEFAULT_MINIMUM_PAYMENT_PERCENT),
+  minimum_payment_amount: String(DEFAULT_MINIMUM_PAYMENT_AMOUNT),
+};
+
+const isValidDay = (day: number) => Number.isInteger(day) && day >= 1 && day <= 31;
 
 export default function BankAccounts() {
   const { user } = useAuth();
-  const [accounts, setAccounts] = useState<BankAccount[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: accounts = [], isLoading: loading } = useBankAccounts();
+  const { cards } = useCreditCards(STATEMENT_HISTORY_PERIODS);
+  const createAccount = useCreateBankAccount();
+  const updateAccount = useUpdateBankAccount();
+  const deleteAccount = useDeleteBankAccount();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
-  const [formData, setFormData] = useState({
-    bank_name: "",
-    account_number: "",
-    account_holder_name: "",
-    balance: "",
-  });
-
-  useEffect(() => {
-    if (user) {
-      fetchBankAccounts();
-    }
-  }, [user]);
+  const [historyAccount, setHistoryAccount] = useState<BankAccount | null>(null);
+  const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
-  const fetchBankAccounts = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from("bank_accounts")
-        .select("*")
-        .eq("user_id", user!.id)
-        .order("bank_name", { ascending: true });
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
 
-      if (error) throw error;
-      setAccounts(data || []);
-    } catch (error) {
-      console.error("Error fetching bank accounts:", error);
-      toast.error("Gagal memuat data rekening bank");
-    } finally {
-      setLoading(false);
+    const isCard = formData.account_type === "credit_card";
+    const openingBalance = parseMoney(formData.opening_balance, formData.currency);
+    if (openingBalance === null || (isCard && openingBalance < 0n)) {
+      toast.error(isCard ? "Tagihan awal tidak valid" : "Saldo awal tidak valid");
+      return;
     }
-  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+    let cardTerms = {
+      credit_limit: null,
+      statement_day: null,
+      payment_due_day: null,
+      minimum_payment_percent: null,
+      minimum_payment_amount: null,
+    };
+    if (isCard) {
+      const creditLimit = parseMoney(formData.credit_limit, formData.currency);
+      const minimumAmount = parseMoney(formData.minimum_payment_amount || "0", formData.currency);
+      const minimumPercent = parseAmount(formData.minimum_payment_percent || "0");
+      const statementDay = Number(formData.statement_day);
+      const dueDay = Number(formData.payment_due_day);
 
-    try {
-      const accountData = {
-        user_id: user!.id,
-        bank_name: formData.bank_name,
-        account_number: formData.account_number,
-        account_holder_name: formData.account_holder_name,
-        balance: parseFloat(formData.balance),
-      };
+      if (creditLimit === null || creditLimit <= 0n) {
+        toast.error("Limit kartu kredit tidak valid");
+        return;
+      }
+      if (!isValidDay(statementDay) || !isValidDay(dueDay)) {
+        toast.error("Tanggal cetak tagihan dan jatuh tempo harus antara 1 dan 31");
+        return;
+      }
+      if (minimumPercent === null || minimumPercent < 0 || minimumPercent > 100 || minimumAmount === null || minimumAmount < 0n) {
+        toast.error("Ketentuan pembayaran minimum tidak valid");
+        return;
+      }
 
-      if (editingAccount) {
-        const { error } = await supabase
-          .from("bank_accounts")
-          .update(accountData)
-          .eq("id", editingAccount.id);
+      cardTerms = {
+        credit_limit: moneyToNumeric(creditLimit, formData.currency),
+        statement_day: statementDay,
+        payment_due_day: dueDay,
+        minimum_payment_percent: minimumPercent,
+        minimum_payment_amount: moneyToNumeric(minimumAmount, formData.currency),
+      };
+    }
 
-        if (error) throw error;
-        toast.success("Rekening bank berhasil diperbarui");
-      } else {
-        const { error } = await supabase.from("bank_accounts").insert(accountData);
-        if (error) throw error;
-        toast.success("Rekening bank berhasil ditambahkan");
-      }
+    const accountData = {
+      user_id: user!.id,
+      account_type: formData.account_type,
+      bank_name: formData.bank_name,
+      account_number: formData.account_number,
+      account_holder_name: formData.account_holder_name,
+      // What is owed on a card is entered as a positive amount but kept as a
+      // negative balance.
+      opening_balance: moneyToNumeric(isCard ? -openingBalance : openingBalance, formData.currency),
+      currency: formData.currency,
+      ...cardTerms,
+    };
 
-      setDialogOpen(false);
-      fetchBankAccounts();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menyimpan rekening bank");
+    if (editingAccount) {
+      updateAccount.mutate(
+        { id: editingAccount.id, changes: accountData },
+        { onSuccess: () => toast.success("Rekening bank berhasil diperbarui") }
+      );
+    } else {
+      createAccount.mutate(accountData, {
+        onSuccess: () => toast.success("Rekening bank berhasil ditambahkan"),
+      });
     }
+
+    setDialogOpen(false);
   };
-  
-  const handleDelete = async (id: string) => {
+
+  const handleDelete = (id: string) => {
     if (!confirm("Apakah Anda yakin ingin menghapus rekening ini?")) return;
 
-    try {
-      const { error } = await supabase.from("bank_accounts").delete().eq("id", id);
-      if (error) throw error;
-      toast.success("Rekening bank berhasil dihapus");
-      fetchBankAccounts();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menghapus rekening bank");
-    }
+    deleteAccount.mutate(id, {
+      onSuccess: () => toast.success("Rekening bank berhasil dihapus"),
+    });
   };
 
   const openEditDialog = (account: BankAccount) => {
     setEditingAccount(account);
+    const isCard = account.account_type === "credit_card";
     setFormData({
+      account_type: account.account_type as AccountType,
       bank_name: account.bank_name,
       account_number: account.account_number,
       account_holder_name: account.account_holder_name,
-      balance: account.balance.toString(),
+      opening_balance: (isCard ? -account.opening_balance : account.opening_balance).toString(),
+      currency: account.currency,
+      credit_limit: account.credit_limit?.toString() ?? "",
+      statement_day: account.statement_day?.toString() ?? "",
+      payment_due_day: account.payment_due_day?.toString() ?? "",
+      minimum_payment_percent: (account.minimum_payment_percent ?? DEFAULT_MINIMUM_PAYMENT_PERCENT).toString(),
+      minimum_payment_amount: (account.minimum_payment_amount ?? DEFAULT_MINIMUM_PAYMENT_AMOUNT).toString(),
     });
     setDialogOpen(true);
   };
   
   const openNewDialog = () => {
     setEditingAccount(null);
-    setFormData({
-      bank_name: "",
-      account_number: "",
-      account_holder_name: "",
-      balance: "",
-    });
+    setFormData(EMPTY_FORM);
     setDialogOpen(true);
   }
 
+  const isCardForm = formData.account_type === "credit_card";
+  const statementCard = cards.find((card) => card.account.id === statementAccountId) ?? null;
+  const availableCredit = new Map(cards.map((card) => [card.account.id, card.status.availableCredit]));
+
   if (loading) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -180,6 +230,23 @@ export default function BankAccounts() {
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="account_type">Jenis Rekening</Label>
+                <Select
+                  value={formData.account_type}
+                  onValueChange={(value) => setFormData({ ...formData, account_type: value as AccountType })}
+                >
+                  <SelectTrigger id="account_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="bank_name">Nama Bank</Label>
                 <Input id="bank_name" value={formData.bank_name} onChange={(e) => setFormData({ ...formData, bank_name: e.target.value })} placeholder="Contoh: Bank BCA" required />
@@ -191,15 +258,71 @@ export default function BankAccounts() {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="account_number">Nomor Rekening</Label>
+                <Label htmlFor="account_number">{isCardForm ? "Nomor Kartu" : "Nomor Rekening"}</Label>
                 <Input id="account_number" type="text" value={formData.account_number} onChange={(e) => setFormData({ ...formData, account_number: e.target.value })} required />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="balance">Saldo Saat Ini</Label>
-                <Input id="balance" type="number" value={formData.balance} onChange={(e) => setFormData({ ...formData, balance: e.target.value })} required />
+                <Label htmlFor="currency">Mata Uang</Label>
+                <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.currency} />
+                  </SelectContent>
+                </Select>
+                {editingAccount && (
+                  <p className="text-xs text-muted-foreground">
+                    Mata uang hanya bisa diubah selama belum ada transaksi pada rekening ini.
+                  </p>
+                )}
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="opening_balance">{isCardForm ? "Tagihan Awal" : "Saldo Awal"}</Label>
+                <Input id="opening_balance" type="number" step="any" value={formData.opening_balance} onChange={(e) => setFormData({ ...formData, opening_balance: e.target.value })} required />
+                <p className="text-xs text-muted-foreground">
+                  {isCardForm
+                    ? "Jumlah yang terutang saat kartu mulai dicatat. Pengeluaran menambah tagihan, transfer ke kartu ini melunasinya."
+                    : "Saldo saat ini dihitung otomatis dari saldo awal dan transaksi pada rekening ini."}
+                </p>
+              </div>
+
+              {isCardForm && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="credit_limit">Limit Kredit</Label>
+                    <Input id="credit_limit" type="number" step="any" value={formData.credit_limit} onChange={(e) => setFormData({ ...formData, credit_limit: e.target.value })} required />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="statement_day">Tanggal Cetak Tagihan</Label>
+                      <Input id="statement_day" type="number" min={1} max={31} value={formData.statement_day} onChange={(e) => setFormData({ ...formData, statement_day: e.target.value })} required />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payment_due_day">Tanggal Jatuh Tempo</Label>
+                      <Input id="payment_due_day" type="number" min={1} max={31} value={formData.payment_due_day} onChange={(e) => setFormData({ ...formData, payment_due_day: e.target.value })} required />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="minimum_payment_percent">Pembayaran Minimum (%)</Label>
+                      <Input id="minimum_payment_percent" type="number" step="any" value={formData.minimum_payment_percent} onChange={(e) => setFormData({ ...formData, minimum_payment_percent: e.target.value })} required />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="minimum_payment_amount">Minimum Paling Sedikit</Label>
+                      <Input id="minimum_payment_amount" type="number" step="any" value={formData.minimum_payment_amount} onChange={(e) => setFormData({ ...formData, minimum_payment_amount: e.target.value })} />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Tagihan ditutup setiap tanggal cetak dan harus dibayar pada tanggal jatuh tempo berikutnya. Pembayaran minimum adalah persentase dari tagihan, tetapi tidak kurang dari jumlah minimumnya.
+                  </p>
+                </>
+              )}
+
               <Button type="submit" className="w-full">
                 {editingAccount ? "Perbarui" : "Simpan"} Rekening
               </Button>
@@ -219,18 +342,56 @@ export default function BankAccounts() {
                 <TableHead>Nama Bank</TableHead>
                 <TableHead>Pemilik</TableHead>
                 <TableHead>Nomor Rekening</TableHead>
+                <TableHead className="text-right">Saldo Awal</TableHead>
                 <TableHead className="text-right">Saldo</TableHead>
+                <TableHead className="text-right">Sisa Limit</TableHead>
                 <TableHead className="text-right">Aksi</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {accounts.length > 0 ? accounts.map((account) => (
                 <TableRow key={account.id}>
-                  <TableCell className="font-medium">{account.bank_name}</TableCell>
+                  <TableCell className="font-medium">
+                    {account.bank_name}
+                    {account.account_type === "credit_card" && (
+                      <Badge variant="secondary" className="ml-2">{ACCOUNT_TYPE_LABELS.credit_card}</Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{account.account_holder_name}</TableCell>
                   <TableCell>{account.account_number}</TableCell>
-                  <TableCell className="text-right font-semibold">{formatCurrency(account.balance)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(account.opening_balance, account.currency)}</TableCell>
+                  <TableCell className={`text-right font-semibold ${account.balance < 0 ? "text-red-600" : ""}`}>
+                    {formatCurrency(account.balance, account.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {availableCredit.has(account.id) ? (
+                      <>
+                        <div>{formatMoney(availableCredit.get(account.id), account.currency)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          dari {formatCurrency(account.credit_limit, account.currency)}
+                        </div>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
                   <TableCell className="text-right">
+                    {account.account_type === "credit_card" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setStatementAccountId(account.id)}
+                      >
+                        <Receipt className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setHistoryAccount(account)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -249,7 +410,7 @@ export default function BankAccounts() {
                 </TableRow>
               )) : (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center h-24">
+                  <TableCell colSpan={7} className="text-center h-24">
                     Belum ada rekening bank. Mulai tambahkan rekening Anda.
                   </TableCell>
                 </TableRow>
@@ -258,6 +419,16 @@ export default function BankAccounts() {
           </Table>
         </CardContent>
       </Card>
+
+      <AccountHistoryDialog
+        account={historyAccount}
+        onOpenChange={(open) => !open && setHistoryAccount(null)}
+      />
+
+      <CreditCardStatementDialog
+        card={statementCard}
+        onOpenChange={(open) => !open && setStatementAccountId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
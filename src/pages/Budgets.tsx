@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, ChevronLeft, ChevronRight, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { cn, formatMoney, moneyToNumeric, parseMoney, sumMoney } from "@/lib/utils";
+import { BudgetStatus, shiftBudgetMonth, toBudgetMonth } from "@/lib/budgets";
+import {
+  CategoryBudget,
+  useBudgetProgress,
+  useCopyPreviousMonthBudgets,
+  useCreateBudget,
+  useDeleteBudget,
+  useUpdateBudget,
+} from "@/hooks/use-budget-progress";
+import { useCategories } from "@/hooks/use-categories";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import { CategorySelectItems } from "@/components/categories/CategorySelectItems";
+
+const STATUS_STYLES: Record<BudgetStatus, string> = {
+  ok: "[&>div]:bg-green-600",
+  warning: "[&>div]:bg-amber-500",
+  over: "[&>div]:bg-red-600",
+};
+
+export default function Budgets() {
+  const { user } = useAuth();
+  const [month, setMonth] = useState(toBudgetMonth(new Date()));
+  const { progress, loading } = useBudgetProgress(month);
+  const baseCurrency = useBaseCurrency();
+  const { data: allCategories = [] } = useCategories();
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const deleteBudget = useDeleteBudget();
+  const copyPreviousMonth = useCopyPreviousMonthBudgets();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<CategoryBudget | null>(null);
+  const [formData, setFormData] = useState({
+    category_id: "",
+    amount: "",
+    rollover: false,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.category_id) {
+      toast.error("Pilih kategori terlebih dahulu");
+      return;
+    }
+
+    const amount = parseMoney(formData.amount, baseCurrency);
+    if (amount === null || amount < 0n) {
+      toast.error("Jumlah anggaran tidak valid");
+      return;
+    }
+
+    if (editingBudget) {
+      updateBudget.mutate(
+        {
+          id: editingBudget.id,
+          changes: { amount: moneyToNumeric(amount, baseCurrency), rollover: formData.rollover },
+        },
+        { onSuccess: () => toast.success("Anggaran berhasil diperbarui") }
+      );
+    } else {
+      createBudget.mutate(
+        {
+          user_id: user!.id,
+          category_id: formData.category_id,
+          month,
+          amount: moneyToNumeric(amount, baseCurrency),
+          rollover: formData.rollover,
+        },
+        { onSuccess: () => toast.success("Anggaran berhasil ditambahkan") }
+      );
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Apakah Anda yakin ingin menghapus anggaran ini?")) return;
+
+    deleteBudget.mutate(id, {
+      onSuccess: () => toast.success("Anggaran berhasil dihapus"),
+    });
+  };
+
+  const handleCopyPreviousMonth = () => {
+    copyPreviousMonth.mutate(month, {
+      onSuccess: () => toast.success("Anggaran bulan lalu berhasil disalin"),
+    });
+  };
+
+  const openNewDialog = () => {
+    setEditingBudget(null);
+    setFormData({ category_id: "", amount: "", rollover: false });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (budget: CategoryBudget) => {
+    setEditingBudget(budget);
+    setFormData({
+      category_id: budget.category_id,
+      amount: budget.amount.toString(),
+      rollover: budget.rollover,
+    });
+    setDialogOpen(true);
+  };
+
+  const budgetedCategoryIds = new Set(progress.map((p) => p.budget.category_id));
+  const availableCategories = allCategories.filter(
+    (c) =>
+      c.type === "expense" &&
+      ((!budgetedCategoryIds.has(c.id) && !c.archived_at) || c.id === editingBudget?.category_id)
+  );
+  const totalAvailable = sumMoney(progress.map((p) => p.available));
+  const totalSpent = sumMoney(progress.map((p) => p.spent));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Anggaran</h1>
+          <p className="text-muted-foreground">
+            Tetapkan batas pengeluaran bulanan untuk setiap kategori.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyPreviousMonth}>
+            <Copy className="mr-2 h-4 w-4" />
+            Salin Bulan Lalu
+          </Button>
+          <Button onClick={openNewDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Tambah Anggaran
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-4">
+        <Button variant="outline" size="icon" onClick={() => setMonth(shiftBudgetMonth(month, -1))}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="w-40 text-center text-lg font-semibold">
+          {format(parseISO(month), "MMMM yyyy", { locale: localeID })}
+        </span>
+        <Button variant="outline" size="icon" onClick={() => setMonth(shiftBudgetMonth(month, 1))}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex h-32 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Ringkasan</CardTitle>
+              <CardDescription>
+                {formatMoney(totalSpent, baseCurrency)} terpakai dari {formatMoney(totalAvailable, baseCurrency)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Progress value={totalAvailable > 0n ? Math.min(100, (Number(totalSpent) / Number(totalAvailable)) * 100) : 0} />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {progress.map(({ budget, available, carriedOver, spent, remaining, percent, status }) => (
+              <Card key={budget.id} className="shadow-sm">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-2xl">{budget.categories?.icon || "📊"}</span>
+                    <CardTitle className="text-base">{budget.categories?.name || "N/A"}</CardTitle>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(budget)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(budget.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Progress value={Math.min(100, percent)} className={cn("h-3", STATUS_STYLES[status])} />
+                  <div className="flex justify-between text-sm">
+                    <span>{formatMoney(spent, baseCurrency)}</span>
+                    <span className="text-muted-foreground">dari {formatMoney(available, baseCurrency)}</span>
+                  </div>
+                  <p className={cn("text-xs", remaining < 0n ? "text-red-600" : "text-muted-foreground")}>
+                    {remaining < 0n
+                      ? `Melebihi anggaran ${formatMoney(-remaining, baseCurrency)}`
+                      : `Sisa ${formatMoney(remaining, baseCurrency)} (${percent.toFixed(0)}% terpakai)`}
+                  </p>
+                  {carriedOver > 0n && (
+                    <p className="text-xs text-muted-foreground">
+                      Termasuk sisa bulan lalu {formatMoney(carriedOver, baseCurrency)}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+            {progress.length === 0 && (
+              <p className="col-span-full text-center text-muted-foreground">
+                Belum ada anggaran untuk bulan ini.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? "Edit Anggaran" : "Tambah Anggaran"}</DialogTitle>
+            <DialogDescription>
+              Anggaran untuk {format(parseISO(month), "MMMM yyyy", { locale: localeID })}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category_id">Kategori</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                disabled={!!editingBudget}
+              >
+                <SelectTrigger id="category_id">
+                  <SelectValue placeholder="Pilih kategori pengeluaran" />
+                </SelectTrigger>
+                <SelectContent>
+                  <CategorySelectItems categories={availableCategories} />
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="amount">Jumlah per Bulan ({baseCurrency})</Label>
+              <Input
+                id="amount"
+                type="number"
+                step="any"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rollover">Bawa Sisa ke Bulan Berikutnya</Label>
+                <p className="text-xs text-muted-foreground">
+                  Sisa anggaran yang tidak terpakai ditambahkan ke anggaran bulan depan.
+                </p>
+              </div>
+              <Switch
+                id="rollover"
+                checked={formData.rollover}
+                onCheckedChange={(checked) => setFormData({ ...formData, rollover: checked })}
+              />
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingBudget ? "Perbarui" : "Simpan"} Anggaran
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
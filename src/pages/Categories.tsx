@@ -1,5 +1,4 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,120 +12,247 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus, Pencil, Trash2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, Pencil, Trash2, ChevronRight, MoreHorizontal, Archive, ArchiveRestore, Merge } from 'lucide-react';
 import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { buildCategoryTree } from '@/lib/categories';
+import { CategoryRemovalDialog, CategoryRemovalMode } from '@/components/categories/CategoryRemovalDialog';
+import { Category, useCategories, useCreateCategory, useUpdateCategory } from '@/hooks/use-categories';
 
-interface Category {
-  id: string;
-  name: string;
-  type: 'income' | 'expense';
-  icon: string | null;
-  color: string | null;
-}
+const NO_PARENT = 'none';
+
+const emptyForm = {
+  name: '',
+  type: 'income' as 'income' | 'expense',
+  icon: '📊',
+  color: '#6366F1',
+  parent_id: NO_PARENT,
+};
 
 export default function Categories() {
   const { user } = useAuth();
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: categories = [], isLoading: loading } = useCategories();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    type: 'income' as 'income' | 'expense',
-    icon: '📊',
-    color: '#6366F1',
-  });
-
-  useEffect(() => {
-    if (user) {
-      fetchCategories();
-    }
-  }, [user]);
-
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('name');
+  const [formData, setFormData] = useState(emptyForm);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [removal, setRemoval] = useState<{ category: Category; mode: CategoryRemovalMode } | null>(null);
 
-      if (error) throw error;
-      setCategories(data || []);
-    } catch (error) {
-      console.error('Error fetching categories:', error);
-      toast.error('Failed to load categories');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    try {
-      if (editingCategory) {
-        const { error } = await supabase
-          .from('categories')
-          .update({
-            name: formData.name,
-            icon: formData.icon,
-            color: formData.color,
-          })
-          .eq('id', editingCategory.id);
+    const parentId = formData.parent_id === NO_PARENT ? null : formData.parent_id;
 
-        if (error) throw error;
-        toast.success('Category updated successfully');
-      } else {
-        const { error } = await supabase
-          .from('categories')
-          .insert({
-            user_id: user!.id,
+    if (editingCategory) {
+      updateCategory.mutate(
+        {
+          id: editingCategory.id,
+          changes: {
             name: formData.name,
-            type: formData.type,
             icon: formData.icon,
             color: formData.color,
-          });
-
-        if (error) throw error;
-        toast.success('Category created successfully');
-      }
-
-      setDialogOpen(false);
-      setEditingCategory(null);
-      setFormData({ name: '', type: 'income', icon: '📊', color: '#6366F1' });
-      fetchCategories();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to save category');
+            parent_id: parentId,
+          },
+        },
+        { onSuccess: () => toast.success('Category updated successfully') }
+      );
+    } else {
+      createCategory.mutate(
+        {
+          user_id: user!.id,
+          name: formData.name,
+          type: formData.type,
+          icon: formData.icon,
+          color: formData.color,
+          parent_id: parentId,
+        },
+        { onSuccess: () => toast.success('Category created successfully') }
+      );
+      if (parentId) setExpanded(new Set(expanded).add(parentId));
     }
-  };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this category?')) return;
+    setDialogOpen(false);
+    setEditingCategory(null);
+    setFormData(emptyForm);
+  };
 
-    try {
-      const { error } = await supabase.from('categories').delete().eq('id', id);
-      if (error) throw error;
-      toast.success('Category deleted successfully');
-      fetchCategories();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to delete category');
-    }
+  // Archived categories disappear from pickers but keep their transactions.
+  const handleArchive = (category: Category, archived: boolean) => {
+    updateCategory.mutate(
+      { id: category.id, changes: { archived_at: archived ? new Date().toISOString() : null } },
+      { onSuccess: () => toast.success(archived ? `${category.name} archived` : `${category.name} restored`) }
+    );
   };
 
   const openEditDialog = (category: Category) => {
     setEditingCategory(category);
     setFormData({
       name: category.name,
-      type: category.type,
+      type: category.type as 'income' | 'expense',
       icon: category.icon || '📊',
       color: category.color || '#6366F1',
+      parent_id: category.parent_id || NO_PARENT,
     });
     setDialogOpen(true);
   };
 
-  const incomeCategories = categories.filter((c) => c.type === 'income');
-  const expenseCategories = categories.filter((c) => c.type === 'expense');
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const activeCategories = categories.filter((c) => !c.archived_at);
+  const incomeCategories = activeCategories.filter((c) => c.type === 'income');
+  const expenseCategories = activeCategories.filter((c) => c.type === 'expense');
+
+  // Only top-level categories of the same type can be parents, and a category
+  // that already has subcategories cannot become one itself.
+  const hasChildren = (id: string) => categories.some((c) => c.parent_id === id);
+  const parentOptions = categories.filter(
+    (c) =>
+      c.type === formData.type &&
+      !c.parent_id &&
+      c.id !== editingCategory?.id &&
+      (!c.archived_at || c.id === formData.parent_id)
+  );
+
+  const renderActions = (category: Category) => (
+    <div className="flex gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => openEditDialog(category)}
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {category.archived_at ? (
+            <DropdownMenuItem onClick={() => handleArchive(category, false)}>
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              Restore
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={() => handleArchive(category, true)}>
+              <Archive className="mr-2 h-4 w-4" />
+              Archive
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setRemoval({ category, mode: 'merge' })}>
+            <Merge className="mr-2 h-4 w-4" />
+            Merge into...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onClick={() => setRemoval({ category, mode: 'delete' })}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
+  const renderArchived = (type: Category['type']) => {
+    const archived = categories.filter((c) => c.archived_at && c.type === type);
+    if (archived.length === 0) return null;
+
+    return (
+      <div className="mt-8 space-y-3">
+        <h2 className="text-sm font-medium text-muted-foreground">Archived</h2>
+        <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+          {archived.map((category) => (
+            <div key={category.id} className="flex items-center justify-between rounded-md border px-3 py-1 text-muted-foreground">
+              <div className="flex items-center gap-2 text-sm">
+                <span>{category.icon || '📊'}</span>
+                {category.name}
+              </div>
+              {renderActions(category)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTree = (list: Category[], emptyMessage: string) => (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {buildCategoryTree(list).map(({ category, children }) => (
+        <Card key={category.id} className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+            <div className="flex items-center gap-2">
+              <span className="text-2xl">{category.icon || '📊'}</span>
+              <CardTitle className="text-base">{category.name}</CardTitle>
+            </div>
+            {renderActions(category)}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div
+              className="h-2 w-full rounded-full"
+              style={{ backgroundColor: category.color || '#6366F1' }}
+            />
+            {children.length > 0 && (
+              <div>
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                  onClick={() => toggleExpanded(category.id)}
+                >
+                  <ChevronRight
+                    className={cn('h-4 w-4 transition-transform', expanded.has(category.id) && 'rotate-90')}
+                  />
+                  {children.length} subcategories
+                </button>
+                {expanded.has(category.id) && (
+                  <ul className="mt-2 space-y-1 border-l pl-4">
+                    {children.map((child) => (
+                      <li key={child.id} className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span>{child.icon || '📊'}</span>
+                          {child.name}
+                        </div>
+                        {renderActions(child)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+      {list.length === 0 && (
+        <p className="col-span-full text-center text-muted-foreground">
+          {emptyMessage}
+        </p>
+      )}
+    </div>
+  );
 
   if (loading) {
     return (
@@ -149,7 +275,7 @@ export default function Categories() {
           <DialogTrigger asChild>
             <Button onClick={() => {
               setEditingCategory(null);
-              setFormData({ name: '', type: 'income', icon: '📊', color: '#6366F1' });
+              setFormData(emptyForm);
             }}>
               <Plus className="mr-2 h-4 w-4" />
               Add Category
@@ -180,7 +306,7 @@ export default function Categories() {
                         type="radio"
                         value="income"
                         checked={formData.type === 'income'}
-                        onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income' })}
+                        onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income', parent_id: NO_PARENT })}
                       />
                       Income
                     </label>
@@ -189,13 +315,38 @@ export default function Categories() {
                         type="radio"
                         value="expense"
                         checked={formData.type === 'expense'}
-                        onChange={(e) => setFormData({ ...formData, type: e.target.value as 'expense' })}
+                        onChange={(e) => setFormData({ ...formData, type: e.target.value as 'expense', parent_id: NO_PARENT })}
                       />
                       Expense
                     </label>
                   </div>
                 </div>
               )}
+              <div className="space-y-2">
+                <Label htmlFor="parent_id">Parent Category</Label>
+                <Select
+                  value={formData.parent_id}
+                  onValueChange={(value) => setFormData({ ...formData, parent_id: value })}
+                  disabled={!!editingCategory && hasChildren(editingCategory.id)}
+                >
+                  <SelectTrigger id="parent_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top-level category)</SelectItem>
+                    {parentOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editingCategory && hasChildren(editingCategory.id) && (
+                  <p className="text-xs text-muted-foreground">
+                    Categories with subcategories stay at the top level.
+                  </p>
+                )}
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="icon">Icon (Emoji)</Label>
                 <Input
@@ -229,89 +380,22 @@ export default function Categories() {
         </TabsList>
 
         <TabsContent value="income" className="mt-6">
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {incomeCategories.map((category) => (
-              <Card key={category.id} className="shadow-sm">
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-                  <div className="flex items-center gap-2">
-                    <span className="text-2xl">{category.icon || '📊'}</span>
-                    <CardTitle className="text-base">{category.name}</CardTitle>
-                  </div>
-                  <div className="flex gap-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => openEditDialog(category)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDelete(category.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div
-                    className="h-2 w-full rounded-full"
-                    style={{ backgroundColor: category.color || '#6366F1' }}
-                  />
-                </CardContent>
-              </Card>
-            ))}
-            {incomeCategories.length === 0 && (
-              <p className="col-span-full text-center text-muted-foreground">
-                No income categories yet. Create one to get started!
-              </p>
-            )}
-          </div>
+          {renderTree(incomeCategories, 'No income categories yet. Create one to get started!')}
+          {renderArchived('income')}
         </TabsContent>
 
         <TabsContent value="expense" className="mt-6">
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {expenseCategories.map((category) => (
-              <Card key={category.id} className="shadow-sm">
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-                  <div className="flex items-center gap-2">
-                    <span className="text-2xl">{category.icon || '📊'}</span>
-                    <CardTitle className="text-base">{category.name}</CardTitle>
-                  </div>
-                  <div className="flex gap-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => openEditDialog(category)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDelete(category.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div
-                    className="h-2 w-full rounded-full"
-                    style={{ backgroundColor: category.color || '#6366F1' }}
-                  />
-                </CardContent>
-              </Card>
-            ))}
-            {expenseCategories.length === 0 && (
-              <p className="col-span-full text-center text-muted-foreground">
-                No expense categories yet. Create one to get started!
-              </p>
-            )}
-          </div>
+          {renderTree(expenseCategories, 'No expense categories yet. Create one to get started!')}
+          {renderArchived('expense')}
         </TabsContent>
       </Tabs>
+
+      <CategoryRemovalDialog
+        category={removal?.category || null}
+        mode={removal?.mode || 'delete'}
+        categories={categories}
+        onOpenChange={(open) => !open && setRemoval(null)}
+      />
     </div>
   );
 }
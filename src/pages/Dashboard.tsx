@@ -1,82 +1,26 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, TrendingDown, Wallet, Building2 } from 'lucide-react';
-import { formatCurrency } from '@/lib/utils';
-
-interface SummaryData {
-  totalIncome: number;
-  totalExpense: number;
-  totalBankBalance: number;
-  totalAssets: number;
-}
+import { TrendingUp, TrendingDown, Wallet, Building2, Scale, HandCoins } from 'lucide-react';
+import { formatMoney } from '@/lib/utils';
+import { BudgetAlerts } from '@/components/budgets/BudgetAlerts';
+import { CreditCardDueAlerts } from '@/components/bank-accounts/CreditCardDueAlerts';
+import { MissingRatesAlert } from '@/components/currencies/MissingRatesAlert';
+import { ClosestGoals } from '@/components/savings-goals/ClosestGoals';
+import { DashboardSummary, useDashboardSummary } from '@/hooks/use-dashboard-summary';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+
+const EMPTY_SUMMARY: DashboardSummary = {
+  totalIncome: 0n,
+  totalExpense: 0n,
+  totalBankBalance: 0n,
+  totalAssets: 0n,
+  totalLiabilities: 0n,
+  netWorth: 0n,
+  netWorthChange: null,
+};
 
 export default function Dashboard() {
-  const { user } = useAuth();
-  const [summary, setSummary] = useState<SummaryData>({
-    totalIncome: 0,
-    totalExpense: 0,
-    totalBankBalance: 0,
-    totalAssets: 0,
-  });
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (user) {
-      fetchSummaryData();
-    }
-  }, [user]);
-
-  const fetchSummaryData = async () => {
-    try {
-      // Fetch current month transactions
-      const startOfMonth = new Date();
-      startOfMonth.setDate(1);
-      startOfMonth.setHours(0, 0, 0, 0);
-
-      const { data: transactions } = await supabase
-        .from('transactions')
-        .select('type, amount')
-        .eq('user_id', user!.id)
-        .gte('transaction_date', startOfMonth.toISOString().split('T')[0]);
-
-      const income = transactions
-        ?.filter((t) => t.type === 'income')
-        .reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-
-      const expense = transactions
-        ?.filter((t) => t.type === 'expense')
-        .reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-
-      // Fetch bank accounts balance
-      const { data: accounts } = await supabase
-        .from('bank_accounts')
-        .select('balance')
-        .eq('user_id', user!.id);
-
-      const bankBalance = accounts?.reduce((sum, a) => sum + Number(a.balance), 0) || 0;
-
-      // Fetch assets total
-      const { data: assets } = await supabase
-        .from('assets')
-        .select('current_value')
-        .eq('user_id', user!.id);
-
-      const assetsTotal = assets?.reduce((sum, a) => sum + Number(a.current_value), 0) || 0;
-
-      setSummary({
-        totalIncome: income,
-        totalExpense: expense,
-        totalBankBalance: bankBalance,
-        totalAssets: assetsTotal,
-      });
-    } catch (error) {
-      console.error('Error fetching summary:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: summary = EMPTY_SUMMARY, isLoading: loading } = useDashboardSummary();
+  const baseCurrency = useBaseCurrency();
 
   const summaryCards = [
     {
@@ -85,6 +29,7 @@ export default function Dashboard() {
       icon: TrendingUp,
       color: 'text-green-600',
       bgColor: 'bg-green-50 dark:bg-green-950',
+      caption: 'This month',
     },
     {
       title: 'Total Expense',
@@ -92,6 +37,7 @@ export default function Dashboard() {
       icon: TrendingDown,
       color: 'text-red-600',
       bgColor: 'bg-red-50 dark:bg-red-950',
+      caption: 'This month',
     },
     {
       title: 'Bank Balance',
@@ -99,6 +45,7 @@ export default function Dashboard() {
       icon: Wallet,
       color: 'text-blue-600',
       bgColor: 'bg-blue-50 dark:bg-blue-950',
+      caption: 'Across all accounts',
     },
     {
       title: 'Total Assets',
@@ -106,6 +53,15 @@ export default function Dashboard() {
       icon: Building2,
       color: 'text-purple-600',
       bgColor: 'bg-purple-50 dark:bg-purple-950',
+      caption: 'Current value',
+    },
+    {
+      title: 'Total Liabilities',
+      value: summary.totalLiabilities,
+      icon: HandCoins,
+      color: 'text-orange-600',
+      bgColor: 'bg-orange-50 dark:bg-orange-950',
+      caption: 'Outstanding loans and overdrafts',
     },
   ];
 
@@ -126,7 +82,11 @@ export default function Dashboard() {
         </p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <BudgetAlerts />
+      <CreditCardDueAlerts />
+      <MissingRatesAlert />
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         {summaryCards.map((card) => (
           <Card key={card.title} className="animate-fade-in shadow-sm">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -137,15 +97,15 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold number-format">
-                {formatCurrency(card.value)}
+                {formatMoney(card.value, baseCurrency)}
               </div>
-              <p className="text-xs text-muted-foreground">This month</p>
+              <p className="text-xs text-muted-foreground">{card.caption}</p>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-3">
         <Card className="shadow-sm">
           <CardHeader>
             <CardTitle>Get Started</CardTitle>
@@ -177,14 +137,42 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold number-format">
-              {formatCurrency(summary.totalIncome - summary.totalExpense)}
+              {formatMoney(summary.totalIncome - summary.totalExpense, baseCurrency)}
             </div>
             <p className="text-sm text-muted-foreground">
               Income minus expenses this month
             </p>
           </CardContent>
         </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Net Worth</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold number-format">
+              {formatMoney(summary.netWorth, baseCurrency)}
+            </div>
+            {summary.netWorthChange !== null ? (
+              <p className={`text-sm ${summary.netWorthChange >= 0n ? 'text-green-600' : 'text-red-600'}`}>
+                {summary.netWorthChange >= 0n ? '+' : '-'}
+                {formatMoney(summary.netWorthChange >= 0n ? summary.netWorthChange : -summary.netWorthChange, baseCurrency)}{' '}
+                since last month
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Accounts and assets minus liabilities</p>
+            )}
+            {summary.totalLiabilities > 0n && (
+              <p className="text-xs text-muted-foreground">
+                Including {formatMoney(summary.totalLiabilities, baseCurrency)} in liabilities
+              </p>
+            )}
+          </CardContent>
+        </Card>
       </div>
+
+      <ClosestGoals />
     </div>
   );
 }
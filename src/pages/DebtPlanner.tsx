@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import {
+  Bar,
+  BarChart,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { formatCurrency, formatMoney, moneyToNumber, parseMoney, toMoney } from "@/lib/utils";
+import { computeLoanStatus, regularPayment } from "@/lib/liabilities";
+import { DEFAULT_CARD_INTEREST_PERCENT, minimumPayment } from "@/lib/credit-cards";
+import { computeDebtStatus } from "@/lib/personal-debts";
+import {
+  Debt,
+  PAYOFF_STRATEGY_DESCRIPTIONS,
+  PAYOFF_STRATEGY_LABELS,
+  PayoffPlan,
+  PayoffStrategy,
+  simulatePayoff,
+} from "@/lib/debt-payoff";
+import { useLiabilities, useLiabilityPayments } from "@/hooks/use-liabilities";
+import { useCreditCards } from "@/hooks/use-credit-cards";
+import { usePersonalDebts, usePersonalDebtTransactions } from "@/hooks/use-personal-debts";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+
+const STRATEGIES: PayoffStrategy[] = ["snowball", "avalanche"];
+
+const formatMonth = (month: string) => format(parseISO(month), "MMM yyyy", { locale: localeID });
+
+export default function DebtPlanner() {
+  const { data: liabilities = [], isLoading: liabilitiesLoading } = useLiabilities();
+  const { data: payments = [], isLoading: paymentsLoading } = useLiabilityPayments();
+  const { cards, isLoading: cardsLoading } = useCreditCards();
+  const { data: personalDebts = [], isLoading: personalDebtsLoading } = usePersonalDebts();
+  const { data: repayments = [], isLoading: repaymentsLoading } = usePersonalDebtTransactions();
+  const baseCurrency = useBaseCurrency();
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [extraInput, setExtraInput] = useState("");
+  const [cardInterestInput, setCardInterestInput] = useState(DEFAULT_CARD_INTEREST_PERCENT.toString());
+  const loading = liabilitiesLoading || paymentsLoading || cardsLoading || personalDebtsLoading || repaymentsLoading;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const cardInterest = Number(cardInterestInput || "0");
+  const cardRate = Number.isFinite(cardInterest) && cardInterest >= 0 ? cardInterest / 100 : 0;
+
+  // Loans, what is owed on credit cards and money borrowed from people. Cards
+  // have no rate on record, so they use the rate entered here; people charge
+  // no interest and expect no fixed instalment.
+  const allDebts: (Debt & { currency: string })[] = [
+    ...liabilities.map((liability) => {
+      const status = computeLoanStatus(liability, payments.filter((p) => p.liability_id === liability.id));
+      const rate = liability.interest_rate / 100 / 12;
+      return {
+        id: liability.id,
+        name: liability.name,
+        currency: liability.currency,
+        balance: status.remaining,
+        monthlyRate: rate,
+        fixedInterest: liability.interest_method === "flat" ? toMoney(liability.principal * rate, liability.currency) : null,
+        minimumPayment: regularPayment(liability),
+      };
+    }),
+    ...cards.map(({ account, status }) => ({
+      id: account.id,
+      name: `Kartu Kredit ${account.bank_name}`,
+      currency: account.currency,
+      balance: status.owed,
+      monthlyRate: cardRate,
+      fixedInterest: null,
+      minimumPayment: minimumPayment(account, status.owed),
+    })),
+    ...personalDebts
+      .filter((debt) => debt.direction === "borrowed")
+      .map((debt) => ({
+        id: debt.id,
+        name: `Hutang ke ${debt.counterparties?.name ?? "orang lain"}`,
+        currency: debt.currency,
+        balance: computeDebtStatus(debt, repayments.filter((t) => t.personal_debt_id === debt.id), today).outstanding,
+        monthlyRate: 0,
+        fixedInterest: null,
+        minimumPayment: 0n,
+      })),
+  ].filter((debt) => debt.balance > 0n);
+
+  const currencies = Array.from(new Set(allDebts.map((d) => d.currency)));
+  const currency = selectedCurrency ?? (currencies.includes(baseCurrency) ? baseCurrency : currencies[0] ?? baseCurrency);
+
+  // Only debts in one currency can share a monthly budget.
+  const debts: Debt[] = allDebts.filter((debt) => debt.currency === currency);
+  const hasCards = debts.some((debt) => cards.some(({ account }) => account.id === debt.id));
+
+  const extra = parseMoney(extraInput || "0", currency);
+  const firstMonth = format(addMonths(startOfMonth(new Date()), 1), "yyyy-MM-dd");
+  const plans: Record<PayoffStrategy, PayoffPlan> | null =
+    extra !== null && extra >= 0n && debts.length > 0
+      ? {
+          snowball: simulatePayoff(debts, extra, "snowball", firstMonth, currency),
+          avalanche: simulatePayoff(debts, extra, "avalanche", firstMonth, currency),
+        }
+      : null;
+  const cheapest = plans && plans.avalanche.totalInterest < plans.snowball.totalInterest ? "avalanche" : "snowball";
+
+  const chartLength = plans ? Math.max(plans.snowball.months.length, plans.avalanche.months.length) : 0;
+  const chartData = Array.from({ length: chartLength }, (_, i) => ({
+    month: formatMonth(format(addMonths(parseISO(firstMonth), i), "yyyy-MM-dd")),
+    snowball: moneyToNumber(plans.snowball.months[i]?.remaining ?? 0n, currency),
+    avalanche: moneyToNumber(plans.avalanche.months[i]?.remaining ?? 0n, currency),
+  }));
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Rencana Pelunasan Utang</h1>
+        <p className="text-muted-foreground">
+          Bandingkan strategi snowball dan avalanche untuk melunasi semua kewajiban dengan tambahan pembayaran tiap bulan.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pengaturan</CardTitle>
+          <CardDescription>
+            Cicilan minimum setiap kewajiban, kartu kredit, dan hutang ke orang lain tetap dibayar. Tambahan
+            pembayaran, dan cicilan kewajiban yang sudah lunas, dialihkan ke kewajiban berikutnya sesuai strategi.
+            Hutang ke orang lain dihitung tanpa bunga dan tanpa cicilan minimum.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="extra_payment">Tambahan Pembayaran per Bulan ({currency})</Label>
+            <Input
+              id="extra_payment"
+              type="number"
+              step="any"
+              min={0}
+              value={extraInput}
+              onChange={(e) => setExtraInput(e.target.value)}
+              placeholder="0"
+            />
+            {(extra === null || extra < 0n) && (
+              <p className="text-xs text-destructive">Jumlah tambahan tidak valid</p>
+            )}
+          </div>
+          {hasCards && (
+            <div className="space-y-2">
+              <Label htmlFor="card_interest">Bunga Kartu Kredit per Bulan (%)</Label>
+              <Input
+                id="card_interest"
+                type="number"
+                step="any"
+                min={0}
+                value={cardInterestInput}
+                onChange={(e) => setCardInterestInput(e.target.value)}
+              />
+              {(!Number.isFinite(cardInterest) || cardInterest < 0) && (
+                <p className="text-xs text-destructive">Bunga tidak valid</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Dipakai untuk semua kartu kredit; minimum pembayaran mengikuti pengaturan tiap kartu.
+              </p>
+            </div>
+          )}
+          {currencies.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="planner_currency">Mata Uang</Label>
+              <Select value={currency} onValueChange={setSelectedCurrency}>
+                <SelectTrigger id="planner_currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((c) => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {debts.length === 0 ? (
+        <Card>
+          <CardContent className="flex h-24 items-center justify-center text-muted-foreground">
+            <span>
+              Belum ada utang yang berjalan. <Link to="/liabilities" className="underline">Tambahkan kewajiban</Link>
+            </span>
+          </CardContent>
+        </Card>
+      ) : plans && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            {STRATEGIES.map((strategy) => {
+              const plan = plans[strategy];
+              return (
+                <Card key={strategy}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      {PAYOFF_STRATEGY_LABELS[strategy]}
+                      {strategy === cheapest && plans.snowball.totalInterest !== plans.avalanche.totalInterest && (
+                        <Badge>Bunga paling hemat</Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>{PAYOFF_STRATEGY_DESCRIPTIONS[strategy]}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <div className="text-muted-foreground">Bebas Utang</div>
+                      <div className="text-xl font-bold">
+                        {plan.debtFreeMonth ? formatMonth(plan.debtFreeMonth) : "Tidak tercapai"}
+                      </div>
+                      {plan.debtFreeMonth && <div className="text-xs text-muted-foreground">{plan.months.length} bulan</div>}
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Total Bunga</div>
+                      <div className="text-xl font-bold">{formatMoney(plan.totalInterest, currency)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Total dibayar {formatMoney(plan.totalPaid, currency)}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sisa Utang per Bulan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chartData}>
+                  <XAxis dataKey="month" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `${formatCurrency(Number(value), currency)}`} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value), currency)} cursor={{ fill: "hsl(var(--muted))" }} />
+                  <Legend iconType="circle" />
+                  <Bar dataKey="snowball" name={PAYOFF_STRATEGY_LABELS.snowball} fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="avalanche" name={PAYOFF_STRATEGY_LABELS.avalanche} fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Jadwal Pembayaran</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="snowball">
+                <TabsList>
+                  {STRATEGIES.map((strategy) => (
+                    <TabsTrigger key={strategy} value={strategy}>{PAYOFF_STRATEGY_LABELS[strategy]}</TabsTrigger>
+                  ))}
+                </TabsList>
+                {STRATEGIES.map((strategy) => (
+                  <TabsContent key={strategy} value={strategy}>
+                    <div className="max-h-[60vh] overflow-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Bulan</TableHead>
+                            {debts.map((debt) => (
+                              <TableHead key={debt.id} className="text-right">
+                                {debt.name}
+                                {plans[strategy].payoffMonths[debt.id] && (
+                                  <div className="text-xs font-normal">
+                                    Lunas {formatMonth(plans[strategy].payoffMonths[debt.id])}
+                                  </div>
+                                )}
+                              </TableHead>
+                            ))}
+                            <TableHead className="text-right">Bunga</TableHead>
+                            <TableHead className="text-right">Total Bayar</TableHead>
+                            <TableHead className="text-right">Sisa Utang</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {plans[strategy].months.map((row) => (
+                            <TableRow key={row.month}>
+                              <TableCell className="whitespace-nowrap">{formatMonth(row.month)}</TableCell>
+                              {debts.map((debt) => (
+                                <TableCell key={debt.id} className="text-right">
+                                  {row.payments[debt.id] !== undefined ? (
+                                    <>
+                                      <div>{formatMoney(row.payments[debt.id], currency)}</div>
+                                      <div className="text-xs text-muted-foreground">
+                                        {row.balances[debt.id] > 0n ? `sisa ${formatMoney(row.balances[debt.id], currency)}` : "lunas"}
+                                      </div>
+                                    </>
+                                  ) : (
+                                    "-"
+                                  )}
+                                </TableCell>
+                              ))}
+                              <TableCell className="text-right">{formatMoney(row.interest, currency)}</TableCell>
+                              <TableCell className="text-right font-medium">{formatMoney(row.paid, currency)}</TableCell>
+                              <TableCell className="text-right">{formatMoney(row.remaining, currency)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { MissingRatesAlert } from "@/components/currencies/MissingRatesAlert";
+import { useBaseCurrency } from "@/hooks/use-base-currency";
+import {
+  ExchangeRate,
+  useCreateExchangeRate,
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useImportExchangeRates,
+  useUpdateExchangeRate,
+} from "@/hooks/use-exchange-rates";
+import { ExchangeRateParseResult, parseExchangeRateFile } from "@/lib/exchange-rates";
+import { parseAmount } from "@/lib/transaction-import";
+
+const emptyForm = {
+  rate_date: "",
+  from_currency: "USD",
+  to_currency: "IDR",
+  rate: "",
+};
+
+const formatRate = (rate: number) => new Intl.NumberFormat("id-ID", { maximumFractionDigits: 8 }).format(rate);
+
+export default function ExchangeRates() {
+  const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+  const { data: rates = [], isLoading } = useExchangeRates();
+  const createRate = useCreateExchangeRate();
+  const updateRate = useUpdateExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+  const importRates = useImportExchangeRates();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importResult, setImportResult] = useState<ExchangeRateParseResult | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Rates are ratios rather than money, so they keep every digit given.
+    const rate = parseAmount(formData.rate);
+    if (rate === null || rate <= 0) {
+      toast.error("Kurs tidak valid");
+      return;
+    }
+    if (formData.from_currency === formData.to_currency) {
+      toast.error("Mata uang asal dan tujuan tidak boleh sama");
+      return;
+    }
+
+    const rateData = {
+      user_id: user!.id,
+      rate_date: formData.rate_date,
+      from_currency: formData.from_currency,
+      to_currency: formData.to_currency,
+      rate,
+    };
+
+    if (editingRate) {
+      updateRate.mutate(
+        { id: editingRate.id, changes: rateData },
+        { onSuccess: () => toast.success("Kurs berhasil diperbarui") }
+      );
+    } else {
+      createRate.mutate(rateData, {
+        onSuccess: () => toast.success("Kurs berhasil ditambahkan"),
+      });
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus kurs ini?")) return;
+
+    deleteRate.mutate(id, {
+      onSuccess: () => toast.success("Kurs berhasil dihapus"),
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportResult(parseExchangeRateFile(await file.text()));
+  };
+
+  const handleImport = () => {
+    if (!importResult || importResult.rates.length === 0) return;
+
+    const count = importResult.rates.length;
+    importRates.mutate(
+      importResult.rates.map((rate) => ({ ...rate, user_id: user!.id })),
+      { onSuccess: () => toast.success(`${count} kurs berhasil diimpor`) }
+    );
+    setImportOpen(false);
+    setImportResult(null);
+  };
+
+  const openNewDialog = () => {
+    setEditingRate(null);
+    setFormData({
+      ...emptyForm,
+      rate_date: format(new Date(), "yyyy-MM-dd"),
+      to_currency: baseCurrency,
+      from_currency: baseCurrency === "USD" ? "IDR" : "USD",
+    });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (rate: ExchangeRate) => {
+    setEditingRate(rate);
+    setFormData({
+      rate_date: rate.rate_date,
+      from_currency: rate.from_currency,
+      to_currency: rate.to_currency,
+      rate: rate.rate.toString(),
+    });
+    setDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Kurs Mata Uang</h1>
+          <p className="text-muted-foreground">
+            Kurs yang dipakai untuk mengonversi saldo dan transaksi ke {baseCurrency}.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Impor
+          </Button>
+          <Button onClick={openNewDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Tambah Kurs
+          </Button>
+        </div>
+      </div>
+
+      <MissingRatesAlert showLink={false} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Kurs</CardTitle>
+          <CardDescription>
+            Transaksi memakai kurs terakhir pada atau sebelum tanggalnya; kurs juga berlaku untuk arah sebaliknya.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Kurs</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.length > 0 ? rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell>{format(parseISO(rate.rate_date), "d MMMM yyyy", { locale: localeID })}</TableCell>
+                  <TableCell className="font-medium">
+                    1 {rate.from_currency} = {formatRate(rate.rate)} {rate.to_currency}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(rate)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rate.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center h-24">
+                    Belum ada kurs. Tambahkan atau impor kurs untuk rekening dalam mata uang lain.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRate ? "Edit Kurs" : "Tambah Kurs"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate_date">Tanggal</Label>
+              <Input
+                id="rate_date"
+                type="date"
+                value={formData.rate_date}
+                onChange={(e) => setFormData({ ...formData, rate_date: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="from_currency">Dari</Label>
+                <Select
+                  value={formData.from_currency}
+                  onValueChange={(value) => setFormData({ ...formData, from_currency: value })}
+                >
+                  <SelectTrigger id="from_currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.from_currency} />
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to_currency">Ke</Label>
+                <Select
+                  value={formData.to_currency}
+                  onValueChange={(value) => setFormData({ ...formData, to_currency: value })}
+                >
+                  <SelectTrigger id="to_currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.to_currency} />
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rate">
+                Nilai 1 {formData.from_currency} dalam {formData.to_currency}
+              </Label>
+              <Input
+                id="rate"
+                inputMode="decimal"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                placeholder="Contoh: 16250,50"
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingRate ? "Perbarui" : "Simpan"} Kurs
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={importOpen}
+        onOpenChange={(open) => {
+          setImportOpen(open);
+          if (!open) setImportResult(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Impor Kurs</DialogTitle>
+            <DialogDescription>
+              File CSV dengan kolom tanggal, mata uang asal, mata uang tujuan dan kurs, misalnya
+              "2026-10-01;USD;IDR;16250,50". Kurs yang sudah ada untuk tanggal dan pasangan yang sama akan diganti.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate_file">File CSV</Label>
+              <Input id="rate_file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            </div>
+
+            {importResult && (
+              <div className="space-y-2 text-sm">
+                <p>{importResult.rates.length} kurs siap diimpor.</p>
+                {importResult.errors.length > 0 && (
+                  <ul className="max-h-40 list-disc space-y-1 overflow-y-auto pl-5 text-destructive">
+                    {importResult.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <Button className="w-full" onClick={handleImport} disabled={!importResult || importResult.rates.length === 0}>
+              Impor Kurs
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
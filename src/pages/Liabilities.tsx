@@ -0,0 +1,472 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Plus, Pencil, Trash2, CalendarClock, Banknote } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { DEFAULT_CURRENCY, formatMoney, moneyToNumeric, parseMoney, sumMoney } from "@/lib/utils";
+import {
+  computeLoanStatus,
+  INTEREST_METHOD_LABELS,
+  InterestMethod,
+  LIABILITY_TYPE_LABELS,
+  LiabilityType,
+  regularPayment,
+} from "@/lib/liabilities";
+import { parseAmount } from "@/lib/transaction-import";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { AmortizationScheduleDialog } from "@/components/liabilities/AmortizationScheduleDialog";
+import { LiabilityPaymentDialog } from "@/components/liabilities/LiabilityPaymentDialog";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import {
+  Liability,
+  useCreateLiability,
+  useDeleteLiability,
+  useLiabilities,
+  useLiabilityPayments,
+  useUpdateLiability,
+} from "@/hooks/use-liabilities";
+
+const NO_ACCOUNT = "none";
+
+const emptyForm = {
+  name: "",
+  type: "mortgage",
+  principal: "",
+  interest_rate: "",
+  interest_method: "annuity",
+  tenor_months: "",
+  start_date: "",
+  payment_day: "",
+  currency: DEFAULT_CURRENCY,
+  account_id: NO_ACCOUNT,
+};
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy", { locale: localeID });
+
+export default function Liabilities() {
+  const { user } = useAuth();
+  const { data: liabilities = [], isLoading: liabilitiesLoading } = useLiabilities();
+  const { data: payments = [], isLoading: paymentsLoading } = useLiabilityPayments();
+  const { data: accounts = [] } = useBankAccounts();
+  const createLiability = useCreateLiability();
+  const updateLiability = useUpdateLiability();
+  const deleteLiability = useDeleteLiability();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLiability, setEditingLiability] = useState<Liability | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [scheduleLiabilityId, setScheduleLiabilityId] = useState<string | null>(null);
+  const [paymentLiabilityId, setPaymentLiabilityId] = useState<string | null>(null);
+  const loading = liabilitiesLoading || paymentsLoading;
+
+  const rows = liabilities.map((liability) => ({
+    liability,
+    status: computeLoanStatus(liability, payments.filter((p) => p.liability_id === liability.id)),
+  }));
+  const scheduleRow = rows.find((row) => row.liability.id === scheduleLiabilityId);
+  const paymentRow = rows.find((row) => row.liability.id === paymentLiabilityId);
+
+  const outstandingByCurrency = Array.from(new Set(liabilities.map((l) => l.currency))).map((currency) => ({
+    currency,
+    total: sumMoney(rows.filter((row) => row.liability.currency === currency).map((row) => row.status.remaining)),
+  }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const principal = parseMoney(formData.principal, formData.currency);
+    const interestRate = formData.interest_rate ? parseAmount(formData.interest_rate) : 0;
+    const tenor = Number(formData.tenor_months);
+    const paymentDay = Number(formData.payment_day);
+    if (principal === null || principal <= 0n) {
+      toast.error("Pokok pinjaman tidak valid");
+      return;
+    }
+    if (interestRate === null || interestRate < 0) {
+      toast.error("Suku bunga tidak valid");
+      return;
+    }
+    if (!Number.isInteger(tenor) || tenor <= 0) {
+      toast.error("Tenor harus berupa jumlah bulan");
+      return;
+    }
+    if (!Number.isInteger(paymentDay) || paymentDay < 1 || paymentDay > 31) {
+      toast.error("Tanggal bayar harus antara 1 dan 31");
+      return;
+    }
+
+    const liabilityData = {
+      user_id: user!.id,
+      name: formData.name,
+      type: formData.type,
+      principal: moneyToNumeric(principal, formData.currency),
+      interest_rate: interestRate,
+      interest_method: formData.interest_method,
+      tenor_months: tenor,
+      start_date: formData.start_date,
+      payment_day: paymentDay,
+      currency: formData.currency,
+      account_id: formData.account_id === NO_ACCOUNT ? null : formData.account_id,
+    };
+
+    if (editingLiability) {
+      updateLiability.mutate(
+        { id: editingLiability.id, changes: liabilityData },
+        { onSuccess: () => toast.success("Kewajiban berhasil diperbarui") }
+      );
+    } else {
+      createLiability.mutate(liabilityData, {
+        onSuccess: () => toast.success("Kewajiban berhasil ditambahkan"),
+      });
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus kewajiban ini? Pembayaran yang sudah dicatat tetap tersimpan sebagai pengeluaran.")) return;
+
+    deleteLiability.mutate(id, {
+      onSuccess: () => toast.success("Kewajiban berhasil dihapus"),
+    });
+  };
+
+  const openNewDialog = () => {
+    setEditingLiability(null);
+    setFormData({ ...emptyForm, start_date: format(new Date(), "yyyy-MM-dd") });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (liability: Liability) => {
+    setEditingLiability(liability);
+    setFormData({
+      name: liability.name,
+      type: liability.type,
+      principal: liability.principal.toString(),
+      interest_rate: liability.interest_rate.toString(),
+      interest_method: liability.interest_method,
+      tenor_months: liability.tenor_months.toString(),
+      start_date: liability.start_date,
+      payment_day: liability.payment_day.toString(),
+      currency: liability.currency,
+      account_id: liability.account_id ?? NO_ACCOUNT,
+    });
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Kewajiban</h1>
+          <p className="text-muted-foreground">
+            Pantau KPR, kredit kendaraan, paylater, dan pinjaman lainnya beserta jadwal angsurannya.
+          </p>
+        </div>
+        <Button onClick={openNewDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Kewajiban
+        </Button>
+      </div>
+
+      {outstandingByCurrency.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {outstandingByCurrency.map(({ currency, total }) => (
+            <Card key={currency}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">
+                  Sisa Pokok{outstandingByCurrency.length > 1 ? ` (${currency})` : ""}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(total, currency)}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Kewajiban</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead className="text-right">Angsuran</TableHead>
+                <TableHead>Progres</TableHead>
+                <TableHead className="text-right">Sisa Pokok</TableHead>
+                <TableHead>Berikutnya</TableHead>
+                <TableHead>Lunas</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length > 0 ? rows.map(({ liability, status }) => (
+                <TableRow key={liability.id}>
+                  <TableCell>
+                    <div className="font-medium">{liability.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {LIABILITY_TYPE_LABELS[liability.type as LiabilityType]} · {liability.interest_rate}%{" "}
+                      {INTEREST_METHOD_LABELS[liability.interest_method as InterestMethod]} · {liability.tenor_months} bln
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatMoney(regularPayment(liability), liability.currency)}</TableCell>
+                  <TableCell className="min-w-32">
+                    <Progress value={status.percentPaid} />
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {status.paidInstallments} dari {liability.tenor_months} angsuran
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{formatMoney(status.remaining, liability.currency)}</TableCell>
+                  <TableCell>
+                    {status.nextInstallment ? (
+                      <>
+                        <div>{formatDate(status.nextInstallment.dueDate)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Pokok {formatMoney(status.nextInstallment.principal, liability.currency)} · Bunga{" "}
+                          {formatMoney(status.nextInstallment.interest, liability.currency)}
+                        </div>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {status.remaining === 0n ? "Lunas" : status.payoffDate ? formatDate(status.payoffDate) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Bayar angsuran"
+                      disabled={status.remaining === 0n}
+                      onClick={() => setPaymentLiabilityId(liability.id)}
+                    >
+                      <Banknote className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Jadwal angsuran" onClick={() => setScheduleLiabilityId(liability.id)}>
+                      <CalendarClock className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(liability)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(liability.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center h-24">
+                    Belum ada kewajiban. Tambahkan pinjaman atau cicilan yang sedang berjalan.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingLiability ? "Edit Kewajiban" : "Tambah Kewajiban"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Nama</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Contoh: KPR Rumah Bekasi"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="type">Jenis</Label>
+                <Select value={formData.type} onValueChange={(type) => setFormData({ ...formData, type })}>
+                  <SelectTrigger id="type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LIABILITY_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="currency">Mata Uang</Label>
+                <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency, account_id: NO_ACCOUNT })}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.currency} />
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="principal">Pokok Pinjaman</Label>
+              <Input
+                id="principal"
+                type="number"
+                step="any"
+                value={formData.principal}
+                onChange={(e) => setFormData({ ...formData, principal: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="interest_rate">Bunga per Tahun (%)</Label>
+                <Input
+                  id="interest_rate"
+                  inputMode="decimal"
+                  value={formData.interest_rate}
+                  onChange={(e) => setFormData({ ...formData, interest_rate: e.target.value })}
+                  placeholder="0"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="interest_method">Perhitungan Bunga</Label>
+                <Select value={formData.interest_method} onValueChange={(interest_method) => setFormData({ ...formData, interest_method })}>
+                  <SelectTrigger id="interest_method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTEREST_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tenor_months">Tenor (bulan)</Label>
+                <Input
+                  id="tenor_months"
+                  type="number"
+                  min={1}
+                  value={formData.tenor_months}
+                  onChange={(e) => setFormData({ ...formData, tenor_months: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="start_date">Tanggal Mulai</Label>
+                <Input
+                  id="start_date"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment_day">Tanggal Bayar</Label>
+                <Input
+                  id="payment_day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={formData.payment_day}
+                  onChange={(e) => setFormData({ ...formData, payment_day: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="account_id">Rekening Pembayaran</Label>
+              <Select value={formData.account_id} onValueChange={(account_id) => setFormData({ ...formData, account_id })}>
+                <SelectTrigger id="account_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Tidak ditentukan</SelectItem>
+                  {accounts
+                    .filter((account) => account.currency === formData.currency)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.bank_name} - {account.account_number}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingLiability ? "Perbarui" : "Simpan"} Kewajiban
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AmortizationScheduleDialog
+        liability={scheduleRow?.liability ?? null}
+        paidInstallments={scheduleRow?.status.paidInstallments ?? 0}
+        onOpenChange={(open) => !open && setScheduleLiabilityId(null)}
+      />
+
+      {paymentRow && (
+        <LiabilityPaymentDialog
+          key={paymentRow.liability.id}
+          liability={paymentRow.liability}
+          nextInstallment={paymentRow.status.nextInstallment}
+          onOpenChange={(open) => !open && setPaymentLiabilityId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Trash2, HandCoins } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { DEFAULT_CURRENCY, formatCurrency, formatMoney, moneyToNumeric, parseMoney, sumMoney } from "@/lib/utils";
+import {
+  computeDebtStatus,
+  DEBT_DIRECTION_DESCRIPTIONS,
+  DEBT_DIRECTION_LABELS,
+  DebtDirection,
+  summarizeByCounterparty,
+} from "@/lib/personal-debts";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { DebtRepaymentDialog } from "@/components/personal-debts/DebtRepaymentDialog";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import {
+  PersonalDebt,
+  useCounterparties,
+  useCreatePersonalDebt,
+  useDeletePersonalDebt,
+  usePersonalDebts,
+  usePersonalDebtTransactions,
+  useUpdatePersonalDebt,
+} from "@/hooks/use-personal-debts";
+
+const NO_ACCOUNT = "none";
+const NEW_COUNTERPARTY = "new";
+
+const emptyForm = {
+  counterparty_id: NEW_COUNTERPARTY,
+  counterparty_name: "",
+  direction: "lent" as DebtDirection,
+  amount: "",
+  currency: DEFAULT_CURRENCY,
+  debt_date: format(new Date(), "yyyy-MM-dd"),
+  due_date: "",
+  description: "",
+  account_id: NO_ACCOUNT,
+};
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy", { locale: localeID });
+
+export default function PersonalDebts() {
+  const { user } = useAuth();
+  const { data: debts = [], isLoading: debtsLoading } = usePersonalDebts();
+  const { data: transactions = [], isLoading: transactionsLoading } = usePersonalDebtTransactions();
+  const { data: counterparties = [] } = useCounterparties();
+  const { data: accounts = [] } = useBankAccounts();
+  const createDebt = useCreatePersonalDebt();
+  const updateDebt = useUpdatePersonalDebt();
+  const deleteDebt = useDeletePersonalDebt();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDebt, setEditingDebt] = useState<PersonalDebt | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [repaymentDebtId, setRepaymentDebtId] = useState<string | null>(null);
+  const loading = debtsLoading || transactionsLoading;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const rows = debts.map((debt) => {
+    const own = transactions.filter((t) => t.personal_debt_id === debt.id);
+    return { debt, transactions: own, status: computeDebtStatus(debt, own, today) };
+  });
+  const repaymentRow = rows.find((row) => row.debt.id === repaymentDebtId);
+  const balances = summarizeByCounterparty(rows);
+  const counterpartyName = new Map(debts.map((d) => [d.counterparty_id, d.counterparties?.name ?? ""]));
+  const currencies = Array.from(new Set(balances.map((b) => b.currency)));
+  const debtAccounts = accounts.filter((a) => a.currency === formData.currency);
+  // A share of a split expense is always money lent in the currency of the expense.
+  const isSplitShare = !!editingDebt?.split_transaction_id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseMoney(formData.amount, formData.currency);
+    if (amount === null || amount <= 0n) {
+      toast.error("Jumlah tidak valid");
+      return;
+    }
+    if (formData.due_date && formData.due_date < formData.debt_date) {
+      toast.error("Jatuh tempo tidak boleh sebelum tanggal pinjam");
+      return;
+    }
+
+    const debtData = {
+      user_id: user!.id,
+      direction: formData.direction,
+      amount: moneyToNumeric(amount, formData.currency),
+      currency: formData.currency,
+      debt_date: formData.debt_date,
+      due_date: formData.due_date || null,
+      description: formData.description || null,
+    };
+
+    if (editingDebt) {
+      updateDebt.mutate(
+        { id: editingDebt.id, changes: { ...debtData, counterparty_id: formData.counterparty_id } },
+        { onSuccess: () => toast.success("Catatan berhasil diperbarui") }
+      );
+    } else {
+      const isNew = formData.counterparty_id === NEW_COUNTERPARTY;
+      const name = isNew
+        ? formData.counterparty_name.trim()
+        : counterparties.find((c) => c.id === formData.counterparty_id)?.name ?? "";
+      if (!name) {
+        toast.error("Isi nama orangnya");
+        return;
+      }
+
+      createDebt.mutate(
+        {
+          debt: debtData,
+          counterpartyId: isNew ? null : formData.counterparty_id,
+          counterpartyName: name,
+          accountId: formData.account_id === NO_ACCOUNT ? null : formData.account_id,
+        },
+        { onSuccess: () => toast.success("Catatan berhasil ditambahkan") }
+      );
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus catatan ini? Transaksi yang ditautkan tetap tersimpan sebagai pemasukan/pengeluaran biasa.")) return;
+
+    deleteDebt.mutate(id, {
+      onSuccess: () => toast.success("Catatan berhasil dihapus"),
+    });
+  };
+
+  const openNewDialog = () => {
+    setEditingDebt(null);
+    setFormData({
+      ...emptyForm,
+      counterparty_id: counterparties[0]?.id ?? NEW_COUNTERPARTY,
+      debt_date: today,
+    });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (debt: PersonalDebt) => {
+    setEditingDebt(debt);
+    setFormData({
+      counterparty_id: debt.counterparty_id,
+      counterparty_name: "",
+      direction: debt.direction as DebtDirection,
+      amount: debt.amount.toString(),
+      currency: debt.currency,
+      debt_date: debt.debt_date,
+      due_date: debt.due_date ?? "",
+      description: debt.description ?? "",
+      account_id: NO_ACCOUNT,
+    });
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Hutang Piutang</h1>
+          <p className="text-muted-foreground">
+            Catat uang yang dipinjamkan ke atau dipinjam dari keluarga dan teman, beserta cicilan pengembaliannya.
+          </p>
+        </div>
+        <Button onClick={openNewDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Catatan
+        </Button>
+      </div>
+
+      {currencies.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {currencies.map((currency) => {
+            const own = balances.filter((b) => b.currency === currency);
+            return (
+              <Card key={currency}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">{currency}</CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Piutang (orang lain berutang)</div>
+                    <div className="text-xl font-bold text-green-600">
+                      {formatMoney(sumMoney(own.map((b) => b.receivable)), currency)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Hutang (saya berutang)</div>
+                    <div className="text-xl font-bold text-red-600">
+                      {formatMoney(sumMoney(own.map((b) => b.payable)), currency)}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saldo per Orang</CardTitle>
+          <CardDescription>Sisa yang belum dikembalikan, dari catatan yang belum lunas.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead className="text-right">Piutang</TableHead>
+                <TableHead className="text-right">Hutang</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.length > 0 ? balances.map((balance) => (
+                <TableRow key={`${balance.counterpartyId}:${balance.currency}`}>
+                  <TableCell>
+                    <span className="font-medium">{counterpartyName.get(balance.counterpartyId)}</span>
+                    {balance.overdue && <Badge variant="destructive" className="ml-2">Lewat jatuh tempo</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">
+                    {balance.receivable > 0n ? formatMoney(balance.receivable, balance.currency) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right text-red-600">
+                    {balance.payable > 0n ? formatMoney(balance.payable, balance.currency) : "-"}
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center h-24">
+                    Tidak ada hutang atau piutang yang berjalan.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Semua Catatan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Jenis</TableHead>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Jatuh Tempo</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+                <TableHead className="text-right">Dikembalikan</TableHead>
+                <TableHead className="text-right">Sisa</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length > 0 ? rows.map(({ debt, status }) => (
+                <TableRow key={debt.id}>
+                  <TableCell>
+                    <div className="font-medium">{debt.counterparties?.name}</div>
+                    {debt.description && <div className="text-xs text-muted-foreground">{debt.description}</div>}
+                    {debt.split_transaction_id && <div className="text-xs text-muted-foreground">Bagian dari transaksi bersama</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={debt.direction === "lent" ? "default" : "secondary"}>
+                      {DEBT_DIRECTION_LABELS[debt.direction as DebtDirection]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(debt.debt_date)}</TableCell>
+                  <TableCell className={`whitespace-nowrap ${status.overdue ? "font-medium text-destructive" : ""}`}>
+                    {debt.due_date ? formatDate(debt.due_date) : "-"}
+                    {status.overdue && <div className="text-xs">Lewat jatuh tempo</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(debt.amount, debt.currency)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(status.repaid, debt.currency)}</TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {status.settled ? <Badge variant="outline">Lunas</Badge> : formatMoney(status.outstanding, debt.currency)}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" title="Pembayaran" onClick={() => setRepaymentDebtId(debt.id)}>
+                      <HandCoins className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(debt)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(debt.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center h-24">
+                    Belum ada catatan hutang piutang.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingDebt ? "Edit Catatan" : "Tambah Catatan"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="direction">Jenis</Label>
+              <Select
+                value={formData.direction}
+                disabled={isSplitShare}
+                onValueChange={(direction) => setFormData({ ...formData, direction: direction as DebtDirection })}
+              >
+                <SelectTrigger id="direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DEBT_DIRECTION_LABELS) as DebtDirection[]).map((direction) => (
+                    <SelectItem key={direction} value={direction}>
+                      {DEBT_DIRECTION_LABELS[direction]} - {DEBT_DIRECTION_DESCRIPTIONS[direction]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="counterparty_id">Orang</Label>
+              <Select
+                value={formData.counterparty_id}
+                onValueChange={(counterparty_id) => setFormData({ ...formData, counterparty_id })}
+              >
+                <SelectTrigger id="counterparty_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {counterparties.map((counterparty) => (
+                    <SelectItem key={counterparty.id} value={counterparty.id}>{counterparty.name}</SelectItem>
+                  ))}
+                  {!editingDebt && <SelectItem value={NEW_COUNTERPARTY}>+ Orang baru</SelectItem>}
+                </SelectContent>
+              </Select>
+              {formData.counterparty_id === NEW_COUNTERPARTY && (
+                <Input
+                  id="counterparty_name"
+                  value={formData.counterparty_name}
+                  onChange={(e) => setFormData({ ...formData, counterparty_name: e.target.value })}
+                  placeholder="Contoh: Adik, Budi"
+                  required
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">Jumlah</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="any"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="currency">Mata Uang</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(currency) => setFormData({ ...formData, currency, account_id: NO_ACCOUNT })}
+                  disabled={isSplitShare}
+                >
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.currency} />
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="debt_date">Tanggal</Label>
+                <Input
+                  id="debt_date"
+                  type="date"
+                  value={formData.debt_date}
+                  onChange={(e) => setFormData({ ...formData, debt_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="due_date">Jatuh Tempo (opsional)</Label>
+                <Input
+                  id="due_date"
+                  type="date"
+                  value={formData.due_date}
+                  onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Keterangan (opsional)</Label>
+              <Input
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Contoh: Biaya kuliah"
+              />
+            </div>
+
+            {!editingDebt && (
+              <div className="space-y-2">
+                <Label htmlFor="account_id">Rekening (opsional)</Label>
+                <Select value={formData.account_id} onValueChange={(account_id) => setFormData({ ...formData, account_id })}>
+                  <SelectTrigger id="account_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>Tidak dicatat sebagai transaksi</SelectItem>
+                    {debtAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.bank_name} - {account.account_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {formData.direction === "lent"
+                    ? "Uang yang dipinjamkan dicatat keluar dari rekening ini."
+                    : "Uang pinjaman dicatat masuk ke rekening ini."}
+                </p>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full">
+              {editingDebt ? "Perbarui" : "Simpan"} Catatan
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <DebtRepaymentDialog
+        key={repaymentDebtId ?? "closed"}
+        debt={repaymentRow?.debt ?? null}
+        status={repaymentRow?.status ?? null}
+        transactions={repaymentRow?.transactions ?? []}
+        onOpenChange={(open) => !open && setRepaymentDebtId(null)}
+      />
+    </div>
+  );
+}
@@ -11,8 +11,16 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
 
 export default function Profile() {
   const { user, session } = useAuth();
@@ -20,6 +28,7 @@ export default function Profile() {
   const [loadingPassword, setLoadingPassword] = useState(false);
 
   const [fullName, setFullName] = useState("");
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -27,6 +36,7 @@ export default function Profile() {
   useEffect(() => {
     if (user) {
       setFullName(user.user_metadata?.full_name || "");
+      setBaseCurrency(user.user_metadata?.base_currency || DEFAULT_CURRENCY);
       setEmail(user.email || "");
     }
   }, [user]);
@@ -36,7 +46,7 @@ export default function Profile() {
     setLoading(true);
     try {
       const { error } = await supabase.auth.updateUser({
-        data: { full_name: fullName },
+        data: { full_name: fullName, base_currency: baseCurrency },
       });
 
       if (error) throw error;
@@ -88,7 +98,7 @@ export default function Profile() {
           <CardHeader>
             <CardTitle>Informasi Akun</CardTitle>
             <CardDescription>
-              Perbarui nama lengkap dan lihat email Anda.
+              Perbarui nama lengkap dan mata uang dasar, dan lihat email Anda.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -107,6 +117,20 @@ export default function Profile() {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="baseCurrency">Mata Uang Dasar</Label>
+                <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+                  <SelectTrigger id="baseCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={baseCurrency} />
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Total di dasbor dan laporan dikonversi ke mata uang ini dengan kurs yang Anda catat.
+                </p>
+              </div>
               <Button type="submit" disabled={loading}>
                 {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Simpan Perubahan
@@ -0,0 +1,805 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, SkipForward, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { addDays, format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { DEFAULT_CURRENCY, formatCurrency, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { TransactionType, TRANSACTION_TYPE_LABELS } from "@/lib/transactions";
+import {
+  describeRule,
+  FREQUENCY_LABELS,
+  getNextOccurrence,
+  listOccurrences,
+  RecurrenceFrequency,
+  WEEKDAY_LABELS,
+  WEEK_OF_MONTH_LABELS,
+} from "@/lib/recurrence";
+import {
+  RecurringException,
+  RecurringTransaction,
+  useCreateRecurringTransaction,
+  useDeleteRecurringException,
+  useDeleteRecurringTransaction,
+  useRecurringTransactions,
+  useSaveRecurringException,
+  useUpdateRecurringTransaction,
+} from "@/hooks/use-recurring-transactions";
+import { useCategories } from "@/hooks/use-categories";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+
+interface Occurrence {
+  template: RecurringTransaction;
+  date: string;
+  exception: RecurringException | undefined;
+}
+
+type EndMode = "never" | "date" | "count";
+type MonthlyMode = "day" | "weekday";
+
+// How far ahead the review list looks.
+const UPCOMING_DAYS = 30;
+
+const emptyForm = {
+  description: "",
+  amount: "",
+  type: "expense" as TransactionType,
+  category_id: "",
+  account_id: "",
+  to_account_id: "",
+  fee: "",
+  frequency: "monthly" as RecurrenceFrequency,
+  interval: "1",
+  start_date: "",
+  monthly_mode: "day" as MonthlyMode,
+  weekday: "1",
+  week_of_month: "1",
+  end_mode: "never" as EndMode,
+  end_date: "",
+  occurrence_limit: "",
+};
+
+export default function Recurring() {
+  const { user } = useAuth();
+  const { data: schedule, isLoading: loading } = useRecurringTransactions();
+  const templates = schedule?.templates ?? [];
+  const exceptions = schedule?.exceptions ?? [];
+  const createTemplate = useCreateRecurringTransaction();
+  const updateTemplate = useUpdateRecurringTransaction();
+  const deleteTemplate = useDeleteRecurringTransaction();
+  const saveException = useSaveRecurringException();
+  const deleteException = useDeleteRecurringException();
+  const { data: categories = [] } = useCategories();
+  const { data: accounts = [] } = useBankAccounts();
+  const currencyOf = (accountId: string | null) =>
+    accounts.find((account) => account.id === accountId)?.currency ?? DEFAULT_CURRENCY;
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTransaction | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [modifyingOccurrence, setModifyingOccurrence] = useState<Occurrence | null>(null);
+  const [occurrenceForm, setOccurrenceForm] = useState({ description: "", amount: "", transaction_date: "" });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isTransfer = formData.type === "transfer";
+    if (!formData.account_id || (isTransfer && !formData.to_account_id)) {
+      toast.error("Pilih rekening terlebih dahulu");
+      return;
+    }
+    if (isTransfer && formData.account_id === formData.to_account_id) {
+      toast.error("Rekening asal dan tujuan tidak boleh sama");
+      return;
+    }
+
+    const currency = currencyOf(formData.account_id);
+    const amount = parseMoney(formData.amount, currency);
+    const fee = isTransfer && formData.fee ? parseMoney(formData.fee, currency) : 0n;
+    if (amount === null || amount <= 0n || fee === null || fee < 0n) {
+      toast.error("Jumlah tidak valid");
+      return;
+    }
+
+    const usesWeekday = formData.frequency === "weekly"
+      || (formData.frequency === "monthly" && formData.monthly_mode === "weekday");
+
+    const templateData = {
+      user_id: user!.id,
+      description: formData.description,
+      amount: moneyToNumeric(amount, currency),
+      type: formData.type,
+      category_id: isTransfer ? null : formData.category_id || null,
+      account_id: formData.account_id,
+      to_account_id: isTransfer ? formData.to_account_id : null,
+      fee: moneyToNumeric(fee, currency),
+      frequency: formData.frequency,
+      interval: parseInt(formData.interval, 10) || 1,
+      start_date: formData.start_date,
+      weekday: usesWeekday ? parseInt(formData.weekday, 10) : null,
+      week_of_month: formData.frequency === "monthly" && formData.monthly_mode === "weekday"
+        ? parseInt(formData.week_of_month, 10)
+        : null,
+      end_date: formData.end_mode === "date" ? formData.end_date : null,
+      occurrence_limit: formData.end_mode === "count" ? parseInt(formData.occurrence_limit, 10) : null,
+    };
+
+    if (editingTemplate) {
+      updateTemplate.mutate(
+        { id: editingTemplate.id, changes: templateData },
+        { onSuccess: () => toast.success("Transaksi berulang berhasil diperbarui") }
+      );
+    } else {
+      createTemplate.mutate(templateData, {
+        onSuccess: () => toast.success("Transaksi berulang berhasil dibuat"),
+      });
+    }
+
+    setDialogOpen(false);
+    setEditingTemplate(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus transaksi berulang ini? Transaksi yang sudah tercatat tidak akan dihapus.")) return;
+
+    deleteTemplate.mutate(id, {
+      onSuccess: () => toast.success("Transaksi berulang berhasil dihapus"),
+    });
+  };
+
+  const handleToggleActive = (template: RecurringTransaction, isActive: boolean) => {
+    // Resuming skips the occurrences that fell due while the template was paused.
+    updateTemplate.mutate({
+      id: template.id,
+      changes: {
+        is_active: isActive,
+        ...(isActive && { materialized_through: format(new Date(), "yyyy-MM-dd") }),
+      },
+    });
+  };
+
+  const handleSkip = (occurrence: Occurrence) => {
+    saveException.mutate(
+      {
+        user_id: user!.id,
+        recurring_transaction_id: occurrence.template.id,
+        occurrence_date: occurrence.date,
+        action: "skip",
+        amount: null,
+        description: null,
+        transaction_date: null,
+      },
+      { onSuccess: () => toast.success("Jadwal dilewati") }
+    );
+  };
+
+  const handleRestore = (exception: RecurringException) => {
+    deleteException.mutate(exception.id);
+  };
+
+  const handleModifySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!modifyingOccurrence) return;
+
+    const currency = currencyOf(modifyingOccurrence.template.account_id);
+    const amount = parseMoney(occurrenceForm.amount, currency);
+    if (amount === null || amount <= 0n) {
+      toast.error("Jumlah tidak valid");
+      return;
+    }
+
+    saveException.mutate(
+      {
+        user_id: user!.id,
+        recurring_transaction_id: modifyingOccurrence.template.id,
+        occurrence_date: modifyingOccurrence.date,
+        action: "modify",
+        amount: moneyToNumeric(amount, currency),
+        description: occurrenceForm.description,
+        transaction_date: occurrenceForm.transaction_date,
+      },
+      { onSuccess: () => toast.success("Jadwal berhasil diubah") }
+    );
+    setModifyingOccurrence(null);
+  };
+
+  const openNewDialog = () => {
+    setEditingTemplate(null);
+    setFormData({
+      ...emptyForm,
+      start_date: new Date().toISOString().substring(0, 10),
+      account_id: accounts.length === 1 ? accounts[0].id : "",
+    });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (template: RecurringTransaction) => {
+    setEditingTemplate(template);
+    setFormData({
+      description: template.description,
+      amount: template.amount.toString(),
+      type: template.type,
+      category_id: template.category_id || "",
+      account_id: template.account_id,
+      to_account_id: template.to_account_id || "",
+      fee: template.fee ? template.fee.toString() : "",
+      frequency: template.frequency,
+      interval: template.interval.toString(),
+      start_date: template.start_date,
+      monthly_mode: template.week_of_month !== null ? "weekday" : "day",
+      weekday: (template.weekday ?? 1).toString(),
+      week_of_month: (template.week_of_month ?? 1).toString(),
+      end_mode: template.end_date ? "date" : template.occurrence_limit ? "count" : "never",
+      end_date: template.end_date || "",
+      occurrence_limit: template.occurrence_limit?.toString() || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const openModifyDialog = (occurrence: Occurrence) => {
+    setModifyingOccurrence(occurrence);
+    setOccurrenceForm({
+      description: occurrence.exception?.description || occurrence.template.description,
+      amount: (occurrence.exception?.amount ?? occurrence.template.amount).toString(),
+      transaction_date: occurrence.exception?.transaction_date || occurrence.date,
+    });
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcomingEnd = format(addDays(new Date(), UPCOMING_DAYS), "yyyy-MM-dd");
+
+  const upcoming: Occurrence[] = templates
+    .filter((template) => template.is_active)
+    .flatMap((template) => {
+      // Occurrences up to materialized_through are already transactions.
+      const from = template.materialized_through && template.materialized_through >= today
+        ? format(addDays(parseISO(template.materialized_through), 1), "yyyy-MM-dd")
+        : today;
+      return listOccurrences(template, from, upcomingEnd).map((date) => ({
+        template,
+        date,
+        exception: exceptions.find(
+          (e) => e.recurring_transaction_id === template.id && e.occurrence_date === date
+        ),
+      }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const filteredCategories = categories.filter(
+    (c) => c.type === formData.type && (!c.archived_at || c.id === formData.category_id)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Transaksi Berulang</h1>
+          <p className="text-muted-foreground">
+            Gaji, sewa, dan tagihan rutin dicatat otomatis sesuai jadwal.
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={openNewDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Tambah Jadwal
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingTemplate ? "Edit Transaksi Berulang" : "Tambah Transaksi Berulang"}
+              </DialogTitle>
+              <DialogDescription>
+                Transaksi akan dicatat otomatis setiap kali jadwalnya jatuh tempo.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Tipe Transaksi</Label>
+                <div className="flex gap-4">
+                  {(["expense", "income", "transfer"] as TransactionType[]).map((type) => (
+                    <label key={type} className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        value={type}
+                        checked={formData.type === type}
+                        onChange={() => setFormData({ ...formData, type, category_id: "", to_account_id: "", fee: "" })}
+                      />
+                      {TRANSACTION_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Deskripsi</Label>
+                <Input
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Contoh: Gaji, Sewa Kos, BPJS"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amount">Jumlah</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+
+              {formData.type !== "transfer" && (
+                <div className="space-y-2">
+                  <Label htmlFor="category_id">Kategori</Label>
+                  <Select
+                    value={formData.category_id}
+                    onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                  >
+                    <SelectTrigger id="category_id">
+                      <SelectValue placeholder="Pilih kategori" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {filteredCategories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="account_id">
+                  {formData.type === "transfer" ? "Dari Rekening" : "Rekening"}
+                </Label>
+                <Select
+                  value={formData.account_id}
+                  onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                >
+                  <SelectTrigger id="account_id">
+                    <SelectValue placeholder="Pilih rekening" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.bank_name} - {account.account_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.type === "transfer" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="to_account_id">Ke Rekening</Label>
+                    <Select
+                      value={formData.to_account_id}
+                      onValueChange={(value) => setFormData({ ...formData, to_account_id: value })}
+                    >
+                      <SelectTrigger id="to_account_id">
+                        <SelectValue placeholder="Pilih rekening" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {/* Recurring transfers carry no received amount, so both accounts share a currency. */}
+                        {accounts
+                          .filter(
+                            (account) =>
+                              account.id !== formData.account_id && account.currency === currencyOf(formData.account_id)
+                          )
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id}>
+                              {account.bank_name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fee">Biaya Transfer</Label>
+                    <Input
+                      id="fee"
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={formData.fee}
+                      onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="frequency">Frekuensi</Label>
+                  <Select
+                    value={formData.frequency}
+                    onValueChange={(value) => setFormData({ ...formData, frequency: value as RecurrenceFrequency })}
+                  >
+                    <SelectTrigger id="frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>
+                          {FREQUENCY_LABELS[frequency]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interval">Setiap</Label>
+                  <Input
+                    id="interval"
+                    type="number"
+                    min="1"
+                    value={formData.interval}
+                    onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="start_date">Mulai Tanggal</Label>
+                <Input
+                  id="start_date"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  required
+                />
+              </div>
+
+              {formData.frequency === "monthly" && (
+                <div className="space-y-2">
+                  <Label>Jatuh Tempo</Label>
+                  <div className="flex gap-4">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.monthly_mode === "day"}
+                        onChange={() => setFormData({ ...formData, monthly_mode: "day" })}
+                      />
+                      Tanggal yang sama
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.monthly_mode === "weekday"}
+                        onChange={() => setFormData({ ...formData, monthly_mode: "weekday" })}
+                      />
+                      Hari tertentu
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {(formData.frequency === "weekly"
+                || (formData.frequency === "monthly" && formData.monthly_mode === "weekday")) && (
+                <div className="grid grid-cols-2 gap-4">
+                  {formData.frequency === "monthly" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="week_of_month">Minggu ke</Label>
+                      <Select
+                        value={formData.week_of_month}
+                        onValueChange={(value) => setFormData({ ...formData, week_of_month: value })}
+                      >
+                        <SelectTrigger id="week_of_month">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 2, 3, 4, 5, -1].map((week) => (
+                            <SelectItem key={week} value={week.toString()}>
+                              {WEEK_OF_MONTH_LABELS[week]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="weekday">Hari</Label>
+                    <Select
+                      value={formData.weekday}
+                      onValueChange={(value) => setFormData({ ...formData, weekday: value })}
+                    >
+                      <SelectTrigger id="weekday">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_LABELS.map((label, index) => (
+                          <SelectItem key={label} value={index.toString()}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Berakhir</Label>
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={formData.end_mode === "never"}
+                      onChange={() => setFormData({ ...formData, end_mode: "never" })}
+                    />
+                    Tidak pernah
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={formData.end_mode === "date"}
+                      onChange={() => setFormData({ ...formData, end_mode: "date" })}
+                    />
+                    Pada tanggal
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={formData.end_mode === "count"}
+                      onChange={() => setFormData({ ...formData, end_mode: "count" })}
+                    />
+                    Setelah
+                  </label>
+                </div>
+                {formData.end_mode === "date" && (
+                  <Input
+                    type="date"
+                    min={formData.start_date}
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    required
+                  />
+                )}
+                {formData.end_mode === "count" && (
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Jumlah kali"
+                    value={formData.occurrence_limit}
+                    onChange={(e) => setFormData({ ...formData, occurrence_limit: e.target.value })}
+                    required
+                  />
+                )}
+              </div>
+
+              <Button type="submit" className="w-full">
+                {editingTemplate ? "Perbarui" : "Simpan"} Jadwal
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Jadwal</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Deskripsi</TableHead>
+                <TableHead>Jadwal</TableHead>
+                <TableHead>Berikutnya</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+                <TableHead>Aktif</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.length > 0 ? templates.map((template) => {
+                const next = template.is_active
+                  ? getNextOccurrence(template, template.materialized_through || format(addDays(parseISO(template.start_date), -1), "yyyy-MM-dd"))
+                  : null;
+                return (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">
+                      {template.description}
+                      <div className="text-xs text-muted-foreground">{TRANSACTION_TYPE_LABELS[template.type]}</div>
+                    </TableCell>
+                    <TableCell>{describeRule(template)}</TableCell>
+                    <TableCell>
+                      {next ? format(parseISO(next), "d MMM yyyy", { locale: localeID }) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(template.amount, currencyOf(template.account_id))}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={template.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(template.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center h-24">
+                    Belum ada transaksi berulang.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jadwal Mendatang</CardTitle>
+          <CardDescription>
+            Tinjau transaksi yang akan dicatat dalam {UPCOMING_DAYS} hari ke depan.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Deskripsi</TableHead>
+                <TableHead className="text-right">Jumlah</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {upcoming.length > 0 ? upcoming.map((occurrence) => {
+                const skipped = occurrence.exception?.action === "skip";
+                const modified = occurrence.exception?.action === "modify";
+                return (
+                  <TableRow key={`${occurrence.template.id}-${occurrence.date}`} className={skipped ? "opacity-50" : undefined}>
+                    <TableCell>
+                      {format(parseISO(occurrence.exception?.transaction_date || occurrence.date), "EEEE, d MMM", { locale: localeID })}
+                    </TableCell>
+                    <TableCell className={skipped ? "line-through" : "font-medium"}>
+                      {occurrence.exception?.description || occurrence.template.description}
+                      {skipped && <Badge variant="secondary" className="ml-2">Dilewati</Badge>}
+                      {modified && <Badge variant="outline" className="ml-2">Diubah</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(
+                        occurrence.exception?.amount ?? occurrence.template.amount,
+                        currencyOf(occurrence.template.account_id)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {occurrence.exception ? (
+                        <Button variant="ghost" size="icon" onClick={() => handleRestore(occurrence.exception!)}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="icon" onClick={() => handleSkip(occurrence)}>
+                          <SkipForward className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {!skipped && (
+                        <Button variant="ghost" size="icon" onClick={() => openModifyDialog(occurrence)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center h-24">
+                    Tidak ada jadwal dalam {UPCOMING_DAYS} hari ke depan.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!modifyingOccurrence} onOpenChange={(open) => !open && setModifyingOccurrence(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ubah Satu Jadwal</DialogTitle>
+            <DialogDescription>
+              Perubahan hanya berlaku untuk jadwal tanggal{" "}
+              {modifyingOccurrence && format(parseISO(modifyingOccurrence.date), "d MMMM yyyy", { locale: localeID })}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleModifySubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="occurrence_description">Deskripsi</Label>
+              <Input
+                id="occurrence_description"
+                value={occurrenceForm.description}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, description: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrence_amount">Jumlah</Label>
+              <Input
+                id="occurrence_amount"
+                type="number"
+                step="any"
+                min="0"
+                value={occurrenceForm.amount}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, amount: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrence_date">Tanggal Transaksi</Label>
+              <Input
+                id="occurrence_date"
+                type="date"
+                value={occurrenceForm.transaction_date}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, transaction_date: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">Simpan Perubahan</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
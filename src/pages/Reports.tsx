@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Bar,
   BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
   Pie,
   PieChart,
   ResponsiveContainer,
@@ -14,17 +15,19 @@ import {
   Legend,
   Cell,
 } from 'recharts';
-import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { format, parseISO, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 import { id as localeID } from 'date-fns/locale';
-import { formatCurrency } from '@/lib/utils';
-
-interface MonthlySummary {
-  month: string;
-  income: number;
-  expense: number;
-}
+import { formatCurrency, moneyToNumber } from '@/lib/utils';
+import { sumByCategory } from '@/lib/categories';
+import { useCategories } from '@/hooks/use-categories';
+import { useCategoryTotals, useMonthlyCashFlow, useNetWorthHistory, useRecalculateNetWorth } from '@/hooks/use-reports';
+import { useBaseCurrency } from '@/hooks/use-base-currency';
+import { MissingRatesAlert } from '@/components/currencies/MissingRatesAlert';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, RefreshCw } from 'lucide-react';
 
 interface CategoryExpense {
+  categoryId: string | null;
   name: string;
   value: number;
   color: string;
@@ -32,84 +35,65 @@ interface CategoryExpense {
 
 const COLORS = ['#6366F1', '#8B5CF6', '#EC4899', '#F59E0B', '#10B981', '#3B82F6'];
 
-export default function Reports() {
-  const { user } = useAuth();
-  const [monthlyData, setMonthlyData] = useState<MonthlySummary[]>([]);
-  const [categoryData, setCategoryData] = useState<CategoryExpense[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (user) {
-      fetchReportData();
-    }
-  }, [user]);
-
-  const fetchReportData = async () => {
-    setLoading(true);
-    try {
-      // 1. Data untuk Grafik Batang (6 Bulan Terakhir)
-      const monthlyPromises = [];
-      for (let i = 5; i >= 0; i--) {
-        const date = subMonths(new Date(), i);
-        const startDate = startOfMonth(date).toISOString();
-        const endDate = endOfMonth(date).toISOString();
-        
-        monthlyPromises.push(
-          supabase
-            .from('transactions')
-            .select('type, amount')
-            .eq('user_id', user!.id)
-            .gte('transaction_date', startDate)
-            .lte('transaction_date', endDate)
-        );
-      }
-      
-      const monthlyResults = await Promise.all(monthlyPromises);
+// Months shown in the net worth chart, the current one included.
+const NET_WORTH_MONTHS = 12;
 
-      const summaryData = monthlyResults.map((result, i) => {
-        const date = subMonths(new Date(), 5 - i);
-        const monthName = format(date, 'MMM', { locale: localeID });
-        
-        const income = result.data?.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0) || 0;
-        const expense = result.data?.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0) || 0;
-        
-        return { month: monthName, income, expense };
-      });
-      setMonthlyData(summaryData);
+const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
 
-      // 2. Data untuk Grafik Lingkaran (Bulan Ini)
-      const currentMonthStart = startOfMonth(new Date()).toISOString();
-      const { data: currentMonthTransactions, error } = await supabase
-        .from('transactions')
-        .select('amount, categories(name, color)')
-        .eq('user_id', user!.id)
-        .eq('type', 'expense')
-        .gte('transaction_date', currentMonthStart);
-        
-      if (error) throw error;
+export default function Reports() {
+  // The date range is fixed per visit so the query keys stay stable.
+  const [range] = useState(() => {
+    const today = new Date();
+    return {
+      from: toDateParam(startOfMonth(subMonths(today, 5))),
+      monthStart: toDateParam(startOfMonth(today)),
+      to: toDateParam(endOfMonth(today)),
+    };
+  });
+  const { data: cashFlow = [], isLoading: cashFlowLoading } = useMonthlyCashFlow(range.from, range.to);
+  const { data: expenseRows = [], isLoading: expensesLoading } = useCategoryTotals(range.monthStart, range.to);
+  const { data: categories = [], isLoading: categoriesLoading } = useCategories();
+  const { data: netWorthHistory = [], isLoading: netWorthLoading } = useNetWorthHistory(NET_WORTH_MONTHS);
+  const recalculateNetWorth = useRecalculateNetWorth();
+  const baseCurrency = useBaseCurrency();
+  // Parent category whose subcategories the pie chart currently breaks down.
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null);
+  const loading = cashFlowLoading || expensesLoading || categoriesLoading || netWorthLoading;
 
-      const expenseByCategory: { [key: string]: { value: number, color: string } } = {};
-      currentMonthTransactions.forEach(t => {
-        const categoryName = t.categories?.name || 'Lain-lain';
-        if (!expenseByCategory[categoryName]) {
-          expenseByCategory[categoryName] = { value: 0, color: t.categories?.color || '#8884d8' };
-        }
-        expenseByCategory[categoryName].value += t.amount;
-      });
+  const netWorthData = netWorthHistory.map((row) => ({
+    month: format(parseISO(row.month), 'MMM yy', { locale: localeID }),
+    netWorth: row.netWorth,
+    assets: row.bankBalance + row.assetValue,
+    liabilities: row.liabilityValue,
+  }));
 
-      const pieData = Object.keys(expenseByCategory).map(key => ({
-        name: key,
-        value: expenseByCategory[key].value,
-        color: expenseByCategory[key].color,
-      }));
-      setCategoryData(pieData);
+  const monthlyData = cashFlow.map((row) => ({
+    month: format(parseISO(row.month), 'MMM', { locale: localeID }),
+    income: row.income,
+    expense: row.expense,
+  }));
 
-    } catch (error) {
-      console.error('Error fetching report data:', error);
-    } finally {
-      setLoading(false);
+  // Subcategory totals roll up into their parent; clicking a parent slice drills
+  // down into its subcategories.
+  const categoryData: CategoryExpense[] = sumByCategory(expenseRows, categories, baseCurrency, drillCategoryId).map(
+    ({ categoryId, value }) => {
+      const category = categories.find((c) => c.id === categoryId);
+      return {
+        categoryId,
+        name: !category
+          ? 'Lain-lain'
+          : category.id === drillCategoryId
+            ? `${category.name} (umum)`
+            : category.name,
+        value: moneyToNumber(value, baseCurrency),
+        // Subcategories usually share their parent's colour, so the palette tells them apart.
+        color: drillCategoryId ? '' : category?.color || '#8884d8',
+      };
     }
-  };
+  );
+  const drillCategory = categories.find((c) => c.id === drillCategoryId);
+  const canDrillInto = (entry: CategoryExpense) =>
+    !drillCategoryId && !!entry.categoryId && categories.some((c) => c.parent_id === entry.categoryId);
 
   if (loading) {
     return (
@@ -128,6 +112,8 @@ export default function Reports() {
         </p>
       </div>
 
+      <MissingRatesAlert />
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -137,8 +123,8 @@ export default function Reports() {
             <ResponsiveContainer width="100%" height={300}>
               <BarChart data={monthlyData}>
                 <XAxis dataKey="month" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
-                <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `${formatCurrency(Number(value))}`} />
-                <Tooltip formatter={(value) => formatCurrency(Number(value))} cursor={{ fill: 'hsl(var(--muted))' }} />
+                <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `${formatCurrency(Number(value), baseCurrency)}`} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value), baseCurrency)} cursor={{ fill: 'hsl(var(--muted))' }} />
                 <Legend iconType="circle" />
                 <Bar dataKey="income" name="Pemasukan" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
                 <Bar dataKey="expense" name="Pengeluaran" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
@@ -148,8 +134,16 @@ export default function Reports() {
         </Card>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Rincian Pengeluaran Bulan Ini</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>
+              Rincian Pengeluaran Bulan Ini{drillCategory ? `: ${drillCategory.name}` : ''}
+            </CardTitle>
+            {drillCategory && (
+              <Button variant="ghost" size="sm" onClick={() => setDrillCategoryId(null)}>
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Semua Kategori
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -164,18 +158,53 @@ export default function Reports() {
                   dataKey="value"
                   nameKey="name"
                   label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                  onClick={(entry: CategoryExpense) => canDrillInto(entry) && setDrillCategoryId(entry.categoryId)}
                 >
                   {categoryData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} />
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={entry.color || COLORS[index % COLORS.length]}
+                      cursor={canDrillInto(entry) ? 'pointer' : undefined}
+                    />
                   ))}
                 </Pie>
-                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value), baseCurrency)} />
                 <Legend iconType="circle" />
               </PieChart>
             </ResponsiveContainer>
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Kekayaan Bersih ({NET_WORTH_MONTHS} Bulan Terakhir)</CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Bulan yang sudah lewat disimpan apa adanya. Hitung ulang setelah mencatat transaksi atau nilai aset lama."
+            disabled={recalculateNetWorth.isPending}
+            onClick={() => recalculateNetWorth.mutate()}
+          >
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Hitung Ulang
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={netWorthData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="month" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+              <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} width={100} tickFormatter={(value) => formatCurrency(Number(value), baseCurrency)} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value), baseCurrency)} />
+              <Legend iconType="circle" />
+              <Line type="monotone" dataKey="netWorth" name="Kekayaan Bersih" stroke="hsl(var(--primary))" strokeWidth={2} />
+              <Line type="monotone" dataKey="assets" name="Rekening & Aset" stroke="#10B981" strokeDasharray="4 4" dot={false} />
+              <Line type="monotone" dataKey="liabilities" name="Kewajiban" stroke="hsl(var(--destructive))" strokeDasharray="4 4" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,525 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { formatCurrency, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { chunk } from "@/lib/transaction-import";
+import {
+  applyRules,
+  CategoryRule,
+  describeRuleConditions,
+  isValidPattern,
+  RuleMatchMode,
+} from "@/lib/categorization-rules";
+import {
+  useCategoryRules,
+  useCreateCategoryRule,
+  useDeleteCategoryRule,
+  useUpdateCategoryRule,
+} from "@/hooks/use-category-rules";
+import { useCategories } from "@/hooks/use-categories";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import { invalidateTransactionData } from "@/hooks/use-transactions";
+
+interface PlannedChange {
+  id: string;
+  transaction_date: string;
+  amount: number;
+  before: string;
+  after: string;
+  category_id: string;
+  rule: CategoryRule;
+}
+
+const ANY = "any";
+const UPDATE_CONCURRENCY = 20;
+// Rows per request when loading uncategorized transactions; the API returns at
+// most 1000 rows at a time.
+const PREVIEW_PAGE_SIZE = 1000;
+
+const emptyForm = {
+  name: "",
+  priority: "0",
+  description_pattern: "",
+  match_mode: "contains" as RuleMatchMode,
+  min_amount: "",
+  max_amount: "",
+  account_id: ANY,
+  transaction_type: ANY,
+  category_id: "",
+  rewrite_description: "",
+};
+
+export default function Rules() {
+  const { user } = useAuth();
+  const { data: rules = [], isLoading: loading } = useCategoryRules();
+  const createRule = useCreateCategoryRule();
+  const updateRule = useUpdateCategoryRule();
+  const deleteRule = useDeleteCategoryRule();
+  const queryClient = useQueryClient();
+  const { data: categories = [] } = useCategories();
+  const { data: accounts = [] } = useBankAccounts();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [plannedChanges, setPlannedChanges] = useState<PlannedChange[] | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.category_id) {
+      toast.error("Pilih kategori tujuan");
+      return;
+    }
+    if (!isValidPattern(formData.description_pattern, formData.match_mode)) {
+      toast.error("Pola regex tidak valid");
+      return;
+    }
+
+    const minAmount = formData.min_amount ? parseMoney(formData.min_amount) : undefined;
+    const maxAmount = formData.max_amount ? parseMoney(formData.max_amount) : undefined;
+    if (minAmount === null || maxAmount === null) {
+      toast.error("Batas jumlah tidak valid");
+      return;
+    }
+
+    const ruleData = {
+      user_id: user!.id,
+      name: formData.name,
+      priority: parseInt(formData.priority, 10) || 0,
+      description_pattern: formData.description_pattern || null,
+      match_mode: formData.match_mode,
+      min_amount: minAmount === undefined ? null : moneyToNumeric(minAmount),
+      max_amount: maxAmount === undefined ? null : moneyToNumeric(maxAmount),
+      account_id: formData.account_id === ANY ? null : formData.account_id,
+      transaction_type: formData.transaction_type === ANY ? null : formData.transaction_type,
+      category_id: formData.category_id,
+      rewrite_description: formData.rewrite_description || null,
+    };
+
+    if (editingRule) {
+      updateRule.mutate(
+        { id: editingRule.id, changes: ruleData },
+        { onSuccess: () => toast.success("Aturan berhasil diperbarui") }
+      );
+    } else {
+      createRule.mutate(ruleData, {
+        onSuccess: () => toast.success("Aturan berhasil dibuat"),
+      });
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Apakah Anda yakin ingin menghapus aturan ini?")) return;
+
+    deleteRule.mutate(id, {
+      onSuccess: () => toast.success("Aturan berhasil dihapus"),
+    });
+  };
+
+  const handleToggleActive = (rule: CategoryRule, isActive: boolean) => {
+    updateRule.mutate({ id: rule.id, changes: { is_active: isActive } });
+  };
+
+  // Dry run: computes what the rules would change without writing anything.
+  const handlePreviewRetroactive = async () => {
+    try {
+      const transactions: Pick<
+        Tables<"transactions">,
+        "id" | "description" | "amount" | "type" | "account_id" | "transaction_date"
+      >[] = [];
+      for (let offset = 0; ; offset += PREVIEW_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("transactions")
+          .select("id, description, amount, type, account_id, transaction_date")
+          .eq("user_id", user!.id)
+          .is("category_id", null)
+          .in("type", ["income", "expense"])
+          .order("transaction_date", { ascending: false })
+          .order("id", { ascending: false })
+          .range(offset, offset + PREVIEW_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        transactions.push(...data);
+        if (data.length < PREVIEW_PAGE_SIZE) break;
+      }
+
+      setPlannedChanges(
+        transactions.flatMap((t) => {
+          const result = applyRules(rules, t);
+          return result
+            ? [{
+                id: t.id,
+                transaction_date: t.transaction_date,
+                amount: t.amount,
+                before: t.description,
+                after: result.description,
+                category_id: result.category_id,
+                rule: result.rule,
+              }]
+            : [];
+        })
+      );
+    } catch (error) {
+      toast.error((error as Error).message || "Gagal memuat transaksi tanpa kategori");
+    }
+  };
+
+  const handleApplyRetroactive = async () => {
+    if (!plannedChanges) return;
+    setApplying(true);
+    let updated = 0;
+
+    try {
+      for (const batch of chunk(plannedChanges, UPDATE_CONCURRENCY)) {
+        const results = await Promise.all(
+          batch.map((change) =>
+            supabase
+              .from("transactions")
+              .update({ category_id: change.category_id, description: change.after })
+              .eq("id", change.id)
+              // Skip rows that were categorized by hand since the preview.
+              .is("category_id", null)
+          )
+        );
+        const failed = results.find((result) => result.error);
+        if (failed) throw failed.error;
+        updated += batch.length;
+      }
+
+      toast.success(`${updated} transaksi berhasil dikategorikan`);
+      setPlannedChanges(null);
+    } catch (error) {
+      toast.error(`Berhenti setelah ${updated} transaksi: ${(error as Error).message}`);
+    } finally {
+      setApplying(false);
+      if (updated > 0) {
+        invalidateTransactionData(queryClient);
+      }
+    }
+  };
+
+  const openNewDialog = () => {
+    setEditingRule(null);
+    setFormData({ ...emptyForm, priority: ((rules[rules.length - 1]?.priority ?? -1) + 1).toString() });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: CategoryRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      priority: rule.priority.toString(),
+      description_pattern: rule.description_pattern || "",
+      match_mode: rule.match_mode,
+      min_amount: rule.min_amount?.toString() || "",
+      max_amount: rule.max_amount?.toString() || "",
+      account_id: rule.account_id || ANY,
+      transaction_type: rule.transaction_type || ANY,
+      category_id: rule.category_id,
+      rewrite_description: rule.rewrite_description || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const categoryName = (id: string) => categories.find((c) => c.id === id)?.name || "N/A";
+  const selectableCategories = categories.filter(
+    (c) =>
+      (formData.transaction_type === ANY || c.type === formData.transaction_type) &&
+      (!c.archived_at || c.id === formData.category_id)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Aturan Kategori</h1>
+          <p className="text-muted-foreground">
+            Kategorikan transaksi secara otomatis berdasarkan deskripsi, jumlah, dan rekening.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePreviewRetroactive} disabled={rules.length === 0}>
+            <Wand2 className="mr-2 h-4 w-4" />
+            Terapkan ke Transaksi Lama
+          </Button>
+          <Button onClick={openNewDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Tambah Aturan
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Aturan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Urutan</TableHead>
+                <TableHead>Nama</TableHead>
+                <TableHead>Kondisi</TableHead>
+                <TableHead>Kategori</TableHead>
+                <TableHead>Aktif</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length > 0 ? rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {describeRuleConditions(rule, accounts.find((a) => a.id === rule.account_id)?.bank_name)}
+                    {rule.rewrite_description && (
+                      <div>ubah deskripsi menjadi "{rule.rewrite_description}"</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{rule.categories?.name || "N/A"}</TableCell>
+                  <TableCell>
+                    <Switch checked={rule.is_active} onCheckedChange={(checked) => handleToggleActive(rule, checked)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center h-24">
+                    Belum ada aturan. Contoh: deskripsi mengandung "GOJEK" masuk ke kategori Transport.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Aturan" : "Tambah Aturan"}</DialogTitle>
+            <DialogDescription>
+              Semua kondisi yang diisi harus terpenuhi. Aturan dengan urutan lebih kecil diperiksa lebih dulu.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="name">Nama Aturan</Label>
+                <Input id="name" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="priority">Urutan</Label>
+                <Input id="priority" type="number" value={formData.priority} onChange={(e) => setFormData({ ...formData, priority: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="description_pattern">Deskripsi</Label>
+                <Input
+                  id="description_pattern"
+                  value={formData.description_pattern}
+                  onChange={(e) => setFormData({ ...formData, description_pattern: e.target.value })}
+                  placeholder={formData.match_mode === "regex" ? "^TRSF .*GOPAY" : "GOPAY"}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="match_mode">Cocokkan</Label>
+                <Select value={formData.match_mode} onValueChange={(value) => setFormData({ ...formData, match_mode: value as RuleMatchMode })}>
+                  <SelectTrigger id="match_mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contains">Mengandung</SelectItem>
+                    <SelectItem value="regex">Regex</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min_amount">Jumlah Minimal</Label>
+                <Input id="min_amount" type="number" step="any" min="0" value={formData.min_amount} onChange={(e) => setFormData({ ...formData, min_amount: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_amount">Jumlah Maksimal</Label>
+                <Input id="max_amount" type="number" step="any" min="0" value={formData.max_amount} onChange={(e) => setFormData({ ...formData, max_amount: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transaction_type">Tipe</Label>
+                <Select
+                  value={formData.transaction_type}
+                  onValueChange={(value) => setFormData({ ...formData, transaction_type: value, category_id: "" })}
+                >
+                  <SelectTrigger id="transaction_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Semua tipe</SelectItem>
+                    <SelectItem value="expense">Pengeluaran</SelectItem>
+                    <SelectItem value="income">Pemasukan</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_account_id">Rekening</Label>
+                <Select value={formData.account_id} onValueChange={(value) => setFormData({ ...formData, account_id: value })}>
+                  <SelectTrigger id="rule_account_id">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Semua rekening</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.bank_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule_category_id">Masukkan ke Kategori</Label>
+              <Select value={formData.category_id} onValueChange={(value) => setFormData({ ...formData, category_id: value })}>
+                <SelectTrigger id="rule_category_id">
+                  <SelectValue placeholder="Pilih kategori" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectableCategories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name} ({category.type === "income" ? "Pemasukan" : "Pengeluaran"})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rewrite_description">Ubah Deskripsi Menjadi (opsional)</Label>
+              <Input
+                id="rewrite_description"
+                value={formData.rewrite_description}
+                onChange={(e) => setFormData({ ...formData, rewrite_description: e.target.value })}
+                placeholder={formData.match_mode === "regex" ? "Top up $1" : "Top up GoPay"}
+              />
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingRule ? "Perbarui" : "Simpan"} Aturan
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={plannedChanges !== null} onOpenChange={(open) => !open && !applying && setPlannedChanges(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Pratinjau Kategorisasi</DialogTitle>
+            <DialogDescription>
+              {plannedChanges?.length
+                ? `${plannedChanges.length} transaksi tanpa kategori akan diubah seperti berikut. Belum ada yang disimpan.`
+                : "Tidak ada transaksi tanpa kategori yang cocok dengan aturan."}
+            </DialogDescription>
+          </DialogHeader>
+          {plannedChanges && plannedChanges.length > 0 && (
+            <>
+              <div className="max-h-[50vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tanggal</TableHead>
+                      <TableHead>Deskripsi</TableHead>
+                      <TableHead>Kategori</TableHead>
+                      <TableHead>Aturan</TableHead>
+                      <TableHead className="text-right">Jumlah</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plannedChanges.map((change) => (
+                      <TableRow key={change.id}>
+                        <TableCell>{format(parseISO(change.transaction_date), "d MMM yyyy")}</TableCell>
+                        <TableCell>
+                          {change.before === change.after ? change.before : (
+                            <>
+                              <div className="text-muted-foreground line-through">{change.before}</div>
+                              <div>{change.after}</div>
+                            </>
+                          )}
+                        </TableCell>
+                        <TableCell>{categoryName(change.category_id)}</TableCell>
+                        <TableCell className="text-muted-foreground">{change.rule.name}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(change.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <Button onClick={handleApplyRetroactive} disabled={applying}>
+                Terapkan ke {plannedChanges.length} Transaksi
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
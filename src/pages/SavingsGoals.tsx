@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Plus, Pencil, Trash2, PiggyBank } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { id as localeID } from "date-fns/locale";
+import { DEFAULT_CURRENCY, formatCurrency, formatMoney, moneyToNumeric, parseMoney } from "@/lib/utils";
+import { computeGoalProgress, GOAL_STATUS_LABELS, GoalStatus } from "@/lib/savings-goals";
+import { CurrencySelectItems } from "@/components/currencies/CurrencySelectItems";
+import { GoalContributionsDialog } from "@/components/savings-goals/GoalContributionsDialog";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import {
+  SavingsGoal,
+  useCreateSavingsGoal,
+  useDeleteSavingsGoal,
+  useGoalContributions,
+  useSavingsGoals,
+  useUpdateSavingsGoal,
+} from "@/hooks/use-savings-goals";
+
+const NO_ACCOUNT = "none";
+
+const emptyForm = {
+  name: "",
+  target_amount: "",
+  target_date: "",
+  currency: DEFAULT_CURRENCY,
+  account_id: NO_ACCOUNT,
+};
+
+const STATUS_VARIANTS: Record<GoalStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  achieved: "default",
+  on_track: "secondary",
+  behind: "outline",
+  overdue: "destructive",
+  no_target_date: "outline",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy", { locale: localeID });
+const formatMonth = (date: string) => format(parseISO(date), "MMMM yyyy", { locale: localeID });
+
+export default function SavingsGoals() {
+  const { user } = useAuth();
+  const { data: goals = [], isLoading: goalsLoading } = useSavingsGoals();
+  const { data: contributions = [], isLoading: contributionsLoading } = useGoalContributions();
+  const { data: accounts = [] } = useBankAccounts();
+  const createGoal = useCreateSavingsGoal();
+  const updateGoal = useUpdateSavingsGoal();
+  const deleteGoal = useDeleteSavingsGoal();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [contributionGoalId, setContributionGoalId] = useState<string | null>(null);
+  const loading = goalsLoading || contributionsLoading;
+
+  const rows = goals.map((goal) => {
+    const own = contributions.filter((c) => c.goal_id === goal.id);
+    return { goal, contributions: own, progress: computeGoalProgress(goal, own) };
+  });
+  const contributionRow = rows.find((row) => row.goal.id === contributionGoalId);
+  const accountName = new Map(accounts.map((a) => [a.id, `${a.bank_name} - ${a.account_number}`]));
+  const goalAccounts = accounts.filter((a) => a.currency === formData.currency);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const target = parseMoney(formData.target_amount, formData.currency);
+    if (target === null || target <= 0n) {
+      toast.error("Jumlah target tidak valid");
+      return;
+    }
+
+    const goalData = {
+      user_id: user!.id,
+      name: formData.name,
+      target_amount: moneyToNumeric(target, formData.currency),
+      target_date: formData.target_date || null,
+      currency: formData.currency,
+      account_id: formData.account_id === NO_ACCOUNT ? null : formData.account_id,
+    };
+
+    if (editingGoal) {
+      updateGoal.mutate(
+        { id: editingGoal.id, changes: goalData },
+        { onSuccess: () => toast.success("Target tabungan berhasil diperbarui") }
+      );
+    } else {
+      createGoal.mutate(goalData, {
+        onSuccess: () => toast.success("Target tabungan berhasil ditambahkan"),
+      });
+    }
+
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("Hapus target ini beserta catatan setorannya? Transaksi yang ditautkan tetap tersimpan.")) return;
+
+    deleteGoal.mutate(id, {
+      onSuccess: () => toast.success("Target tabungan berhasil dihapus"),
+    });
+  };
+
+  const openNewDialog = () => {
+    setEditingGoal(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (goal: SavingsGoal) => {
+    setEditingGoal(goal);
+    setFormData({
+      name: goal.name,
+      target_amount: goal.target_amount.toString(),
+      target_date: goal.target_date ?? "",
+      currency: goal.currency,
+      account_id: goal.account_id ?? NO_ACCOUNT,
+    });
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Target Tabungan</h1>
+          <p className="text-muted-foreground">
+            Menabung untuk umroh, pernikahan, atau dana darurat dan pantau berapa yang perlu disisihkan tiap bulan.
+          </p>
+        </div>
+        <Button onClick={openNewDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah Target
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Target</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Progres</TableHead>
+                <TableHead>Tenggat</TableHead>
+                <TableHead className="text-right">Perlu per Bulan</TableHead>
+                <TableHead>Proyeksi Tercapai</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length > 0 ? rows.map(({ goal, progress }) => (
+                <TableRow key={goal.id}>
+                  <TableCell>
+                    <div className="font-medium">{goal.name}</div>
+                    {goal.account_id && (
+                      <div className="text-xs text-muted-foreground">{accountName.get(goal.account_id)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="min-w-48">
+                    <Progress value={progress.percent} />
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {formatMoney(progress.saved, goal.currency)} dari{" "}
+                      {formatCurrency(goal.target_amount, goal.currency)} ({progress.percent.toFixed(0)}%)
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{goal.target_date ? formatDate(goal.target_date) : "-"}</div>
+                    <Badge variant={STATUS_VARIANTS[progress.status]} className="mt-1">
+                      {GOAL_STATUS_LABELS[progress.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {progress.monthlyNeeded !== null ? (
+                      <>
+                        <div className="font-semibold">{formatMoney(progress.monthlyNeeded, goal.currency)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {progress.monthsLeft ? `${progress.monthsLeft} bulan lagi` : "Tenggat sudah lewat"}
+                        </div>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {progress.projectedDate ? (
+                      <>
+                        <div>{formatMonth(progress.projectedDate)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Rata-rata {formatMoney(progress.monthlyPace, goal.currency)}/bulan
+                        </div>
+                      </>
+                    ) : progress.status === "achieved" ? (
+                      "Tercapai"
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" title="Setoran" onClick={() => setContributionGoalId(goal.id)}>
+                      <PiggyBank className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(goal)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(goal.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center h-24">
+                    Belum ada target tabungan. Tambahkan target pertama Anda.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingGoal ? "Edit Target Tabungan" : "Tambah Target Tabungan"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Nama</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Contoh: Umroh 2027"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="target_amount">Jumlah Target</Label>
+                <Input
+                  id="target_amount"
+                  type="number"
+                  step="any"
+                  value={formData.target_amount}
+                  onChange={(e) => setFormData({ ...formData, target_amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="currency">Mata Uang</Label>
+                <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency, account_id: NO_ACCOUNT })}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <CurrencySelectItems extra={formData.currency} />
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="target_date">Tenggat (opsional)</Label>
+              <Input
+                id="target_date"
+                type="date"
+                value={formData.target_date}
+                onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="account_id">Rekening Tabungan (opsional)</Label>
+              <Select value={formData.account_id} onValueChange={(account_id) => setFormData({ ...formData, account_id })}>
+                <SelectTrigger id="account_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Tidak ditautkan</SelectItem>
+                  {goalAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.bank_name} - {account.account_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Transaksi masuk ke rekening ini ditawarkan saat mencatat setoran.
+              </p>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingGoal ? "Perbarui" : "Simpan"} Target
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <GoalContributionsDialog
+        key={contributionGoalId ?? "closed"}
+        goal={contributionRow?.goal ?? null}
+        contributions={contributionRow?.contributions ?? []}
+        onOpenChange={(open) => !open && setContributionGoalId(null)}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { Fragment, useState, useEffect, useMemo, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -32,164 +33,278 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Plus, Pencil, Trash2, ArrowRight, Upload, Users, ChevronDown, ChevronRight } from "lucide-react";
 import { toast } from "sonner";
-import { formatCurrency } from "@/lib/utils";
+import { DEFAULT_CURRENCY, formatCurrency, formatMoney, moneyToNumber, moneyToNumeric, parseMoney, sumMoney, toMoney } from "@/lib/utils";
+import { TransactionType } from "@/lib/transactions";
+import {
+  CategoryLineForm,
+  emptyCategoryLine,
+  mainLineCategory,
+  parseCategoryLines,
+} from "@/lib/transaction-lines";
+import { applyRules } from "@/lib/categorization-rules";
+import { useCategoryRules } from "@/hooks/use-category-rules";
+import { useCategories } from "@/hooks/use-categories";
+import { useBankAccounts } from "@/hooks/use-bank-accounts";
+import {
+  invalidateTransactionData,
+  TransactionWithRelations,
+  useCreateTransaction,
+  useDeleteTransaction,
+  useTransactions,
+  useUpdateTransaction,
+} from "@/hooks/use-transactions";
+import { getCategoryLabel } from "@/lib/categories";
+import { CategorySelectItems } from "@/components/categories/CategorySelectItems";
+import { CategoryLinesInput } from "@/components/transactions/CategoryLinesInput";
+import { ImportTransactionsDialog } from "@/components/transactions/ImportTransactionsDialog";
+import { SplitTransactionDialog } from "@/components/transactions/SplitTransactionDialog";
+import { TransactionFilterBar } from "@/components/transactions/TransactionFilterBar";
+import {
+  getPageWindow,
+  parseTransactionFilters,
+  toTransactionSearchParams,
+  TRANSACTION_PAGE_SIZE,
+  TransactionFilters,
+} from "@/lib/transaction-filters";
 import { format } from "date-fns";
 
-// Definisikan tipe data untuk transaksi dan kategori
-interface Category {
-  id: string;
-  name: string;
-  type: "income" | "expense";
-}
-
-interface Transaction {
-  id: string;
-  description: string;
-  amount: number;
-  transaction_date: string;
-  type: "income" | "expense";
-  category_id: string;
-  categories: {
-    name: string;
-    icon: string | null;
-    color: string | null;
-  };
-}
+const emptyForm = {
+  description: "",
+  amount: "",
+  transaction_date: "",
+  type: "expense" as TransactionType,
+  category_id: "",
+  account_id: "",
+  to_account_id: "",
+  fee: "",
+  to_amount: "",
+  // Set when the amount is broken down over several categories.
+  lines: [] as CategoryLineForm[],
+};
 
 export default function Transactions() {
   const { user } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseTransactionFilters(searchParams), [searchParams]);
+  const { data: transactionPage, isLoading } = useTransactions(filters);
+  const { data: categories = [] } = useCategories();
+  const { data: accounts = [] } = useBankAccounts();
+  const createTransaction = useCreateTransaction();
+  const updateTransaction = useUpdateTransaction();
+  const deleteTransaction = useDeleteTransaction();
+  const { data: rules = [] } = useCategoryRules();
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
-  const [formData, setFormData] = useState({
-    description: "",
-    amount: "",
-    transaction_date: "",
-    type: "expense" as "income" | "expense",
-    category_id: "",
-  });
+  const [importOpen, setImportOpen] = useState(false);
+  const [splitTransactionId, setSplitTransactionId] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [editingTransaction, setEditingTransaction] = useState<TransactionWithRelations | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
 
-  useEffect(() => {
-    if (user) {
-      fetchTransactions();
-      fetchCategories();
-    }
-  }, [user]);
-
-  const fetchTransactions = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("transactions")
-        .select("*, categories(name, icon, color)")
-        .eq("user_id", user!.id)
-        .order("transaction_date", { ascending: false });
-
-      if (error) throw error;
-      setTransactions(data as Transaction[]);
-    } catch (error) {
-      console.error("Error fetching transactions:", error);
-      toast.error("Gagal memuat transaksi");
-    } finally {
-      setLoading(false);
+  const transactions = transactionPage?.rows ?? [];
+  const totalCount = transactionPage?.count ?? 0;
+
+  const changeFilters = useCallback((next: TransactionFilters) => {
+    const params = toTransactionSearchParams(next);
+    if (params.toString() !== searchParams.toString()) {
+      setSearchParams(params);
     }
-  };
+  }, [searchParams, setSearchParams]);
 
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("categories")
-        .select("id, name, type")
-        .eq("user_id", user!.id);
-
-      if (error) throw error;
-      setCategories(data || []);
-    } catch (error) {
-      console.error("Error fetching categories:", error);
+  // A deleted row or a stale bookmark can leave the page past the end.
+  useEffect(() => {
+    if (!transactionPage) return;
+    const lastPage = Math.max(1, Math.ceil(transactionPage.count / TRANSACTION_PAGE_SIZE));
+    if (filters.page > lastPage) {
+      changeFilters({ ...filters, page: lastPage });
     }
-  };
+  }, [transactionPage, filters, changeFilters]);
+
+  const pageLink = (page: number) => ({
+    href: `?${toTransactionSearchParams({ ...filters, page })}`,
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      changeFilters({ ...filters, page });
+    },
+  });
+
+  // Amounts are entered in the currency of the account; a transfer into an
+  // account of another currency also needs the amount that arrives there.
+  const currency = accounts.find((a) => a.id === formData.account_id)?.currency ?? DEFAULT_CURRENCY;
+  const toCurrency = accounts.find((a) => a.id === formData.to_account_id)?.currency ?? currency;
+  const changesCurrency = formData.type === "transfer" && toCurrency !== currency;
 
-  const handleTypeChange = (type: "income" | "expense") => {
-    setFormData({ ...formData, type, category_id: "" });
+  const handleTypeChange = (type: TransactionType) => {
+    setFormData({ ...formData, type, category_id: "", to_account_id: "", fee: "", to_amount: "", lines: [] });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    try {
-      const transactionData = {
-        user_id: user!.id,
-        description: formData.description,
-        amount: parseFloat(formData.amount),
-        transaction_date: formData.transaction_date,
+    const isTransfer = formData.type === "transfer";
+
+    if (!formData.account_id) {
+      toast.error("Pilih rekening terlebih dahulu");
+      return;
+    }
+    if (isTransfer && !formData.to_account_id) {
+      toast.error("Pilih rekening tujuan transfer");
+      return;
+    }
+    if (isTransfer && formData.to_account_id === formData.account_id) {
+      toast.error("Rekening asal dan tujuan tidak boleh sama");
+      return;
+    }
+
+    const amount = parseMoney(formData.amount, currency);
+    const fee = isTransfer && formData.fee ? parseMoney(formData.fee, currency) : 0n;
+    if (amount === null || amount <= 0n || fee === null || fee < 0n) {
+      toast.error("Jumlah tidak valid");
+      return;
+    }
+    const toAmount = changesCurrency ? parseMoney(formData.to_amount, toCurrency) : null;
+    if (changesCurrency && (toAmount === null || toAmount <= 0n)) {
+      toast.error("Isi jumlah yang diterima rekening tujuan");
+      return;
+    }
+
+    // A breakdown over categories keeps the category of its largest line.
+    const hasLines = !isTransfer && formData.lines.length > 0;
+    const lineAmounts = hasLines ? parseCategoryLines(formData.lines, amount, currency) : null;
+    if (typeof lineAmounts === "string") {
+      toast.error(lineAmounts);
+      return;
+    }
+    const lines = lineAmounts
+      ? formData.lines.map((line, i) => ({
+          user_id: user!.id,
+          category_id: line.category_id,
+          amount: moneyToNumeric(lineAmounts[i], currency),
+          note: line.note || null,
+        }))
+      : [];
+
+    // Without a manually chosen category, the first matching rule decides.
+    let categoryId = lineAmounts ? mainLineCategory(formData.lines, lineAmounts) : formData.category_id;
+    let description = formData.description;
+    if (!isTransfer && !categoryId) {
+      const result = applyRules(rules, {
+        description,
+        amount: moneyToNumber(amount, currency),
         type: formData.type,
-        category_id: formData.category_id,
-      };
-
-      if (editingTransaction) {
-        const { error } = await supabase
-          .from("transactions")
-          .update(transactionData)
-          .eq("id", editingTransaction.id);
-
-        if (error) throw error;
-        toast.success("Transaksi berhasil diperbarui");
-      } else {
-        const { error } = await supabase
-          .from("transactions")
-          .insert(transactionData);
-
-        if (error) throw error;
-        toast.success("Transaksi berhasil dibuat");
+        account_id: formData.account_id,
+      });
+      if (!result) {
+        toast.error("Pilih kategori terlebih dahulu");
+        return;
       }
+      categoryId = result.category_id;
+      description = result.description;
+    }
 
-      setDialogOpen(false);
-      setEditingTransaction(null);
-      setFormData({
-        description: "",
-        amount: "",
-        transaction_date: "",
-        type: "expense",
-        category_id: "",
+    const transactionData = {
+      user_id: user!.id,
+      description,
+      amount: moneyToNumeric(amount, currency),
+      transaction_date: formData.transaction_date,
+      type: formData.type,
+      category_id: isTransfer ? null : categoryId,
+      account_id: formData.account_id,
+      to_account_id: isTransfer ? formData.to_account_id : null,
+      fee: moneyToNumeric(fee, currency),
+      to_amount: changesCurrency ? moneyToNumeric(toAmount, toCurrency) : null,
+    };
+
+    if (editingTransaction) {
+      updateTransaction.mutate(
+        {
+          id: editingTransaction.id,
+          changes: transactionData,
+          lines: editingTransaction.lines.length > 0 || lines.length > 0 ? lines : undefined,
+        },
+        { onSuccess: () => toast.success("Transaksi berhasil diperbarui") }
+      );
+    } else {
+      createTransaction.mutate({ ...transactionData, lines }, {
+        onSuccess: () => toast.success("Transaksi berhasil dibuat"),
       });
-      fetchTransactions();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menyimpan transaksi");
     }
+
+    setDialogOpen(false);
+    setEditingTransaction(null);
+    setFormData(emptyForm);
   };
-  
-  const handleDelete = async (id: string) => {
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expandedIds);
+    if (!next.delete(id)) next.add(id);
+    setExpandedIds(next);
+  };
+
+  const handleDelete = (id: string) => {
     if (!confirm("Apakah Anda yakin ingin menghapus transaksi ini?")) return;
 
-    try {
-      const { error } = await supabase.from("transactions").delete().eq("id", id);
-      if (error) throw error;
-      toast.success("Transaksi berhasil dihapus");
-      fetchTransactions();
-    } catch (error: any) {
-      toast.error(error.message || "Gagal menghapus transaksi");
-    }
+    deleteTransaction.mutate(id, {
+      onSuccess: () => toast.success("Transaksi berhasil dihapus"),
+    });
   };
 
-  const openEditDialog = (transaction: Transaction) => {
+  const openEditDialog = (transaction: TransactionWithRelations) => {
     setEditingTransaction(transaction);
     setFormData({
       description: transaction.description,
       amount: transaction.amount.toString(),
       transaction_date: transaction.transaction_date,
-      type: transaction.type,
-      category_id: transaction.category_id,
+      type: transaction.type as TransactionType,
+      category_id: transaction.category_id || "",
+      account_id: transaction.account_id || "",
+      to_account_id: transaction.to_account_id || "",
+      fee: transaction.fee ? transaction.fee.toString() : "",
+      to_amount: transaction.to_amount ? transaction.to_amount.toString() : "",
+      lines: transaction.lines.map((line) => ({
+        category_id: line.category_id,
+        amount: line.amount.toString(),
+        note: line.note ?? "",
+      })),
     });
     setDialogOpen(true);
   };
 
 
-  const filteredCategories = categories.filter((c) => c.type === formData.type);
+  // Pre-selects the category suggested by the rules once the description is
+  // typed, and shows the description the rule rewrites it to.
+  const suggestCategory = () => {
+    if (formData.type === "transfer" || formData.category_id) return;
+    const result = applyRules(rules, {
+      description: formData.description,
+      amount: moneyToNumber(parseMoney(formData.amount, currency) ?? 0n, currency),
+      type: formData.type,
+      account_id: formData.account_id || null,
+    });
+    if (result) {
+      setFormData({ ...formData, category_id: result.category_id, description: result.description });
+    }
+  };
+
+  // Archived categories are only offered when the transaction already uses one.
+  const filteredCategories = categories.filter(
+    (c) => c.type === formData.type && (!c.archived_at || c.id === formData.category_id)
+  );
+  const pageCount = Math.max(1, Math.ceil(totalCount / TRANSACTION_PAGE_SIZE));
+  const firstRow = (filters.page - 1) * TRANSACTION_PAGE_SIZE + 1;
   
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
@@ -207,163 +322,445 @@ export default function Transactions() {
             Catat dan kelola semua pemasukan dan pengeluaran Anda.
           </p>
         </div>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => {
-              setEditingTransaction(null);
-              setFormData({
-                description: "",
-                amount: "",
-                transaction_date: new Date().toISOString().substring(0, 10),
-                type: "expense",
-                category_id: "",
-              });
-            }}>
-              <Plus className="mr-2 h-4 w-4" />
-              Tambah Transaksi
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {editingTransaction ? "Edit Transaksi" : "Tambah Transaksi Baru"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label>Tipe Transaksi</Label>
-                <div className="flex gap-4">
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="radio"
-                      value="expense"
-                      checked={formData.type === "expense"}
-                      onChange={() => handleTypeChange("expense")}
-                    />
-                    Pengeluaran
-                  </label>
-                  <label className="flex items-center gap-2">
-                    <input
-                      type="radio"
-                      value="income"
-                      checked={formData.type === "income"}
-                      onChange={() => handleTypeChange("income")}
-                    />
-                    Pemasukan
-                  </label>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Impor CSV
+          </Button>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => {
+                setEditingTransaction(null);
+                setFormData({
+                  ...emptyForm,
+                  transaction_date: new Date().toISOString().substring(0, 10),
+                  account_id: accounts.length === 1 ? accounts[0].id : "",
+                });
+              }}>
+                <Plus className="mr-2 h-4 w-4" />
+                Tambah Transaksi
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingTransaction ? "Edit Transaksi" : "Tambah Transaksi Baru"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Tipe Transaksi</Label>
+                  <div className="flex gap-4">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        value="expense"
+                        checked={formData.type === "expense"}
+                        onChange={() => handleTypeChange("expense")}
+                      />
+                      Pengeluaran
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        value="income"
+                        checked={formData.type === "income"}
+                        onChange={() => handleTypeChange("income")}
+                      />
+                      Pemasukan
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        value="transfer"
+                        checked={formData.type === "transfer"}
+                        onChange={() => handleTypeChange("transfer")}
+                      />
+                      Transfer
+                    </label>
+                  </div>
                 </div>
-              </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="description">Deskripsi</Label>
-                <Input
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="amount">Jumlah</Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Deskripsi</Label>
+                  <Input
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    onBlur={suggestCategory}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="amount">Jumlah ({currency})</Label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step="any"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    required
+                  />
+                </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="transaction_date">Tanggal</Label>
-                <Input
-                  id="transaction_date"
-                  type="date"
-                  value={formData.transaction_date}
-                  onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="category_id">Kategori</Label>
-                 <Select
-                  value={formData.category_id}
-                  onValueChange={(value) => setFormData({ ...formData, category_id: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Pilih kategori" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {filteredCategories.map((category) => (
-                      <SelectItem key={category.id} value={category.id}>
-                        {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transaction_date">Tanggal</Label>
+                  <Input
+                    id="transaction_date"
+                    type="date"
+                    value={formData.transaction_date}
+                    onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                    required
+                  />
+                </div>
 
-              <Button type="submit" className="w-full">
-                {editingTransaction ? "Perbarui" : "Buat"} Transaksi
-              </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+                {formData.type !== "transfer" && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="category_id">Kategori</Label>
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0"
+                        onClick={() =>
+                          setFormData(
+                            formData.lines.length > 0
+                              ? { ...formData, category_id: formData.lines[0].category_id, lines: [] }
+                              : {
+                                  ...formData,
+                                  lines: [
+                                    { category_id: formData.category_id, amount: formData.amount, note: "" },
+                                    emptyCategoryLine(),
+                                  ],
+                                }
+                          )
+                        }
+                      >
+                        {formData.lines.length > 0 ? "Satu kategori saja" : "Rincian per kategori"}
+                      </Button>
+                    </div>
+                    {formData.lines.length > 0 ? (
+                      <CategoryLinesInput
+                        lines={formData.lines}
+                        onChange={(lines) => setFormData({ ...formData, lines })}
+                        categories={filteredCategories}
+                        total={parseMoney(formData.amount, currency)}
+                        currency={currency}
+                      />
+                    ) : (
+                      <Select
+                        value={formData.category_id}
+                        onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                      >
+                        <SelectTrigger id="category_id">
+                          <SelectValue placeholder="Pilih kategori" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <CategorySelectItems categories={filteredCategories} />
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="account_id">
+                    {formData.type === "transfer" ? "Dari Rekening" : "Rekening"}
+                  </Label>
+                  <Select
+                    value={formData.account_id}
+                    onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                  >
+                    <SelectTrigger id="account_id">
+                      <SelectValue placeholder="Pilih rekening" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.bank_name} - {account.account_number}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.type === "transfer" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="to_account_id">Ke Rekening</Label>
+                      <Select
+                        value={formData.to_account_id}
+                        onValueChange={(value) => setFormData({ ...formData, to_account_id: value })}
+                      >
+                        <SelectTrigger id="to_account_id">
+                          <SelectValue placeholder="Pilih rekening tujuan" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {accounts
+                            .filter((account) => account.id !== formData.account_id)
+                            .map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.bank_name} - {account.account_number}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {changesCurrency && (
+                      <div className="space-y-2">
+                        <Label htmlFor="to_amount">Jumlah Diterima ({toCurrency})</Label>
+                        <Input
+                          id="to_amount"
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={formData.to_amount}
+                          onChange={(e) => setFormData({ ...formData, to_amount: e.target.value })}
+                          required
+                        />
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor="fee">Biaya Transfer ({currency}, opsional)</Label>
+                      <Input
+                        id="fee"
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={formData.fee}
+                        onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
+
+                <Button type="submit" className="w-full">
+                  {editingTransaction ? "Perbarui" : "Buat"} Transaksi
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <ImportTransactionsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        accounts={accounts}
+        categories={categories}
+        rules={rules}
+        onImported={() => invalidateTransactionData(queryClient)}
+      />
+
+      <SplitTransactionDialog
+        key={splitTransactionId ?? "closed"}
+        transaction={transactions.find((t) => t.id === splitTransactionId) ?? null}
+        onOpenChange={(open) => !open && setSplitTransactionId(null)}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Riwayat Transaksi</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <TransactionFilterBar
+            filters={filters}
+            onChange={changeFilters}
+            categories={categories}
+            accounts={accounts}
+          />
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Deskripsi</TableHead>
                 <TableHead>Kategori</TableHead>
+                <TableHead>Rekening</TableHead>
                 <TableHead>Tanggal</TableHead>
                 <TableHead className="text-right">Jumlah</TableHead>
                 <TableHead className="text-right">Aksi</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {transactions.map((transaction) => (
-                <TableRow key={transaction.id}>
-                  <TableCell className="font-medium">{transaction.description}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                       <span style={{ color: transaction.categories?.color || 'inherit' }}>
-                         {transaction.categories?.icon}
-                       </span>
-                      {transaction.categories?.name || 'N/A'}
-                    </div>
-                  </TableCell>
-                  <TableCell>{format(new Date(transaction.transaction_date), "d MMMM yyyy")}</TableCell>
-                  <TableCell className={`text-right font-medium ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                    {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => openEditDialog(transaction)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDelete(transaction.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+              {transactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center h-24">
+                    Tidak ada transaksi yang cocok dengan filter.
                   </TableCell>
                 </TableRow>
+              )}
+              {transactions.map((transaction) => (
+                <Fragment key={transaction.id}>
+                  <TableRow>
+                    <TableCell className="font-medium">{transaction.description}</TableCell>
+                    <TableCell>
+                      {transaction.type === 'transfer' ? (
+                        <span className="text-muted-foreground">Transfer</span>
+                      ) : transaction.lines.length > 0 ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="-ml-2 h-auto px-2 py-1"
+                          onClick={() => toggleExpanded(transaction.id)}
+                        >
+                          {expandedIds.has(transaction.id) ? (
+                            <ChevronDown className="mr-1 h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="mr-1 h-4 w-4" />
+                          )}
+                          {transaction.lines.length} kategori
+                        </Button>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                           <span style={{ color: transaction.categories?.color || 'inherit' }}>
+                             {transaction.categories?.icon}
+                           </span>
+                          {getCategoryLabel(categories, transaction.category_id) || transaction.categories?.name || 'N/A'}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {transaction.type === 'transfer' ? (
+                        <div className="flex items-center gap-1">
+                          {transaction.account?.bank_name || 'N/A'}
+                          <ArrowRight className="h-3 w-3" />
+                          {transaction.to_account?.bank_name || 'N/A'}
+                        </div>
+                      ) : (
+                        transaction.account?.bank_name || 'N/A'
+                      )}
+                    </TableCell>
+                    <TableCell>{format(new Date(transaction.transaction_date), "d MMMM yyyy")}</TableCell>
+                    {transaction.type === 'transfer' ? (
+                      <TableCell className="text-right font-medium text-blue-600">
+                        {formatCurrency(transaction.amount, transaction.currency)}
+                        {transaction.to_amount !== null && (
+                          <div className="text-xs text-muted-foreground">
+                            Diterima {formatCurrency(transaction.to_amount, transaction.to_account?.currency)}
+                          </div>
+                        )}
+                        {transaction.fee > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Biaya {formatCurrency(transaction.fee, transaction.currency)}
+                          </div>
+                        )}
+                      </TableCell>
+                    ) : (
+                      <TableCell className={`text-right font-medium ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount, transaction.currency)}
+                        {transaction.interest_amount !== null && (
+                          <div className="text-xs text-muted-foreground">
+                            Pokok {formatCurrency(transaction.principal_amount ?? 0, transaction.currency)} · Bunga{" "}
+                            {formatCurrency(transaction.interest_amount, transaction.currency)}
+                          </div>
+                        )}
+                        {transaction.personal_debt_id && (
+                          <div className="text-xs font-normal text-muted-foreground">Hutang piutang</div>
+                        )}
+                        {transaction.splits.length > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            Bagian saya{" "}
+                            {formatMoney(
+                              toMoney(transaction.amount, transaction.currency) -
+                                sumMoney(transaction.splits.map((split) => toMoney(split.amount, transaction.currency))),
+                              transaction.currency
+                            )}{" "}
+                            · dibagi dengan {transaction.splits.map((split) => split.counterparties?.name).join(", ")}
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right whitespace-nowrap">
+                      {transaction.type === 'expense' && !transaction.personal_debt_id && !transaction.liability_id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Bagi dengan orang lain"
+                          onClick={() => setSplitTransactionId(transaction.id)}
+                        >
+                          <Users className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditDialog(transaction)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(transaction.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expandedIds.has(transaction.id) && transaction.lines.map((line) => (
+                    <TableRow key={line.id} className="bg-muted/50">
+                      <TableCell className="pl-8 text-sm text-muted-foreground">{line.note}</TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex items-center gap-2">
+                          <span style={{ color: line.categories?.color || 'inherit' }}>
+                            {line.categories?.icon}
+                          </span>
+                          {getCategoryLabel(categories, line.category_id) || line.categories?.name || 'N/A'}
+                        </div>
+                      </TableCell>
+                      <TableCell />
+                      <TableCell />
+                      <TableCell className="text-right text-sm">
+                        {formatCurrency(line.amount, transaction.currency)}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  ))}
+                </Fragment>
               ))}
             </TableBody>
           </Table>
+          {totalCount > 0 && (
+            <div className="flex flex-col items-center justify-between gap-2 md:flex-row">
+              <p className="text-sm text-muted-foreground whitespace-nowrap">
+                Menampilkan {firstRow}-{firstRow + transactions.length - 1} dari {totalCount} transaksi
+              </p>
+              {pageCount > 1 && (
+                <Pagination className="md:justify-end">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        {...pageLink(Math.max(1, filters.page - 1))}
+                        aria-disabled={filters.page === 1}
+                        className={filters.page === 1 ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                    {getPageWindow(filters.page, pageCount).map((page, index) => (
+                      <PaginationItem key={page ?? `gap-${index}`}>
+                        {page === null ? (
+                          <PaginationEllipsis />
+                        ) : (
+                          <PaginationLink {...pageLink(page)} isActive={page === filters.page}>
+                            {page}
+                          </PaginationLink>
+                        )}
+                      </PaginationItem>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext
+                        {...pageLink(Math.min(pageCount, filters.page + 1))}
+                        aria-disabled={filters.page === pageCount}
+                        className={filters.page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,83 @@
+-- Base tables of the app as they existed before versioned migrations. Later
+-- migrations extend them (account links, transfers, category hierarchy, ...).
+-- Every row belongs to an auth user and is only visible to that user.
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null constraint categories_type_check check (type in ('income', 'expense')),
+  icon text,
+  color text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists categories_user_id_idx on public.categories (user_id, type);
+
+create table if not exists public.bank_accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bank_name text not null,
+  account_number text not null,
+  account_holder_name text not null,
+  balance numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bank_accounts_user_id_idx on public.bank_accounts (user_id);
+
+create table if not exists public.transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  category_id uuid constraint transactions_category_id_fkey references public.categories (id) on delete set null,
+  description text not null,
+  amount numeric not null constraint transactions_amount_check check (amount > 0),
+  transaction_date date not null,
+  type text not null constraint transactions_type_check check (type in ('income', 'expense')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transactions_user_id_idx on public.transactions (user_id);
+create index if not exists transactions_category_id_idx on public.transactions (category_id);
+
+create table if not exists public.assets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null,
+  acquired_at date not null,
+  initial_value numeric not null default 0 check (initial_value >= 0),
+  current_value numeric not null default 0 check (current_value >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists assets_user_id_idx on public.assets (user_id, acquired_at desc);
+
+alter table public.categories enable row level security;
+alter table public.bank_accounts enable row level security;
+alter table public.transactions enable row level security;
+alter table public.assets enable row level security;
+
+drop policy if exists "Users manage their own categories" on public.categories;
+create policy "Users manage their own categories"
+  on public.categories for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own bank accounts" on public.bank_accounts;
+create policy "Users manage their own bank accounts"
+  on public.bank_accounts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own transactions" on public.transactions;
+create policy "Users manage their own transactions"
+  on public.transactions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own assets" on public.assets;
+create policy "Users manage their own assets"
+  on public.assets for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
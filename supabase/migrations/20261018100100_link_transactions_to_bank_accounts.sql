@@ -0,0 +1,69 @@
+-- Every transaction now belongs to a bank account, and bank_accounts.balance is
+-- derived from the account's opening balance plus the transactions booked on it.
+
+alter table public.bank_accounts
+  add column if not exists opening_balance numeric not null default 0;
+
+-- Hand-typed balances become the opening balance, since no transaction has been
+-- linked to an account yet.
+update public.bank_accounts set opening_balance = balance;
+
+alter table public.transactions
+  add column if not exists account_id uuid references public.bank_accounts (id) on delete restrict;
+
+create index if not exists transactions_account_id_idx on public.transactions (account_id);
+
+-- Net effect of all transactions booked on an account.
+create or replace function public.bank_account_transaction_total(p_account_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(case when t.type = 'income' then t.amount else -t.amount end), 0)
+  from public.transactions t
+  where t.account_id = p_account_id;
+$$;
+
+-- The balance column is never written by the client: it is always recomputed
+-- from opening_balance whenever an account row is inserted or updated.
+create or replace function public.derive_bank_account_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.balance := new.opening_balance + public.bank_account_transaction_total(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists bank_accounts_derive_balance on public.bank_accounts;
+create trigger bank_accounts_derive_balance
+  before insert or update on public.bank_accounts
+  for each row execute function public.derive_bank_account_balance();
+
+-- Touch the affected accounts after a transaction is inserted, edited or
+-- deleted so the trigger above recomputes their balance.
+create or replace function public.sync_bank_account_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.bank_accounts set balance = balance where id = old.account_id;
+  end if;
+
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.account_id is distinct from old.account_id) then
+    update public.bank_accounts set balance = balance where id = new.account_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists transactions_sync_bank_account_balance on public.transactions;
+create trigger transactions_sync_bank_account_balance
+  after insert or update or delete on public.transactions
+  for each row execute function public.sync_bank_account_balance();
+
+-- Bring existing balances in line with the new rule.
+update public.bank_accounts set balance = balance;
@@ -0,0 +1,70 @@
+-- Transfers move money between two of the user's bank accounts. They carry no
+-- category and are left out of income/expense aggregates, but still move the
+-- balances of both accounts (the optional fee is charged to the source account).
+
+alter table public.transactions
+  add column if not exists to_account_id uuid references public.bank_accounts (id) on delete restrict,
+  add column if not exists fee numeric not null default 0;
+
+alter table public.transactions alter column category_id drop not null;
+
+alter table public.transactions drop constraint if exists transactions_type_check;
+alter table public.transactions
+  add constraint transactions_type_check check (type in ('income', 'expense', 'transfer'));
+
+alter table public.transactions
+  add constraint transactions_transfer_accounts_check check (
+    (type = 'transfer' and account_id is not null and to_account_id is not null and to_account_id <> account_id)
+    or (type <> 'transfer' and to_account_id is null)
+  );
+
+alter table public.transactions
+  add constraint transactions_fee_check check (fee >= 0 and (type = 'transfer' or fee = 0));
+
+create index if not exists transactions_to_account_id_idx on public.transactions (to_account_id);
+
+create or replace function public.bank_account_transaction_total(p_account_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select
+    coalesce((
+      select sum(case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end)
+      from public.transactions t
+      where t.account_id = p_account_id
+    ), 0)
+    + coalesce((
+      select sum(t.amount)
+      from public.transactions t
+      where t.to_account_id = p_account_id and t.type = 'transfer'
+    ), 0);
+$$;
+
+create or replace function public.sync_bank_account_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.bank_accounts set balance = balance
+    where id in (old.account_id, old.to_account_id);
+  end if;
+
+  if tg_op = 'INSERT' then
+    update public.bank_accounts set balance = balance
+    where id in (new.account_id, new.to_account_id);
+  elsif tg_op = 'UPDATE' then
+    update public.bank_accounts set balance = balance
+    where id in (new.account_id, new.to_account_id)
+      and id is distinct from old.account_id
+      and id is distinct from old.to_account_id;
+  end if;
+
+  return null;
+end;
+$$;
@@ -0,0 +1,66 @@
+-- Recurring transaction templates. Due occurrences are materialized into real
+-- transactions by the client; the unique key on transactions makes that idempotent.
+
+create table if not exists public.recurring_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  description text not null,
+  amount numeric not null check (amount > 0),
+  type text not null check (type in ('income', 'expense', 'transfer')),
+  category_id uuid references public.categories (id) on delete set null,
+  account_id uuid not null references public.bank_accounts (id) on delete cascade,
+  to_account_id uuid references public.bank_accounts (id) on delete cascade,
+  fee numeric not null default 0 check (fee >= 0),
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly', 'yearly')),
+  interval integer not null default 1 check (interval >= 1),
+  start_date date not null,
+  end_date date,
+  occurrence_limit integer check (occurrence_limit > 0),
+  weekday smallint check (weekday between 0 and 6),
+  week_of_month smallint check (week_of_month in (-1, 1, 2, 3, 4, 5)),
+  is_active boolean not null default true,
+  -- Last date up to which occurrences have been turned into transactions.
+  materialized_through date,
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date),
+  check ((type = 'transfer') = (to_account_id is not null))
+);
+
+create index if not exists recurring_transactions_user_id_idx on public.recurring_transactions (user_id);
+
+-- Per-occurrence overrides: skip a single occurrence or change its amount,
+-- description or booking date.
+create table if not exists public.recurring_transaction_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  recurring_transaction_id uuid not null references public.recurring_transactions (id) on delete cascade,
+  occurrence_date date not null,
+  action text not null check (action in ('skip', 'modify')),
+  amount numeric check (amount > 0),
+  description text,
+  transaction_date date,
+  created_at timestamptz not null default now(),
+  unique (recurring_transaction_id, occurrence_date)
+);
+
+alter table public.transactions
+  add column if not exists recurring_transaction_id uuid references public.recurring_transactions (id) on delete set null,
+  add column if not exists recurring_occurrence_date date;
+
+alter table public.transactions
+  add constraint transactions_recurring_occurrence_key unique (recurring_transaction_id, recurring_occurrence_date);
+
+alter table public.recurring_transactions enable row level security;
+alter table public.recurring_transaction_exceptions enable row level security;
+
+drop policy if exists "Users manage their own recurring transactions" on public.recurring_transactions;
+create policy "Users manage their own recurring transactions"
+  on public.recurring_transactions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own recurring transaction exceptions" on public.recurring_transaction_exceptions;
+create policy "Users manage their own recurring transaction exceptions"
+  on public.recurring_transaction_exceptions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
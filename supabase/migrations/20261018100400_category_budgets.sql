@@ -0,0 +1,24 @@
+-- Monthly spending budgets per expense category. `month` is always the first
+-- day of the budgeted month. With rollover enabled, the unused part of a month's
+-- budget is added to the next month's budget for the same category.
+
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  category_id uuid not null references public.categories (id) on delete cascade,
+  month date not null check (extract(day from month) = 1),
+  amount numeric not null check (amount >= 0),
+  rollover boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (category_id, month)
+);
+
+create index if not exists budgets_user_id_month_idx on public.budgets (user_id, month);
+
+alter table public.budgets enable row level security;
+
+drop policy if exists "Users manage their own budgets" on public.budgets;
+create policy "Users manage their own budgets"
+  on public.budgets for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Rows imported from bank statements remember a fingerprint of the statement
+-- line, so re-importing an overlapping period does not book them twice.
+
+alter table public.transactions
+  add column if not exists import_fingerprint text;
+
+alter table public.transactions
+  add constraint transactions_account_import_fingerprint_key unique (account_id, import_fingerprint);
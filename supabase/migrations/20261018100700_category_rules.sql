@@ -0,0 +1,31 @@
+-- User-defined auto-categorization rules. Rules are evaluated in ascending
+-- priority; the first active rule whose conditions all match assigns its
+-- category and optionally rewrites the transaction description.
+
+create table if not exists public.category_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  priority integer not null default 0,
+  is_active boolean not null default true,
+  description_pattern text,
+  match_mode text not null default 'contains' check (match_mode in ('contains', 'regex')),
+  min_amount numeric check (min_amount >= 0),
+  max_amount numeric check (max_amount >= 0),
+  account_id uuid references public.bank_accounts (id) on delete cascade,
+  transaction_type text check (transaction_type in ('income', 'expense')),
+  category_id uuid not null references public.categories (id) on delete cascade,
+  rewrite_description text,
+  created_at timestamptz not null default now(),
+  check (min_amount is null or max_amount is null or min_amount <= max_amount)
+);
+
+create index if not exists category_rules_user_id_idx on public.category_rules (user_id, priority);
+
+alter table public.category_rules enable row level security;
+
+drop policy if exists "Users manage their own category rules" on public.category_rules;
+create policy "Users manage their own category rules"
+  on public.category_rules for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Supports the filtered, paginated transaction history: a full-text index on the
+-- description and composite indexes for the default date ordering.
+
+alter table public.transactions
+  add column if not exists description_search tsvector
+  generated always as (to_tsvector('simple', coalesce(description, ''))) stored;
+
+create index if not exists transactions_description_search_idx
+  on public.transactions using gin (description_search);
+
+create index if not exists transactions_user_date_idx
+  on public.transactions (user_id, transaction_date desc, id desc);
+
+create index if not exists transactions_user_category_date_idx
+  on public.transactions (user_id, category_id, transaction_date desc);
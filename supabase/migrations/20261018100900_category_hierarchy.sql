@@ -0,0 +1,41 @@
+-- Optional parent category ("Transport" > "Bensin"). The hierarchy is two levels
+-- deep: a parent must be a top-level category of the same user and type.
+
+alter table public.categories
+  add column if not exists parent_id uuid references public.categories (id) on delete restrict;
+
+alter table public.categories
+  add constraint categories_parent_not_self_check check (parent_id is null or parent_id <> id);
+
+create index if not exists categories_parent_id_idx on public.categories (parent_id);
+
+create or replace function public.validate_category_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  parent public.categories%rowtype;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select * into parent from public.categories where id = new.parent_id;
+
+  if parent.user_id is distinct from new.user_id or parent.type is distinct from new.type then
+    raise exception 'Parent category must belong to the same user and have the same type';
+  end if;
+  if parent.parent_id is not null then
+    raise exception 'Subcategories cannot be nested further';
+  end if;
+  if exists (select 1 from public.categories where parent_id = new.id) then
+    raise exception 'A category with subcategories cannot become a subcategory';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger categories_validate_parent
+  before insert or update of parent_id, type on public.categories
+  for each row execute function public.validate_category_parent();
@@ -0,0 +1,68 @@
+-- Categories can no longer be deleted while transactions still reference them.
+-- Instead they are merged into another category (which moves their history) or
+-- archived, which hides them from pickers but keeps reports intact.
+
+alter table public.categories
+  add column if not exists archived_at timestamptz;
+
+alter table public.transactions
+  drop constraint if exists transactions_category_id_fkey;
+
+alter table public.transactions
+  add constraint transactions_category_id_fkey
+  foreign key (category_id) references public.categories (id) on delete restrict;
+
+-- Moves everything that references `source_id` to `target_id` and deletes the
+-- source. Budgets of the same month are added together. Runs with the caller's
+-- privileges, so row level security limits it to the caller's own categories.
+create or replace function public.merge_category(source_id uuid, target_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  source public.categories%rowtype;
+  target public.categories%rowtype;
+begin
+  select * into source from public.categories where id = source_id;
+  select * into target from public.categories where id = target_id;
+
+  if source.id is null or target.id is null then
+    raise exception 'Category not found';
+  end if;
+  if source.id = target.id then
+    raise exception 'A category cannot be merged into itself';
+  end if;
+  if source.type <> target.type then
+    raise exception 'Only categories of the same type can be merged';
+  end if;
+  if target.parent_id = source.id then
+    raise exception 'A category cannot be merged into one of its subcategories';
+  end if;
+  if target.parent_id is not null and exists (select 1 from public.categories where parent_id = source.id) then
+    raise exception 'A category with subcategories can only be merged into a top-level category';
+  end if;
+
+  update public.categories set parent_id = target.id where parent_id = source.id;
+
+  update public.transactions set category_id = target.id where category_id = source.id;
+  update public.recurring_transactions set category_id = target.id where category_id = source.id;
+  update public.category_rules set category_id = target.id where category_id = source.id;
+
+  update public.budgets t
+  set amount = t.amount + s.amount
+  from public.budgets s
+  where s.category_id = source.id
+    and t.category_id = target.id
+    and t.month = s.month;
+
+  delete from public.budgets s
+  where s.category_id = source.id
+    and exists (select 1 from public.budgets t where t.category_id = target.id and t.month = s.month);
+
+  update public.budgets set category_id = target.id where category_id = source.id;
+
+  delete from public.categories where id = source.id;
+end;
+$$;
@@ -0,0 +1,85 @@
+-- Row level security so far only checked the user_id of the row itself, which
+-- still allowed pointing a row at another user's category or bank account by id
+-- (and, through the balance triggers, changing that account's balance). Every
+-- policy now also requires the referenced rows to belong to the same user.
+
+create or replace function public.is_own_category(p_category_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_category_id is null
+    or exists (select 1 from public.categories where id = p_category_id and user_id = auth.uid());
+$$;
+
+create or replace function public.is_own_bank_account(p_account_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_account_id is null
+    or exists (select 1 from public.bank_accounts where id = p_account_id and user_id = auth.uid());
+$$;
+
+create or replace function public.is_own_recurring_transaction(p_recurring_transaction_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_recurring_transaction_id is null
+    or exists (
+      select 1 from public.recurring_transactions
+      where id = p_recurring_transaction_id and user_id = auth.uid()
+    );
+$$;
+
+drop policy if exists "Users manage their own categories" on public.categories;
+create policy "Users manage their own categories"
+  on public.categories for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_category(parent_id));
+
+drop policy if exists "Users manage their own transactions" on public.transactions;
+create policy "Users manage their own transactions"
+  on public.transactions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_category(category_id)
+    and public.is_own_bank_account(account_id)
+    and public.is_own_bank_account(to_account_id)
+    and public.is_own_recurring_transaction(recurring_transaction_id)
+  );
+
+drop policy if exists "Users manage their own recurring transactions" on public.recurring_transactions;
+create policy "Users manage their own recurring transactions"
+  on public.recurring_transactions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_category(category_id)
+    and public.is_own_bank_account(account_id)
+    and public.is_own_bank_account(to_account_id)
+  );
+
+drop policy if exists "Users manage their own recurring transaction exceptions" on public.recurring_transaction_exceptions;
+create policy "Users manage their own recurring transaction exceptions"
+  on public.recurring_transaction_exceptions for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_recurring_transaction(recurring_transaction_id));
+
+drop policy if exists "Users manage their own budgets" on public.budgets;
+create policy "Users manage their own budgets"
+  on public.budgets for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_category(category_id));
+
+drop policy if exists "Users manage their own category rules" on public.category_rules;
+create policy "Users manage their own category rules"
+  on public.category_rules for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_category(category_id)
+    and public.is_own_bank_account(account_id)
+  );
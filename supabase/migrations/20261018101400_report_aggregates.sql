@@ -0,0 +1,87 @@
+-- Aggregates behind the reports and the dashboard. They are computed in the
+-- database so a page needs one round trip instead of loading every transaction
+-- of the range. All functions run with the caller's privileges and only look at
+-- the caller's own rows.
+
+-- Income and expense per calendar month between two dates (inclusive). Months
+-- without transactions are returned with zero totals so charts keep their gaps.
+-- Transfers only move money between accounts and are left out.
+create or replace function public.monthly_cash_flow(from_date date, to_date date)
+returns table (month date, income numeric, expense numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.month::date,
+    coalesce(sum(t.amount) filter (where t.type = 'income'), 0),
+    coalesce(sum(t.amount) filter (where t.type = 'expense'), 0)
+  from generate_series(
+    date_trunc('month', from_date),
+    date_trunc('month', to_date),
+    interval '1 month'
+  ) as m(month)
+  left join public.transactions t
+    on t.user_id = auth.uid()
+    and t.type in ('income', 'expense')
+    and t.transaction_date >= greatest(m.month::date, from_date)
+    and t.transaction_date < least((m.month + interval '1 month')::date, to_date + 1)
+  group by m.month
+  order by m.month;
+$$;
+
+-- Total per category of one type between two dates (inclusive). Totals are per
+-- category as booked; rolling subcategories up into their parent is left to the
+-- caller, which also needs the split for drilling down. Uncategorized amounts
+-- are returned with a null category_id.
+create or replace function public.category_totals(from_date date, to_date date, category_type text default 'expense')
+returns table (category_id uuid, total numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select t.category_id, sum(t.amount)
+  from public.transactions t
+  where t.user_id = auth.uid()
+    and t.type = category_type
+    and t.transaction_date between from_date and to_date
+  group by t.category_id
+  order by sum(t.amount) desc;
+$$;
+
+-- Bank balances and asset values as of a date. Transfers between the user's own
+-- accounts cancel out except for their fee. Assets count from their acquisition
+-- date at their current value, since no valuation history is kept.
+create or replace function public.net_worth_totals(as_of date default current_date)
+returns table (bank_balance numeric, asset_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with bank as (
+    select
+      coalesce((select sum(a.opening_balance) from public.bank_accounts a where a.user_id = auth.uid()), 0)
+      + coalesce((
+        select sum(case
+          when t.type = 'income' then t.amount
+          when t.type = 'transfer' then -t.fee
+          else -t.amount
+        end)
+        from public.transactions t
+        where t.user_id = auth.uid()
+          and t.account_id is not null
+          and t.transaction_date <= as_of
+      ), 0) as total
+  ),
+  asset as (
+    select coalesce(sum(a.current_value), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  )
+  select bank.total, asset.total, bank.total + asset.total
+  from bank, asset;
+$$;
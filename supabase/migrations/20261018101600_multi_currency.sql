@@ -0,0 +1,247 @@
+-- Accounts, assets and transactions carry a currency. A transaction is always in
+-- the currency of its account; transfers between accounts of different
+-- currencies also record the amount received. Reports convert amounts into a
+-- base currency chosen by the user with the exchange rates the user maintains.
+
+alter table public.bank_accounts
+  add column if not exists currency text not null default 'IDR'
+  constraint bank_accounts_currency_check check (currency ~ '^[A-Z]{3}$');
+
+alter table public.assets
+  add column if not exists currency text not null default 'IDR'
+  constraint assets_currency_check check (currency ~ '^[A-Z]{3}$');
+
+alter table public.transactions
+  add column if not exists currency text not null default 'IDR'
+  constraint transactions_currency_check check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists to_amount numeric
+  constraint transactions_to_amount_check check (to_amount > 0);
+
+update public.transactions t
+set currency = a.currency
+from public.bank_accounts a
+where a.id = t.account_id;
+
+-- Copies the account's currency onto the transaction and requires the amount
+-- received for transfers that change currency.
+create or replace function public.set_transaction_currency()
+returns trigger
+language plpgsql
+as $$
+declare
+  destination_currency text;
+begin
+  if new.account_id is not null then
+    select currency into new.currency from public.bank_accounts where id = new.account_id;
+  end if;
+
+  if new.type = 'transfer' then
+    select currency into destination_currency from public.bank_accounts where id = new.to_account_id;
+    if destination_currency = new.currency then
+      new.to_amount := null;
+    elsif new.to_amount is null then
+      raise exception 'A transfer from % to % needs the amount received', new.currency, destination_currency;
+    end if;
+  else
+    new.to_amount := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_set_currency on public.transactions;
+create trigger transactions_set_currency
+  before insert or update on public.transactions
+  for each row execute function public.set_transaction_currency();
+
+-- Existing transactions would silently change their meaning otherwise.
+create or replace function public.prevent_account_currency_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.currency is distinct from old.currency and exists (
+    select 1 from public.transactions t where t.account_id = new.id or t.to_account_id = new.id
+  ) then
+    raise exception 'The currency of an account with transactions cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bank_accounts_prevent_currency_change on public.bank_accounts;
+create trigger bank_accounts_prevent_currency_change
+  before update of currency on public.bank_accounts
+  for each row execute function public.prevent_account_currency_change();
+
+-- The destination of a cross-currency transfer receives to_amount.
+create or replace function public.bank_account_transaction_total(p_account_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select
+    coalesce((
+      select sum(case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end)
+      from public.transactions t
+      where t.account_id = p_account_id
+    ), 0)
+    + coalesce((
+      select sum(coalesce(t.to_amount, t.amount))
+      from public.transactions t
+      where t.to_account_id = p_account_id and t.type = 'transfer'
+    ), 0);
+$$;
+
+-- One unit of from_currency is worth `rate` units of to_currency on rate_date.
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_currency text not null constraint exchange_rates_from_currency_check check (from_currency ~ '^[A-Z]{3}$'),
+  to_currency text not null constraint exchange_rates_to_currency_check check (to_currency ~ '^[A-Z]{3}$'),
+  rate numeric not null constraint exchange_rates_rate_check check (rate > 0),
+  rate_date date not null,
+  created_at timestamptz not null default now(),
+  constraint exchange_rates_pair_check check (from_currency <> to_currency),
+  constraint exchange_rates_user_pair_date_key unique (user_id, from_currency, to_currency, rate_date)
+);
+
+alter table public.exchange_rates enable row level security;
+
+drop policy if exists "Users manage their own exchange rates" on public.exchange_rates;
+create policy "Users manage their own exchange rates"
+  on public.exchange_rates for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Converts with the latest rate on or before the date, or the earliest later
+-- one when the date predates every rate. A rate entered in the opposite
+-- direction is used inverted. Returns null when the pair has no rate at all.
+create or replace function public.convert_amount(p_amount numeric, p_from text, p_to text, p_date date)
+returns numeric
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select case
+    when p_from = p_to then p_amount
+    else p_amount * (
+      select r.factor
+      from (
+        select e.rate as factor, e.rate_date
+        from public.exchange_rates e
+        where e.user_id = auth.uid() and e.from_currency = p_from and e.to_currency = p_to
+        union all
+        select 1 / e.rate, e.rate_date
+        from public.exchange_rates e
+        where e.user_id = auth.uid() and e.from_currency = p_to and e.to_currency = p_from
+      ) r
+      order by r.rate_date > p_date, abs(r.rate_date - p_date)
+      limit 1
+    )
+  end;
+$$;
+
+-- The aggregates gain a base currency; amounts whose currency has no rate into
+-- it are left out.
+drop function if exists public.monthly_cash_flow(date, date);
+drop function if exists public.category_totals(date, date, text);
+drop function if exists public.net_worth_totals(date);
+
+create or replace function public.monthly_cash_flow(from_date date, to_date date, base_currency text default 'IDR')
+returns table (month date, income numeric, expense numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.month::date,
+    coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'income'), 0),
+    coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'expense'), 0)
+  from generate_series(
+    date_trunc('month', from_date),
+    date_trunc('month', to_date),
+    interval '1 month'
+  ) as m(month)
+  left join public.transactions t
+    on t.user_id = auth.uid()
+    and t.type in ('income', 'expense')
+    and t.transaction_date >= greatest(m.month::date, from_date)
+    and t.transaction_date < least((m.month + interval '1 month')::date, to_date + 1)
+  group by m.month
+  order by m.month;
+$$;
+
+create or replace function public.category_totals(
+  from_date date,
+  to_date date,
+  category_type text default 'expense',
+  base_currency text default 'IDR'
+)
+returns table (category_id uuid, total numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select t.category_id, coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date)), 0)
+  from public.transactions t
+  where t.user_id = auth.uid()
+    and t.type = category_type
+    and t.transaction_date between from_date and to_date
+  group by t.category_id
+  order by 2 desc;
+$$;
+
+-- Each account's balance on the date is converted at the rate of that date.
+create or replace function public.net_worth_totals(as_of date default current_date, base_currency text default 'IDR')
+returns table (bank_balance numeric, asset_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with movements as (
+    select
+      t.account_id,
+      case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end as delta
+    from public.transactions t
+    where t.user_id = auth.uid() and t.account_id is not null and t.transaction_date <= as_of
+    union all
+    select t.to_account_id, coalesce(t.to_amount, t.amount)
+    from public.transactions t
+    where t.user_id = auth.uid() and t.type = 'transfer' and t.transaction_date <= as_of
+  ),
+  balances as (
+    select a.currency, a.opening_balance + coalesce(sum(m.delta), 0) as balance
+    from public.bank_accounts a
+    left join movements m on m.account_id = a.id
+    where a.user_id = auth.uid()
+    group by a.id
+  ),
+  bank as (
+    select coalesce(sum(public.convert_amount(b.balance, b.currency, base_currency, as_of)), 0) as total
+    from balances b
+  ),
+  asset as (
+    select coalesce(sum(public.convert_amount(a.current_value, a.currency, base_currency, as_of)), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  )
+  select bank.total, asset.total, bank.total + asset.total
+  from bank, asset;
+$$;
@@ -0,0 +1,156 @@
+-- A dated log of what each asset was worth. assets.current_value stays as a
+-- cached copy of the latest valuation so lists and totals need no join.
+
+create table if not exists public.asset_valuations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  asset_id uuid not null references public.assets (id) on delete cascade,
+  valued_at date not null,
+  value numeric not null constraint asset_valuations_value_check check (value >= 0),
+  note text,
+  created_at timestamptz not null default now(),
+  constraint asset_valuations_asset_date_key unique (asset_id, valued_at)
+);
+
+create index if not exists asset_valuations_user_id_idx on public.asset_valuations (user_id);
+
+alter table public.asset_valuations enable row level security;
+
+drop policy if exists "Users manage their own asset valuations" on public.asset_valuations;
+create policy "Users manage their own asset valuations"
+  on public.asset_valuations for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.assets a where a.id = asset_id and a.user_id = auth.uid())
+  );
+
+-- Existing assets start their log with the purchase and, when it differs, the
+-- value they were last edited to.
+insert into public.asset_valuations (user_id, asset_id, valued_at, value)
+select a.user_id, a.id, a.acquired_at, a.initial_value
+from public.assets a
+on conflict (asset_id, valued_at) do nothing;
+
+insert into public.asset_valuations (user_id, asset_id, valued_at, value)
+select a.user_id, a.id, greatest(a.acquired_at, a.created_at::date), a.current_value
+from public.assets a
+where a.current_value <> a.initial_value
+on conflict (asset_id, valued_at) do update set value = excluded.value;
+
+-- The purchase is the first entry of the log and follows edits of the
+-- acquisition date or initial value. New assets also log the value they were
+-- entered with when it differs from the purchase price.
+create or replace function public.log_asset_purchase_valuation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.acquired_at = old.acquired_at and new.initial_value = old.initial_value then
+      return new;
+    end if;
+    delete from public.asset_valuations where asset_id = new.id and valued_at = old.acquired_at;
+  end if;
+
+  insert into public.asset_valuations (user_id, asset_id, valued_at, value)
+  values (new.user_id, new.id, new.acquired_at, new.initial_value)
+  on conflict (asset_id, valued_at) do update set value = excluded.value;
+
+  if tg_op = 'INSERT' and new.current_value <> new.initial_value then
+    insert into public.asset_valuations (user_id, asset_id, valued_at, value)
+    values (new.user_id, new.id, greatest(new.acquired_at, current_date), new.current_value)
+    on conflict (asset_id, valued_at) do update set value = excluded.value;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists assets_log_purchase_valuation on public.assets;
+create trigger assets_log_purchase_valuation
+  after insert or update of acquired_at, initial_value on public.assets
+  for each row execute function public.log_asset_purchase_valuation();
+
+-- Keeps assets.current_value equal to the latest valuation. An asset whose log
+-- is emptied falls back to its initial value.
+create or replace function public.sync_asset_current_value()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- new is null on delete and old on insert; either side may name the asset.
+  update public.assets a
+  set current_value = coalesce((
+    select v.value
+    from public.asset_valuations v
+    where v.asset_id = a.id
+    order by v.valued_at desc
+    limit 1
+  ), a.initial_value)
+  where a.id in (new.asset_id, old.asset_id);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists asset_valuations_sync_current_value on public.asset_valuations;
+create trigger asset_valuations_sync_current_value
+  after insert or update or delete on public.asset_valuations
+  for each row execute function public.sync_asset_current_value();
+
+-- Assets now count at their latest valuation on or before the date instead of
+-- their current value.
+create or replace function public.net_worth_totals(as_of date default current_date, base_currency text default 'IDR')
+returns table (bank_balance numeric, asset_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with movements as (
+    select
+      t.account_id,
+      case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end as delta
+    from public.transactions t
+    where t.user_id = auth.uid() and t.account_id is not null and t.transaction_date <= as_of
+    union all
+    select t.to_account_id, coalesce(t.to_amount, t.amount)
+    from public.transactions t
+    where t.user_id = auth.uid() and t.type = 'transfer' and t.transaction_date <= as_of
+  ),
+  balances as (
+    select a.currency, a.opening_balance + coalesce(sum(m.delta), 0) as balance
+    from public.bank_accounts a
+    left join movements m on m.account_id = a.id
+    where a.user_id = auth.uid()
+    group by a.id
+  ),
+  bank as (
+    select coalesce(sum(public.convert_amount(b.balance, b.currency, base_currency, as_of)), 0) as total
+    from balances b
+  ),
+  asset as (
+    select coalesce(sum(public.convert_amount(
+      coalesce((
+        select v.value
+        from public.asset_valuations v
+        where v.asset_id = a.id and v.valued_at <= as_of
+        order by v.valued_at desc
+        limit 1
+      ), a.initial_value),
+      a.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  )
+  select bank.total, asset.total, bank.total + asset.total
+  from bank, asset;
+$$;
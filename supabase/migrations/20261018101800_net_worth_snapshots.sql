@@ -0,0 +1,154 @@
+-- Net worth is what the accounts and assets are worth minus what is owed.
+-- Until loans are tracked, accounts with a negative balance (overdrafts, credit
+-- lines) are the liabilities. Each closed month is stored as a snapshot so the
+-- history keeps the figures as they were at month end. Entries for a closed
+-- month often arrive late (a statement imported after month end), so the last
+-- closed month is recomputed until the next one closes. Deleting the snapshots
+-- recomputes them all.
+
+drop function if exists public.net_worth_totals(date, text);
+
+create or replace function public.net_worth_totals(as_of date default current_date, base_currency text default 'IDR')
+returns table (bank_balance numeric, asset_value numeric, liability_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with movements as (
+    select
+      t.account_id,
+      case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end as delta
+    from public.transactions t
+    where t.user_id = auth.uid() and t.account_id is not null and t.transaction_date <= as_of
+    union all
+    select t.to_account_id, coalesce(t.to_amount, t.amount)
+    from public.transactions t
+    where t.user_id = auth.uid() and t.type = 'transfer' and t.transaction_date <= as_of
+  ),
+  balances as (
+    select public.convert_amount(a.opening_balance + coalesce(sum(m.delta), 0), a.currency, base_currency, as_of) as balance
+    from public.bank_accounts a
+    left join movements m on m.account_id = a.id
+    where a.user_id = auth.uid()
+    group by a.id
+  ),
+  bank as (
+    select
+      coalesce(sum(b.balance) filter (where b.balance > 0), 0) as total,
+      coalesce(-sum(b.balance) filter (where b.balance < 0), 0) as owed
+    from balances b
+  ),
+  asset as (
+    select coalesce(sum(public.convert_amount(
+      coalesce((
+        select v.value
+        from public.asset_valuations v
+        where v.asset_id = a.id and v.valued_at <= as_of
+        order by v.valued_at desc
+        limit 1
+      ), a.initial_value),
+      a.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  )
+  select bank.total, asset.total, bank.owed, bank.total + asset.total - bank.owed
+  from bank, asset;
+$$;
+
+create table if not exists public.net_worth_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- First day of the month; the figures are as of its last day.
+  month date not null constraint net_worth_snapshots_month_check check (extract(day from month) = 1),
+  base_currency text not null constraint net_worth_snapshots_base_currency_check check (base_currency ~ '^[A-Z]{3}$'),
+  bank_balance numeric not null,
+  asset_value numeric not null,
+  liability_value numeric not null,
+  net_worth numeric not null,
+  created_at timestamptz not null default now(),
+  constraint net_worth_snapshots_user_month_currency_key unique (user_id, month, base_currency)
+);
+
+alter table public.net_worth_snapshots enable row level security;
+
+drop policy if exists "Users manage their own net worth snapshots" on public.net_worth_snapshots;
+create policy "Users manage their own net worth snapshots"
+  on public.net_worth_snapshots for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Net worth at the end of each of the last `months` months, the current month
+-- included. Closed months without a snapshot and last month are recorded
+-- first; the current month is computed live since it is still moving. Months
+-- before the user's first account, asset or transaction are skipped.
+create or replace function public.net_worth_history(months integer default 12, base_currency text default 'IDR')
+returns table (month date, bank_balance numeric, asset_value numeric, liability_value numeric, net_worth numeric)
+language plpgsql
+volatile
+security invoker
+set search_path = public
+as $$
+declare
+  current_month date := date_trunc('month', current_date)::date;
+  last_month date := (date_trunc('month', current_date) - interval '1 month')::date;
+  first_month date;
+  m date;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select date_trunc('month', least(
+    (select min(a.created_at)::date from public.bank_accounts a where a.user_id = auth.uid()),
+    (select min(a.acquired_at) from public.assets a where a.user_id = auth.uid()),
+    (select min(t.transaction_date) from public.transactions t where t.user_id = auth.uid())
+  ))::date into first_month;
+
+  for m in
+    select s::date
+    from generate_series(
+      greatest(current_month - make_interval(months => months - 1), first_month),
+      last_month,
+      interval '1 month'
+    ) s
+    where first_month is not null
+      and (
+        s = last_month
+        or not exists (
+          select 1 from public.net_worth_snapshots ns
+          where ns.user_id = auth.uid() and ns.month = s and ns.base_currency = net_worth_history.base_currency
+        )
+      )
+  loop
+    insert into public.net_worth_snapshots (user_id, month, base_currency, bank_balance, asset_value, liability_value, net_worth)
+    select auth.uid(), m, net_worth_history.base_currency, t.bank_balance, t.asset_value, t.liability_value, t.net_worth
+    from public.net_worth_totals((m + interval '1 month - 1 day')::date, net_worth_history.base_currency) t
+    on conflict on constraint net_worth_snapshots_user_month_currency_key do update set
+      bank_balance = excluded.bank_balance,
+      asset_value = excluded.asset_value,
+      liability_value = excluded.liability_value,
+      net_worth = excluded.net_worth;
+  end loop;
+
+  return query
+    select s.month, s.bank_balance, s.asset_value, s.liability_value, s.net_worth
+    from public.net_worth_snapshots s
+    where s.user_id = auth.uid()
+      and s.base_currency = net_worth_history.base_currency
+      and s.month >= current_month - make_interval(months => months - 1)
+      and s.month < current_month
+    union all
+    select current_month, t.bank_balance, t.asset_value, t.liability_value, t.net_worth
+    from public.net_worth_totals(current_date, net_worth_history.base_currency) t
+    order by 1;
+end;
+$$;
@@ -0,0 +1,165 @@
+-- Loans and other debts. Installments are ordinary expense transactions linked
+-- to the liability and split into the principal they repay and the interest
+-- they cost; the outstanding balance is the principal minus what was repaid.
+
+create table if not exists public.liabilities (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null default 'other'
+    constraint liabilities_type_check check (type in ('mortgage', 'vehicle', 'paylater', 'credit_card', 'personal', 'other')),
+  principal numeric not null constraint liabilities_principal_check check (principal > 0),
+  -- Yearly rate in percent.
+  interest_rate numeric not null default 0 constraint liabilities_interest_rate_check check (interest_rate >= 0),
+  -- 'annuity': equal installments of declining interest (KPR).
+  -- 'flat': interest on the original principal every month (vehicle loans).
+  interest_method text not null default 'annuity'
+    constraint liabilities_interest_method_check check (interest_method in ('annuity', 'flat')),
+  tenor_months integer not null constraint liabilities_tenor_months_check check (tenor_months > 0),
+  start_date date not null,
+  payment_day integer not null constraint liabilities_payment_day_check check (payment_day between 1 and 31),
+  currency text not null default 'IDR' constraint liabilities_currency_check check (currency ~ '^[A-Z]{3}$'),
+  account_id uuid references public.bank_accounts (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists liabilities_user_id_idx on public.liabilities (user_id);
+
+alter table public.liabilities enable row level security;
+
+drop policy if exists "Users manage their own liabilities" on public.liabilities;
+create policy "Users manage their own liabilities"
+  on public.liabilities for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_bank_account(account_id));
+
+alter table public.transactions
+  add column if not exists liability_id uuid references public.liabilities (id) on delete set null,
+  add column if not exists principal_amount numeric
+    constraint transactions_principal_amount_check check (principal_amount >= 0),
+  add column if not exists interest_amount numeric
+    constraint transactions_interest_amount_check check (interest_amount >= 0);
+
+create index if not exists transactions_liability_id_idx on public.transactions (liability_id);
+
+-- Keeps the split of an installment adding up to its amount. When the amount
+-- is edited the interest stays and the principal takes the difference.
+create or replace function public.split_liability_payment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.liability_id is null then
+    new.principal_amount := null;
+    new.interest_amount := null;
+    return new;
+  end if;
+
+  if new.type <> 'expense' then
+    raise exception 'A liability payment must be an expense';
+  end if;
+
+  new.interest_amount := least(coalesce(new.interest_amount, 0), new.amount);
+  new.principal_amount := new.amount - new.interest_amount;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_split_liability_payment on public.transactions;
+create trigger transactions_split_liability_payment
+  before insert or update on public.transactions
+  for each row execute function public.split_liability_payment();
+
+create or replace function public.is_own_liability(p_liability_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_liability_id is null
+    or exists (select 1 from public.liabilities where id = p_liability_id and user_id = auth.uid());
+$$;
+
+drop policy if exists "Users manage their own transactions" on public.transactions;
+create policy "Users manage their own transactions"
+  on public.transactions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_category(category_id)
+    and public.is_own_bank_account(account_id)
+    and public.is_own_bank_account(to_account_id)
+    and public.is_own_recurring_transaction(recurring_transaction_id)
+    and public.is_own_liability(liability_id)
+  );
+
+-- Outstanding loan balances join negative account balances as liabilities.
+create or replace function public.net_worth_totals(as_of date default current_date, base_currency text default 'IDR')
+returns table (bank_balance numeric, asset_value numeric, liability_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with movements as (
+    select
+      t.account_id,
+      case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end as delta
+    from public.transactions t
+    where t.user_id = auth.uid() and t.account_id is not null and t.transaction_date <= as_of
+    union all
+    select t.to_account_id, coalesce(t.to_amount, t.amount)
+    from public.transactions t
+    where t.user_id = auth.uid() and t.type = 'transfer' and t.transaction_date <= as_of
+  ),
+  balances as (
+    select public.convert_amount(a.opening_balance + coalesce(sum(m.delta), 0), a.currency, base_currency, as_of) as balance
+    from public.bank_accounts a
+    left join movements m on m.account_id = a.id
+    where a.user_id = auth.uid()
+    group by a.id
+  ),
+  bank as (
+    select
+      coalesce(sum(b.balance) filter (where b.balance > 0), 0) as total,
+      coalesce(-sum(b.balance) filter (where b.balance < 0), 0) as owed
+    from balances b
+  ),
+  asset as (
+    select coalesce(sum(public.convert_amount(
+      coalesce((
+        select v.value
+        from public.asset_valuations v
+        where v.asset_id = a.id and v.valued_at <= as_of
+        order by v.valued_at desc
+        limit 1
+      ), a.initial_value),
+      a.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  ),
+  loan as (
+    select coalesce(sum(public.convert_amount(
+      greatest(l.principal - coalesce((
+        select sum(t.principal_amount)
+        from public.transactions t
+        where t.liability_id = l.id and t.transaction_date <= as_of
+      ), 0), 0),
+      l.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.liabilities l
+    where l.user_id = auth.uid()
+      and l.start_date <= as_of
+  )
+  select bank.total, asset.total, bank.owed + loan.total, bank.total + asset.total - bank.owed - loan.total
+  from bank, asset, loan;
+$$;
@@ -0,0 +1,36 @@
+-- Credit cards are accounts whose balance runs negative: spending on the card
+-- lowers it, payments (transfers into the card) raise it back towards zero.
+-- A negative balance is what the user owes, and net_worth_totals already
+-- counts it as a liability. Statements close on statement_day and are due on
+-- the next payment_due_day after closing; both fall back to the last day of
+-- shorter months.
+
+alter table public.bank_accounts
+  add column if not exists account_type text not null default 'bank'
+    constraint bank_accounts_account_type_check check (account_type in ('bank', 'credit_card')),
+  add column if not exists credit_limit numeric
+    constraint bank_accounts_credit_limit_check check (credit_limit > 0),
+  add column if not exists statement_day integer
+    constraint bank_accounts_statement_day_check check (statement_day between 1 and 31),
+  add column if not exists payment_due_day integer
+    constraint bank_accounts_payment_due_day_check check (payment_due_day between 1 and 31),
+  -- The minimum payment is this share of the statement balance, but at least
+  -- minimum_payment_amount (and never more than the balance itself).
+  add column if not exists minimum_payment_percent numeric
+    constraint bank_accounts_minimum_payment_percent_check check (minimum_payment_percent between 0 and 100),
+  add column if not exists minimum_payment_amount numeric
+    constraint bank_accounts_minimum_payment_amount_check check (minimum_payment_amount >= 0);
+
+alter table public.bank_accounts
+  drop constraint if exists bank_accounts_credit_card_terms_check;
+alter table public.bank_accounts
+  add constraint bank_accounts_credit_card_terms_check check (
+    account_type <> 'credit_card'
+    or (
+      credit_limit is not null
+      and statement_day is not null
+      and payment_due_day is not null
+      and minimum_payment_percent is not null
+      and minimum_payment_amount is not null
+    )
+  );
@@ -0,0 +1,138 @@
+-- Savings goals (Umroh, a wedding, an emergency fund). Progress is the sum of
+-- the contributions towards a goal, entered by hand or linked to the
+-- transaction that moved the money, e.g. a transfer into the savings account.
+
+create table if not exists public.savings_goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  target_amount numeric not null constraint savings_goals_target_amount_check check (target_amount > 0),
+  target_date date,
+  currency text not null default 'IDR' constraint savings_goals_currency_check check (currency ~ '^[A-Z]{3}$'),
+  -- Where the money is kept; transactions into it are offered as contributions.
+  account_id uuid references public.bank_accounts (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists savings_goals_user_id_idx on public.savings_goals (user_id);
+
+alter table public.savings_goals enable row level security;
+
+drop policy if exists "Users manage their own savings goals" on public.savings_goals;
+create policy "Users manage their own savings goals"
+  on public.savings_goals for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_bank_account(account_id));
+
+create or replace function public.is_own_savings_goal(p_goal_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select exists (select 1 from public.savings_goals where id = p_goal_id and user_id = auth.uid());
+$$;
+
+create or replace function public.is_own_transaction(p_transaction_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_transaction_id is null
+    or exists (select 1 from public.transactions where id = p_transaction_id and user_id = auth.uid());
+$$;
+
+-- Negative amounts are withdrawals. A transaction counts towards one goal at most.
+create table if not exists public.goal_contributions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  goal_id uuid not null references public.savings_goals (id) on delete cascade,
+  contributed_at date not null default current_date,
+  amount numeric not null constraint goal_contributions_amount_check check (amount <> 0),
+  note text,
+  transaction_id uuid references public.transactions (id) on delete cascade
+    constraint goal_contributions_transaction_id_key unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists goal_contributions_goal_id_idx on public.goal_contributions (goal_id);
+
+alter table public.goal_contributions enable row level security;
+
+drop policy if exists "Users manage their own goal contributions" on public.goal_contributions;
+create policy "Users manage their own goal contributions"
+  on public.goal_contributions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_savings_goal(goal_id)
+    and public.is_own_transaction(transaction_id)
+  );
+
+-- A contribution linked to a transaction takes its date and the amount that
+-- arrived: the received amount of a transfer, the amount of anything else,
+-- converted into the currency of the goal at the rate of the transaction date.
+create or replace function public.sync_goal_contribution_from_transaction()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_currency text;
+begin
+  if new.transaction_id is not null then
+    select
+      t.transaction_date,
+      public.convert_amount(
+        case when t.type = 'transfer' then coalesce(t.to_amount, t.amount) else t.amount end,
+        case when t.type = 'transfer' then coalesce(a.currency, t.currency) else t.currency end,
+        g.currency,
+        t.transaction_date
+      ),
+      g.currency
+    into new.contributed_at, new.amount, v_currency
+    from public.transactions t
+    left join public.bank_accounts a on a.id = t.to_account_id
+    cross join public.savings_goals g
+    where t.id = new.transaction_id and g.id = new.goal_id;
+
+    if new.amount is null then
+      raise exception 'No exchange rate into % for the linked transaction', v_currency;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists goal_contributions_sync_from_transaction on public.goal_contributions;
+create trigger goal_contributions_sync_from_transaction
+  before insert or update on public.goal_contributions
+  for each row execute function public.sync_goal_contribution_from_transaction();
+
+-- Re-reads linked contributions when their transaction is edited or their goal
+-- changes currency.
+create or replace function public.sync_goal_contributions_of_transaction()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_table_name = 'savings_goals' then
+    update public.goal_contributions
+    set transaction_id = transaction_id
+    where goal_id = new.id and transaction_id is not null;
+  else
+    update public.goal_contributions
+    set transaction_id = transaction_id
+    where transaction_id = new.id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists transactions_sync_goal_contributions on public.transactions;
+create trigger transactions_sync_goal_contributions
+  after update of amount, to_amount, type, transaction_date, account_id, to_account_id, currency on public.transactions
+  for each row execute function public.sync_goal_contributions_of_transaction();
+
+drop trigger if exists savings_goals_sync_goal_contributions on public.savings_goals;
+create trigger savings_goals_sync_goal_contributions
+  after update of currency on public.savings_goals
+  for each row execute function public.sync_goal_contributions_of_transaction();
@@ -0,0 +1,249 @@
+-- Money lent to or borrowed from people (hutang-piutang). Handing the money
+-- over and paying it back are ordinary income and expense transactions linked
+-- to the debt, but they only move money between the user and the other person,
+-- so the reports leave them out.
+
+create table if not exists public.counterparties (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint counterparties_user_id_name_key unique (user_id, name)
+);
+
+alter table public.counterparties enable row level security;
+
+drop policy if exists "Users manage their own counterparties" on public.counterparties;
+create policy "Users manage their own counterparties"
+  on public.counterparties for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.is_own_counterparty(p_counterparty_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select exists (select 1 from public.counterparties where id = p_counterparty_id and user_id = auth.uid());
+$$;
+
+create table if not exists public.personal_debts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  counterparty_id uuid not null references public.counterparties (id) on delete cascade,
+  -- 'lent': the other person owes the user (piutang).
+  -- 'borrowed': the user owes the other person (hutang).
+  direction text not null constraint personal_debts_direction_check check (direction in ('lent', 'borrowed')),
+  amount numeric not null constraint personal_debts_amount_check check (amount > 0),
+  currency text not null default 'IDR' constraint personal_debts_currency_check check (currency ~ '^[A-Z]{3}$'),
+  debt_date date not null default current_date,
+  due_date date,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists personal_debts_user_id_idx on public.personal_debts (user_id);
+
+alter table public.personal_debts enable row level security;
+
+drop policy if exists "Users manage their own personal debts" on public.personal_debts;
+create policy "Users manage their own personal debts"
+  on public.personal_debts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and public.is_own_counterparty(counterparty_id));
+
+create or replace function public.is_own_personal_debt(p_personal_debt_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select p_personal_debt_id is null
+    or exists (select 1 from public.personal_debts where id = p_personal_debt_id and user_id = auth.uid());
+$$;
+
+-- An expense on money lent hands it over and an income pays it back; the
+-- other way round for money borrowed. Once the debt is deleted the
+-- transactions count as plain income and expense again.
+alter table public.transactions
+  add column if not exists personal_debt_id uuid references public.personal_debts (id) on delete set null;
+
+create index if not exists transactions_personal_debt_id_idx on public.transactions (personal_debt_id);
+
+create or replace function public.check_personal_debt_transaction()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.personal_debt_id is not null and new.type = 'transfer' then
+    raise exception 'A transfer cannot be linked to a personal debt';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_check_personal_debt on public.transactions;
+create trigger transactions_check_personal_debt
+  before insert or update on public.transactions
+  for each row execute function public.check_personal_debt_transaction();
+
+drop policy if exists "Users manage their own transactions" on public.transactions;
+create policy "Users manage their own transactions"
+  on public.transactions for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_category(category_id)
+    and public.is_own_bank_account(account_id)
+    and public.is_own_bank_account(to_account_id)
+    and public.is_own_recurring_transaction(recurring_transaction_id)
+    and public.is_own_liability(liability_id)
+    and public.is_own_personal_debt(personal_debt_id)
+  );
+
+-- Lending and repaying is neither income nor expense.
+create or replace function public.monthly_cash_flow(from_date date, to_date date, base_currency text default 'IDR')
+returns table (month date, income numeric, expense numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.month::date,
+    coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'income'), 0),
+    coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'expense'), 0)
+  from generate_series(
+    date_trunc('month', from_date),
+    date_trunc('month', to_date),
+    interval '1 month'
+  ) as m(month)
+  left join public.transactions t
+    on t.user_id = auth.uid()
+    and t.type in ('income', 'expense')
+    and t.personal_debt_id is null
+    and t.transaction_date >= greatest(m.month::date, from_date)
+    and t.transaction_date < least((m.month + interval '1 month')::date, to_date + 1)
+  group by m.month
+  order by m.month;
+$$;
+
+create or replace function public.category_totals(
+  from_date date,
+  to_date date,
+  category_type text default 'expense',
+  base_currency text default 'IDR'
+)
+returns table (category_id uuid, total numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select t.category_id, coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date)), 0)
+  from public.transactions t
+  where t.user_id = auth.uid()
+    and t.type = category_type
+    and t.personal_debt_id is null
+    and t.transaction_date between from_date and to_date
+  group by t.category_id
+  order by 2 desc;
+$$;
+
+-- Money lent out is still the user's and money borrowed is owed, so what is
+-- outstanding joins the assets and the liabilities.
+create or replace function public.net_worth_totals(as_of date default current_date, base_currency text default 'IDR')
+returns table (bank_balance numeric, asset_value numeric, liability_value numeric, net_worth numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with movements as (
+    select
+      t.account_id,
+      case
+        when t.type = 'income' then t.amount
+        when t.type = 'transfer' then -(t.amount + t.fee)
+        else -t.amount
+      end as delta
+    from public.transactions t
+    where t.user_id = auth.uid() and t.account_id is not null and t.transaction_date <= as_of
+    union all
+    select t.to_account_id, coalesce(t.to_amount, t.amount)
+    from public.transactions t
+    where t.user_id = auth.uid() and t.type = 'transfer' and t.transaction_date <= as_of
+  ),
+  balances as (
+    select public.convert_amount(a.opening_balance + coalesce(sum(m.delta), 0), a.currency, base_currency, as_of) as balance
+    from public.bank_accounts a
+    left join movements m on m.account_id = a.id
+    where a.user_id = auth.uid()
+    group by a.id
+  ),
+  bank as (
+    select
+      coalesce(sum(b.balance) filter (where b.balance > 0), 0) as total,
+      coalesce(-sum(b.balance) filter (where b.balance < 0), 0) as owed
+    from balances b
+  ),
+  asset as (
+    select coalesce(sum(public.convert_amount(
+      coalesce((
+        select v.value
+        from public.asset_valuations v
+        where v.asset_id = a.id and v.valued_at <= as_of
+        order by v.valued_at desc
+        limit 1
+      ), a.initial_value),
+      a.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.assets a
+    where a.user_id = auth.uid()
+      and a.acquired_at <= as_of
+  ),
+  personal as (
+    select
+      coalesce(sum(d.outstanding) filter (where d.direction = 'lent'), 0) as lent,
+      coalesce(sum(d.outstanding) filter (where d.direction = 'borrowed'), 0) as borrowed
+    from (
+      select
+        p.direction,
+        public.convert_amount(greatest(p.amount - coalesce((
+          select sum(t.amount)
+          from public.transactions t
+          where t.personal_debt_id = p.id
+            and t.type = case when p.direction = 'lent' then 'income' else 'expense' end
+            and t.transaction_date <= as_of
+        ), 0), 0), p.currency, base_currency, as_of) as outstanding
+      from public.personal_debts p
+      where p.user_id = auth.uid()
+        and p.debt_date <= as_of
+    ) d
+  ),
+  loan as (
+    select coalesce(sum(public.convert_amount(
+      greatest(l.principal - coalesce((
+        select sum(t.principal_amount)
+        from public.transactions t
+        where t.liability_id = l.id and t.transaction_date <= as_of
+      ), 0), 0),
+      l.currency,
+      base_currency,
+      as_of
+    )), 0) as total
+    from public.liabilities l
+    where l.user_id = auth.uid()
+      and l.start_date <= as_of
+  )
+  select
+    bank.total,
+    asset.total + personal.lent,
+    bank.owed + loan.total + personal.borrowed,
+    bank.total + asset.total + personal.lent - bank.owed - loan.total - personal.borrowed
+  from bank, asset, loan, personal;
+$$;
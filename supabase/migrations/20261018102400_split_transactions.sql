@@ -0,0 +1,239 @@
+-- An expense paid for a group (a shared dinner, a holiday villa) can be split
+-- with other people. Each of their shares is money lent to them: a 'lent'
+-- personal debt linked to the expense, settled with ordinary repayments. Only
+-- what is left, the user's own share, counts as expense in the reports.
+-- Deleting the expense deletes its shares, unless one was partly paid back.
+
+alter table public.transactions
+  add column if not exists split_method text
+    constraint transactions_split_method_check check (split_method in ('equal', 'exact', 'percentage'));
+
+alter table public.personal_debts
+  add column if not exists split_transaction_id uuid references public.transactions (id) on delete cascade;
+
+create unique index if not exists personal_debts_split_transaction_id_counterparty_id_key
+  on public.personal_debts (split_transaction_id, counterparty_id);
+
+-- The shares of an expense are in its currency and together cannot exceed it.
+-- Checked at the end of the transaction so shares can be moved around freely.
+create or replace function public.check_transaction_split()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_transaction_id uuid;
+  v_transaction public.transactions%rowtype;
+begin
+  -- Each branch only reads fields of the row type of its own table.
+  if tg_table_name = 'transactions' then
+    v_transaction_id := new.id;
+  else
+    v_transaction_id := new.split_transaction_id;
+  end if;
+
+  if v_transaction_id is null then
+    return null;
+  end if;
+  if not exists (select 1 from public.personal_debts where split_transaction_id = v_transaction_id) then
+    return null;
+  end if;
+
+  select * into v_transaction from public.transactions where id = v_transaction_id;
+
+  if v_transaction.type <> 'expense' then
+    raise exception 'Only an expense can be split';
+  end if;
+  if exists (
+    select 1 from public.personal_debts
+    where split_transaction_id = v_transaction_id
+      and (direction <> 'lent' or currency <> v_transaction.currency)
+  ) then
+    raise exception 'A share must be money lent in the currency of the expense';
+  end if;
+  if (select sum(amount) from public.personal_debts where split_transaction_id = v_transaction_id) > v_transaction.amount then
+    raise exception 'The shares of other people exceed the expense';
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists personal_debts_check_split on public.personal_debts;
+create constraint trigger personal_debts_check_split
+  after insert or update on public.personal_debts
+  deferrable initially deferred
+  for each row execute function public.check_transaction_split();
+
+drop trigger if exists transactions_check_split on public.transactions;
+create constraint trigger transactions_check_split
+  after update on public.transactions
+  deferrable initially deferred
+  for each row execute function public.check_transaction_split();
+
+-- Deleting the expense would delete its shares and turn their repayments into
+-- plain income, so that is only allowed while nothing was paid back yet.
+create or replace function public.check_split_transaction_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1
+    from public.personal_debts d
+    join public.transactions r on r.personal_debt_id = d.id
+    where d.split_transaction_id = old.id
+  ) then
+    raise exception 'An expense whose shares were partly paid back cannot be deleted';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists transactions_check_split_delete on public.transactions;
+create trigger transactions_check_split_delete
+  before delete on public.transactions
+  for each row execute function public.check_split_transaction_delete();
+
+-- A share is lent on the day of the expense.
+create or replace function public.sync_split_debt_date()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.personal_debts
+  set debt_date = new.transaction_date
+  where split_transaction_id = new.id and debt_date <> new.transaction_date;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_sync_split_debt_date on public.transactions;
+create trigger transactions_sync_split_debt_date
+  after update of transaction_date on public.transactions
+  for each row execute function public.sync_split_debt_date();
+
+-- Replaces the shares of other people in an expense. `shares` is a JSON array
+-- of {"counterparty_id", "amount"}; an empty array removes the split. Shares
+-- that were already partly paid back can change but not be removed. Runs with
+-- the caller's privileges, so row level security limits it to their own rows.
+create or replace function public.set_transaction_splits(p_transaction_id uuid, p_method text, p_shares jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_transaction public.transactions%rowtype;
+  v_counterparty_ids uuid[];
+begin
+  select * into v_transaction from public.transactions where id = p_transaction_id;
+
+  if v_transaction.id is null then
+    raise exception 'Transaction not found';
+  end if;
+  if v_transaction.type <> 'expense' then
+    raise exception 'Only an expense can be split';
+  end if;
+
+  select coalesce(array_agg((s ->> 'counterparty_id')::uuid), '{}')
+  into v_counterparty_ids
+  from jsonb_array_elements(p_shares) s;
+
+  if exists (
+    select 1
+    from public.personal_debts d
+    join public.transactions r on r.personal_debt_id = d.id
+    where d.split_transaction_id = p_transaction_id
+      and not d.counterparty_id = any (v_counterparty_ids)
+  ) then
+    raise exception 'A share that was partly paid back cannot be removed';
+  end if;
+
+  delete from public.personal_debts
+  where split_transaction_id = p_transaction_id
+    and not counterparty_id = any (v_counterparty_ids);
+
+  insert into public.personal_debts (user_id, counterparty_id, direction, amount, currency, debt_date, description, split_transaction_id)
+  select
+    v_transaction.user_id,
+    (s ->> 'counterparty_id')::uuid,
+    'lent',
+    (s ->> 'amount')::numeric,
+    v_transaction.currency,
+    v_transaction.transaction_date,
+    v_transaction.description,
+    v_transaction.id
+  from jsonb_array_elements(p_shares) s
+  on conflict (split_transaction_id, counterparty_id) do update set amount = excluded.amount;
+
+  update public.transactions
+  set split_method = case when cardinality(v_counterparty_ids) > 0 then p_method end
+  where id = p_transaction_id;
+end;
+$$;
+
+-- Only the user's own share of a split expense is spent.
+create or replace function public.own_share(p_transaction_id uuid, p_amount numeric)
+returns numeric
+language sql
+stable
+as $$
+  select p_amount - coalesce((
+    select sum(d.amount) from public.personal_debts d where d.split_transaction_id = p_transaction_id
+  ), 0);
+$$;
+
+create or replace function public.monthly_cash_flow(from_date date, to_date date, base_currency text default 'IDR')
+returns table (month date, income numeric, expense numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.month::date,
+    coalesce(sum(public.convert_amount(t.amount, t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'income'), 0),
+    coalesce(sum(public.convert_amount(public.own_share(t.id, t.amount), t.currency, base_currency, t.transaction_date))
+      filter (where t.type = 'expense'), 0)
+  from generate_series(
+    date_trunc('month', from_date),
+    date_trunc('month', to_date),
+    interval '1 month'
+  ) as m(month)
+  left join public.transactions t
+    on t.user_id = auth.uid()
+    and t.type in ('income', 'expense')
+    and t.personal_debt_id is null
+    and t.transaction_date >= greatest(m.month::date, from_date)
+    and t.transaction_date < least((m.month + interval '1 month')::date, to_date + 1)
+  group by m.month
+  order by m.month;
+$$;
+
+create or replace function public.category_totals(
+  from_date date,
+  to_date date,
+  category_type text default 'expense',
+  base_currency text default 'IDR'
+)
+returns table (category_id uuid, total numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select t.category_id, coalesce(sum(public.convert_amount(
+    case when t.type = 'expense' then public.own_share(t.id, t.amount) else t.amount end,
+    t.currency,
+    base_currency,
+    t.transaction_date
+  )), 0)
+  from public.transactions t
+  where t.user_id = auth.uid()
+    and t.type = category_type
+    and t.personal_debt_id is null
+    and t.transaction_date between from_date and to_date
+  group by t.category_id
+  order by 2 desc;
+$$;
@@ -0,0 +1,316 @@
+-- A transaction can be broken down into category lines, e.g. a supermarket
+-- receipt into groceries, household and baby items. The lines of a transaction
+-- add up to its amount; its own category_id keeps the category of the largest
+-- line so rules keep working, and category_ids holds the categories of all
+-- lines for filters. Reports allocate by line.
+
+create table if not exists public.transaction_lines (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  transaction_id uuid not null references public.transactions (id) on delete cascade,
+  category_id uuid not null references public.categories (id) on delete restrict,
+  amount numeric not null constraint transaction_lines_amount_check check (amount > 0),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transaction_lines_transaction_id_idx on public.transaction_lines (transaction_id);
+create index if not exists transaction_lines_category_id_idx on public.transaction_lines (category_id);
+
+alter table public.transaction_lines enable row level security;
+
+drop policy if exists "Users manage their own transaction lines" on public.transaction_lines;
+create policy "Users manage their own transaction lines"
+  on public.transaction_lines for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and public.is_own_transaction(transaction_id)
+    and public.is_own_category(category_id)
+  );
+
+-- The lines of an income or expense add up to its amount and use categories of
+-- its type. Checked at the end of the transaction so all lines can be written
+-- before they are compared. Removing every line is fine, removing some is not.
+create or replace function public.check_transaction_lines()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_transaction_id uuid;
+  v_transaction public.transactions%rowtype;
+begin
+  -- Each branch only reads fields of the row type of its own table.
+  if tg_table_name = 'transactions' then
+    v_transaction_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_transaction_id := old.transaction_id;
+  else
+    v_transaction_id := new.transaction_id;
+  end if;
+
+  if not exists (select 1 from public.transaction_lines where transaction_id = v_transaction_id) then
+    return null;
+  end if;
+
+  select * into v_transaction from public.transactions where id = v_transaction_id;
+
+  if exists (
+    select 1
+    from public.transaction_lines l
+    join public.categories c on c.id = l.category_id
+    where l.transaction_id = v_transaction_id and c.type <> v_transaction.type
+  ) then
+    raise exception 'The categories of the lines must match the type of the transaction';
+  end if;
+  if (select sum(amount) from public.transaction_lines where transaction_id = v_transaction_id) <> v_transaction.amount then
+    raise exception 'The lines must add up to the amount of the transaction';
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists transaction_lines_check on public.transaction_lines;
+create constraint trigger transaction_lines_check
+  after insert or update or delete on public.transaction_lines
+  deferrable initially deferred
+  for each row execute function public.check_transaction_lines();
+
+drop trigger if exists transactions_check_lines on public.transactions;
+create constraint trigger transactions_check_lines
+  after update on public.transactions
+  deferrable initially deferred
+  for each row execute function public.check_transaction_lines();
+
+-- The category of a transaction and those of its lines, kept on the
+-- transaction so the history can be filtered on any of them with an index.
+alter table public.transactions
+  add column if not exists category_ids uuid[] not null default '{}';
+
+create index if not exists transactions_category_ids_idx on public.transactions using gin (category_ids);
+
+create or replace function public.transaction_category_ids(p_transaction_id uuid, p_category_id uuid)
+returns uuid[]
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(array_agg(distinct c.id), '{}')
+  from (
+    select p_category_id as id
+    union all
+    select l.category_id from public.transaction_lines l where l.transaction_id = p_transaction_id
+  ) c
+  where c.id is not null;
+$$;
+
+create or replace function public.set_transaction_category_ids()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.category_ids := public.transaction_category_ids(new.id, new.category_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_set_category_ids on public.transactions;
+create trigger transactions_set_category_ids
+  before insert or update of category_id on public.transactions
+  for each row execute function public.set_transaction_category_ids();
+
+create or replace function public.sync_transaction_category_ids()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    update public.transactions
+    set category_ids = public.transaction_category_ids(id, category_id)
+    where id = old.transaction_id;
+  end if;
+  if tg_op <> 'DELETE' then
+    update public.transactions
+    set category_ids = public.transaction_category_ids(id, category_id)
+    where id = new.transaction_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists transaction_lines_sync_category_ids on public.transaction_lines;
+create trigger transaction_lines_sync_category_ids
+  after insert or update or delete on public.transaction_lines
+  for each row execute function public.sync_transaction_category_ids();
+
+update public.transactions
+set category_ids = public.transaction_category_ids(id, category_id)
+where category_id is not null;
+
+-- Inserts a transaction (a JSON object of transactions columns) together with
+-- its lines, a JSON array like the one of update_transaction_with_lines, and
+-- returns its id. Columns left out get their defaults.
+create or replace function public.create_transaction_with_lines(p_transaction jsonb, p_lines jsonb)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_columns text;
+  v_values text;
+  v_transaction public.transactions%rowtype;
+begin
+  select string_agg(format('%I', key), ', '), string_agg(format('r.%I', key), ', ')
+  into v_columns, v_values
+  from jsonb_object_keys(p_transaction) key;
+
+  execute format(
+    'insert into public.transactions (%s) select %s from jsonb_populate_record(null::public.transactions, $1) r returning *',
+    v_columns,
+    v_values
+  ) into v_transaction using p_transaction;
+
+  insert into public.transaction_lines (user_id, transaction_id, category_id, amount, note)
+  select
+    v_transaction.user_id,
+    v_transaction.id,
+    (l ->> 'category_id')::uuid,
+    (l ->> 'amount')::numeric,
+    nullif(l ->> 'note', '')
+  from jsonb_array_elements(p_lines) l;
+
+  return v_transaction.id;
+end;
+$$;
+
+-- Applies `changes` (a JSON object of transactions columns) to a transaction and
+-- replaces its lines in one go, so the lines never disagree with a new amount
+-- or type. `lines` is a JSON array of {"category_id", "amount", "note"}; an
+-- empty array turns it back into a single-category transaction. Runs with the
+-- caller's privileges, so row level security limits it to their own rows.
+create or replace function public.update_transaction_with_lines(p_transaction_id uuid, p_changes jsonb, p_lines jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_assignments text;
+begin
+  select user_id into v_user_id from public.transactions where id = p_transaction_id;
+
+  if v_user_id is null then
+    raise exception 'Transaction not found';
+  end if;
+
+  delete from public.transaction_lines where transaction_id = p_transaction_id;
+
+  select string_agg(format('%I = r.%I', key, key), ', ')
+  into v_assignments
+  from jsonb_object_keys(p_changes) key;
+
+  if v_assignments is not null then
+    execute format(
+      'update public.transactions t set %s from jsonb_populate_record(null::public.transactions, $1) r where t.id = $2',
+      v_assignments
+    ) using p_changes, p_transaction_id;
+  end if;
+
+  insert into public.transaction_lines (user_id, transaction_id, category_id, amount, note)
+  select
+    v_user_id,
+    p_transaction_id,
+    (l ->> 'category_id')::uuid,
+    (l ->> 'amount')::numeric,
+    nullif(l ->> 'note', '')
+  from jsonb_array_elements(p_lines) l;
+end;
+$$;
+
+-- Merging a category also moves the lines that use it.
+create or replace function public.merge_category(source_id uuid, target_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  source public.categories%rowtype;
+  target public.categories%rowtype;
+begin
+  select * into source from public.categories where id = source_id;
+  select * into target from public.categories where id = target_id;
+
+  if source.id is null or target.id is null then
+    raise exception 'Category not found';
+  end if;
+  if source.id = target.id then
+    raise exception 'A category cannot be merged into itself';
+  end if;
+  if source.type <> target.type then
+    raise exception 'Only categories of the same type can be merged';
+  end if;
+  if target.parent_id = source.id then
+    raise exception 'A category cannot be merged into one of its subcategories';
+  end if;
+  if target.parent_id is not null and exists (select 1 from public.categories where parent_id = source.id) then
+    raise exception 'A category with subcategories can only be merged into a top-level category';
+  end if;
+
+  update public.categories set parent_id = target.id where parent_id = source.id;
+
+  update public.transactions set category_id = target.id where category_id = source.id;
+  update public.transaction_lines set category_id = target.id where category_id = source.id;
+  update public.recurring_transactions set category_id = target.id where category_id = source.id;
+  update public.category_rules set category_id = target.id where category_id = source.id;
+
+  update public.budgets t
+  set amount = t.amount + s.amount
+  from public.budgets s
+  where s.category_id = source.id
+    and t.category_id = target.id
+    and t.month = s.month;
+
+  delete from public.budgets s
+  where s.category_id = source.id
+    and exists (select 1 from public.budgets t where t.category_id = target.id and t.month = s.month);
+
+  update public.budgets set category_id = target.id where category_id = source.id;
+
+  delete from public.categories where id = source.id;
+end;
+$$;
+
+-- A transaction with lines counts towards the category of each line. The
+-- user's own share of a split expense is spread over its lines in proportion.
+create or replace function public.category_totals(
+  from_date date,
+  to_date date,
+  category_type text default 'expense',
+  base_currency text default 'IDR'
+)
+returns table (category_id uuid, total numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(l.category_id, t.category_id), coalesce(sum(public.convert_amount(
+    (case when t.type = 'expense' then public.own_share(t.id, t.amount) else t.amount end)
+      * coalesce(l.amount / t.amount, 1),
+    t.currency,
+    base_currency,
+    t.transaction_date
+  )), 0)
+  from public.transactions t
+  left join public.transaction_lines l on l.transaction_id = t.id
+  where t.user_id = auth.uid()
+    and t.type = category_type
+    and t.personal_debt_id is null
+    and t.transaction_date between from_date and to_date
+  group by 1
+  order by 2 desc;
+$$;
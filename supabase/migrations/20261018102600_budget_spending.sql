@@ -0,0 +1,42 @@
+-- What was spent against each budget between two months, in the base currency.
+-- Spending in a subcategory also counts towards the budget of its parent
+-- category; a split expense only counts the user's own share, spread over its
+-- category lines in proportion. One row per budget keeps the result small no
+-- matter how many transactions there are.
+create or replace function public.budget_spending(from_month date, to_month date, base_currency text default 'IDR')
+returns table (category_id uuid, month date, spent numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with spending as (
+    select
+      date_trunc('month', t.transaction_date)::date as month,
+      coalesce(l.category_id, t.category_id) as category_id,
+      public.convert_amount(
+        public.own_share(t.id, t.amount) * coalesce(l.amount, t.amount) / t.amount,
+        t.currency,
+        base_currency,
+        t.transaction_date
+      ) as amount
+    from public.transactions t
+    left join public.transaction_lines l on l.transaction_id = t.id
+    where t.user_id = auth.uid()
+      and t.type = 'expense'
+      and t.personal_debt_id is null
+      and t.transaction_date >= from_month
+      and t.transaction_date < (to_month + interval '1 month')::date
+  )
+  select b.category_id, b.month, coalesce(sum(s.amount), 0)
+  from public.budgets b
+  left join spending s
+    on s.month = b.month
+    and (
+      s.category_id = b.category_id
+      or s.category_id in (select c.id from public.categories c where c.parent_id = b.category_id)
+    )
+  where b.user_id = auth.uid()
+    and b.month between from_month and to_month
+  group by b.category_id, b.month;
+$$;